@@ -0,0 +1,70 @@
+import { getLiveRelay, relayError, RELAY_CORS_HEADERS } from "@/lib/live-relay"
+import type { LiveShareEventName, LiveShareEvents } from "@/lib/live-share-protocol"
+
+export const dynamic = "force-dynamic"
+
+// Comment lines keep proxies from closing a quiet stream while the driver is parked
+const KEEPALIVE_MS = 15000
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/live/{id}/events streams the session as server-sent events. EventSource resends the last
+ * fix seq as Last-Event-ID when it reconnects; `?after=` does the same for clients that reconnect
+ * by hand.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const after = request.headers.get("last-event-id") ?? new URL(request.url).searchParams.get("after")
+  const afterSeq = after !== null && Number.isFinite(Number(after)) ? Number(after) : -1
+
+  const encoder = new TextEncoder()
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  let cleanup = () => {}
+  // start() runs inside the constructor, so the controller is ready before subscribing below
+  const stream = new ReadableStream<Uint8Array>({
+    start: (streamController) => void (controller = streamController),
+    cancel: () => cleanup(),
+  })
+
+  // The relay calls this while looping over every viewer, so a stream that has gone away must not throw
+  const write = (chunk: string) => {
+    try {
+      controller.enqueue(encoder.encode(chunk))
+      return true
+    } catch {
+      cleanup()
+      return false
+    }
+  }
+
+  const send = <E extends LiveShareEventName>(event: E, data: LiveShareEvents[E]) => {
+    const eventId = event === "fix" ? `id: ${(data as LiveShareEvents["fix"]).seq}\n` : ""
+    if (write(`event: ${event}\n${eventId}data: ${JSON.stringify(data)}\n\n`) && event === "end") {
+      cleanup()
+      controller.close()
+    }
+  }
+
+  const subscription = getLiveRelay().subscribe(id, afterSeq, send)
+  if (!subscription.ok) return relayError(subscription.error)
+
+  const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS)
+  cleanup = () => {
+    clearInterval(keepalive)
+    subscription.value()
+  }
+  request.signal.addEventListener("abort", cleanup)
+
+  return new Response(stream, {
+    headers: {
+      ...RELAY_CORS_HEADERS,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
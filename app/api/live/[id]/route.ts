@@ -0,0 +1,36 @@
+import {
+  bearerToken,
+  getLiveRelay,
+  parseRelayRequest,
+  relayError,
+  relayJson,
+  RELAY_CORS_HEADERS,
+} from "@/lib/live-relay"
+import { publishRequestSchema } from "@/lib/live-share-protocol"
+
+export const dynamic = "force-dynamic"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/live/{id} publishes a batch of fixes
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const parsed = await parseRelayRequest(request, publishRequestSchema)
+  if (!parsed.ok) return parsed.response
+
+  const result = getLiveRelay().publish(id, bearerToken(request), parsed.value.fixes)
+  return result.ok ? relayJson(result.value) : relayError(result.error)
+}
+
+// DELETE /api/live/{id} ends the session for every viewer
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const result = getLiveRelay().end(id, bearerToken(request))
+  return result.ok ? new Response(null, { status: 204, headers: RELAY_CORS_HEADERS }) : relayError(result.error)
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: RELAY_CORS_HEADERS })
+}
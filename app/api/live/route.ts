@@ -0,0 +1,17 @@
+import { getLiveRelay, parseRelayRequest, relayError, relayJson, RELAY_CORS_HEADERS } from "@/lib/live-relay"
+import { createSessionRequestSchema } from "@/lib/live-share-protocol"
+
+export const dynamic = "force-dynamic"
+
+// POST /api/live starts a share session
+export async function POST(request: Request) {
+  const parsed = await parseRelayRequest(request, createSessionRequestSchema)
+  if (!parsed.ok) return parsed.response
+
+  const result = getLiveRelay().create(parsed.value.ttl)
+  return result.ok ? relayJson(result.value, 201) : relayError(result.error, "The relay has too many open sessions")
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: RELAY_CORS_HEADERS })
+}
@@ -0,0 +1,25 @@
+import { checkFleetToken, fleetError, fleetJson, fleetPreflight } from "@/lib/fleet-http"
+import { getTripStore } from "@/lib/trip-store"
+
+export const dynamic = "force-dynamic"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/trips/{id} returns the full trip, samples and speeding events included
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = checkFleetToken(request)
+  if (denied) return denied
+
+  const { id } = await params
+  try {
+    const trip = await getTripStore().get(id)
+    return trip ? fleetJson(trip) : fleetError(404, "Trip not found")
+  } catch (err) {
+    console.error("Trip store error:", err)
+    return fleetError(500, "Unable to load trip")
+  }
+}
+
+export const OPTIONS = fleetPreflight
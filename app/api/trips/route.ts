@@ -0,0 +1,78 @@
+import {
+  FLEET_API_VERSION,
+  summarizeDrivers,
+  toUploadedTrip,
+  tripUploadSchema,
+  type TripListResponse,
+  type TripQuery,
+} from "@/lib/fleet"
+import { checkFleetToken, fleetError, fleetJson, fleetPreflight, fleetThresholds } from "@/lib/fleet-http"
+import { getTripStore } from "@/lib/trip-store"
+
+export const dynamic = "force-dynamic"
+
+const optionalNumber = (value: string | null) => {
+  if (value === null || value === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+// POST /api/trips uploads a trip; uploading the same trip id again replaces it
+export async function POST(request: Request) {
+  const denied = checkFleetToken(request)
+  if (denied) return denied
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return fleetError(400, "Body must be JSON")
+  }
+  if ((body as { version?: unknown } | null)?.version !== FLEET_API_VERSION) {
+    return fleetError(400, `API version ${FLEET_API_VERSION} is required`)
+  }
+  const parsed = tripUploadSchema.safeParse(body)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return fleetError(400, `${issue.path.join(".") || "body"}: ${issue.message}`)
+  }
+
+  const trip = toUploadedTrip(parsed.data, fleetThresholds())
+  try {
+    const { created } = await getTripStore().put(trip)
+    return fleetJson({ id: trip.id, safetyScore: trip.safetyScore, events: trip.events.length }, created ? 201 : 200)
+  } catch (err) {
+    console.error("Trip store error:", err)
+    return fleetError(500, "Unable to store trip")
+  }
+}
+
+// GET /api/trips?driver=&from=&to=&limit= lists trip summaries and per-driver totals
+export async function GET(request: Request) {
+  const denied = checkFleetToken(request)
+  if (denied) return denied
+
+  const params = new URL(request.url).searchParams
+  const from = optionalNumber(params.get("from"))
+  const to = optionalNumber(params.get("to"))
+  const limit = optionalNumber(params.get("limit"))
+  if (from === null || to === null || limit === null) return fleetError(400, "from, to and limit must be numbers")
+
+  // Driver totals cover the whole period, whichever driver the trip list is narrowed to
+  const period: TripQuery = { from, to }
+  try {
+    const trips = await getTripStore().list(period)
+    const driverId = params.get("driver") || undefined
+    const listed = trips.filter((trip) => driverId === undefined || trip.driverId === driverId)
+    const response: TripListResponse = {
+      trips: limit === undefined ? listed : listed.slice(0, Math.max(0, limit)),
+      drivers: summarizeDrivers(trips),
+    }
+    return fleetJson(response)
+  } catch (err) {
+    console.error("Trip store error:", err)
+    return fleetError(500, "Unable to list trips")
+  }
+}
+
+export const OPTIONS = fleetPreflight
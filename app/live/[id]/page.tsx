@@ -0,0 +1,172 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
+import { useParams, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { LiveMap } from "@/components/live-map"
+import { ArrowLeft, Navigation } from "lucide-react"
+import { useSettings } from "@/hooks/use-settings"
+import { cn } from "@/lib/utils"
+import { formatDuration } from "@/lib/format"
+import { subscribeToLiveShare, type LiveViewerStatus } from "@/lib/live-share"
+import type { LiveFix } from "@/lib/live-share-protocol"
+import { MPS_TO_MPH, SPEED_UNITS, nextSpeedUnit, toDisplaySpeed } from "@/lib/units"
+import type { TripSample } from "@/lib/types"
+
+const STATUS_LABELS: Record<LiveViewerStatus, string> = {
+  connecting: "Connecting",
+  live: "Live",
+  reconnecting: "Reconnecting",
+  ended: "Sharing ended",
+  unavailable: "Link expired or invalid",
+}
+
+const STATUS_COLORS: Record<LiveViewerStatus, string> = {
+  connecting: "bg-slate-600",
+  live: "bg-green-600",
+  reconnecting: "bg-amber-600",
+  ended: "bg-slate-600",
+  unavailable: "bg-red-600",
+}
+
+// Beyond this the trail is trimmed from the start; about an hour at 1 Hz
+const MAX_TRAIL_FIXES = 3600
+
+export default function LiveViewerPage() {
+  const { id } = useParams<{ id: string }>()
+  const relayUrl = useSearchParams().get("relay") ?? ""
+  const [settings, setSettings] = useSettings()
+  const { unit } = settings
+
+  const [status, setStatus] = useState<LiveViewerStatus>("connecting")
+  const [expiresAt, setExpiresAt] = useState<number | null>(null)
+  const [latest, setLatest] = useState<LiveFix | null>(null)
+  const [maxSpeed, setMaxSpeed] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
+  const trailRef = useRef<TripSample[]>([])
+
+  useEffect(() => {
+    trailRef.current = []
+    return subscribeToLiveShare(relayUrl, id, {
+      onHello: (hello) => setExpiresAt(hello.expiresAt),
+      onFix: (fix) => {
+        const speed = fix.speed * MPS_TO_MPH
+        trailRef.current.push({ ...fix, speed })
+        if (trailRef.current.length > MAX_TRAIL_FIXES) trailRef.current.shift()
+        setLatest(fix)
+        setMaxSpeed((prev) => Math.max(prev, speed))
+      },
+      onStatus: setStatus,
+    })
+  }, [relayUrl, id])
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const displaySpeed = latest ? toDisplaySpeed(latest.speed * MPS_TO_MPH, unit) : 0
+  const speedPercentage = Math.min((displaySpeed / settings.dialMax) * 100, 100)
+  const heading = latest?.heading ?? null
+  const isActive = status === "live" || status === "reconnecting" || status === "connecting"
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex justify-between items-center">
+          <Button asChild variant="outline" className="bg-transparent text-white">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Speedometer
+            </Link>
+          </Button>
+          <h1 className="text-xl font-bold text-white">Live View</h1>
+          <Button
+            onClick={() => setSettings((prev) => ({ ...prev, unit: nextSpeedUnit(prev.unit) }))}
+            variant="outline"
+          >
+            {SPEED_UNITS[unit].label}
+          </Button>
+        </div>
+
+        <div className="flex justify-center gap-2">
+          <Badge className={cn("text-white", STATUS_COLORS[status])}>{STATUS_LABELS[status]}</Badge>
+          {isActive && expiresAt && (
+            <Badge variant="outline" className="text-xs text-slate-300">
+              Expires in {formatDuration(expiresAt - now)}
+            </Badge>
+          )}
+        </div>
+
+        <Card className="relative p-8 bg-gradient-to-br from-slate-800/50 to-purple-800/30 border-purple-500/30">
+          <div className="relative w-64 h-64 mx-auto">
+            <svg className="absolute inset-0 w-full h-full -rotate-90" viewBox="0 0 100 100">
+              <circle cx="50" cy="50" r="45" fill="none" stroke="rgba(168, 85, 247, 0.2)" strokeWidth="8" />
+              <circle
+                cx="50"
+                cy="50"
+                r="45"
+                fill="none"
+                stroke="url(#liveSpeedGradient)"
+                strokeWidth="8"
+                strokeLinecap="round"
+                strokeDasharray={`${speedPercentage * 2.827} 282.7`}
+                className="transition-all duration-300 ease-out"
+              />
+              <defs>
+                <linearGradient id="liveSpeedGradient" x1="0%" y1="0%" x2="100%" y2="0%">
+                  <stop offset="0%" stopColor="#3b82f6" />
+                  <stop offset="50%" stopColor="#8b5cf6" />
+                  <stop offset="100%" stopColor="#ec4899" />
+                </linearGradient>
+              </defs>
+            </svg>
+
+            <div className="absolute inset-0 flex flex-col items-center justify-center">
+              <div className="text-6xl font-bold text-white mb-2 font-mono">
+                {latest ? displaySpeed.toFixed(1) : "--"}
+              </div>
+              <div className="text-xl text-purple-300 font-semibold mb-4">{SPEED_UNITS[unit].label}</div>
+              {heading !== null && (
+                <div className="flex items-center gap-2 text-sm text-purple-300">
+                  <Navigation className="w-4 h-4" style={{ transform: `rotate(${heading}deg)` }} />
+                  <span>{Math.round(heading)}°</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-3 gap-4">
+          <Card className="p-4 bg-slate-800/50 border-slate-700 gap-1">
+            <div className="text-xs text-slate-400">Max</div>
+            <div className="text-lg font-bold text-white">{toDisplaySpeed(maxSpeed, unit).toFixed(1)}</div>
+          </Card>
+          <Card className="p-4 bg-slate-800/50 border-slate-700 gap-1">
+            <div className="text-xs text-slate-400">Accuracy</div>
+            <div className="text-lg font-bold text-white">{latest ? `±${Math.round(latest.accuracy)}m` : "--"}</div>
+          </Card>
+          <Card className="p-4 bg-slate-800/50 border-slate-700 gap-1">
+            <div className="text-xs text-slate-400">Updated</div>
+            <div className="text-lg font-bold text-white">
+              {latest ? `${formatDuration(now - latest.timestamp)} ago` : "--"}
+            </div>
+          </Card>
+        </div>
+
+        <LiveMap
+          samples={trailRef.current}
+          position={latest}
+          heading={heading}
+          unit={unit}
+          dialMax={settings.dialMax}
+          settings={settings.map}
+          onSettingsChange={(map) => setSettings((prev) => ({ ...prev, map }))}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,23 +1,186 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo, useRef, type ReactNode } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Navigation, AlertTriangle, Wifi, WifiOff, Video, VideoOff, Download, Camera } from "lucide-react"
-
-interface SpeedData {
-  speed: number
-  accuracy: number
-  heading: number | null
-  timestamp: number
-}
-
-interface Position {
-  latitude: number
-  longitude: number
-  timestamp: number
-}
+import Link from "next/link"
+import {
+  Navigation,
+  AlertTriangle,
+  Wifi,
+  WifiOff,
+  Video,
+  VideoOff,
+  Download,
+  Camera,
+  History,
+  Bell,
+  BellRing,
+  MapPin,
+  Layers,
+  Repeat,
+  Flag,
+  SlidersHorizontal,
+  X,
+  Film,
+  BarChart3,
+  Timer,
+  Gauge,
+  MonitorSmartphone,
+  Compass,
+  Settings,
+  Map as MapIcon,
+  Share2,
+  ShieldCheck,
+  Users,
+} from "lucide-react"
+import { TrackExportButtons } from "@/components/track-export-buttons"
+import { ReplayControls } from "@/components/replay-controls"
+import { SpeedAlertSettingsCard } from "@/components/speed-alert-settings"
+import { SpeedZonesPanel } from "@/components/speed-zones-panel"
+import { OverlayLayoutEditor } from "@/components/overlay-layout-editor"
+import { LoopRecordingPanel } from "@/components/loop-recording-panel"
+import { TelemetryExportButtons } from "@/components/telemetry-export-buttons"
+import { RecordingSettingsCard } from "@/components/recording-settings-card"
+import { TripAnalytics } from "@/components/trip-analytics"
+import { PerformanceTimerPanel } from "@/components/performance-timer-panel"
+import { TripComputerPanel } from "@/components/trip-computer-panel"
+import { HudView } from "@/components/hud-view"
+import { HudSettingsCard } from "@/components/hud-settings-card"
+import { GpsDiagnosticsPanel } from "@/components/gps-diagnostics-panel"
+import { DeadReckoningCard } from "@/components/dead-reckoning-card"
+import { LiveMap } from "@/components/live-map"
+import { LiveSharePanel } from "@/components/live-share-panel"
+import { DrivingBehaviorPanel } from "@/components/driving-behavior-panel"
+import { PictureInPictureSpeedometer } from "@/components/picture-in-picture-speedometer"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { useWakeLock } from "@/hooks/use-wake-lock"
+import { useDeviceMotion } from "@/hooks/use-device-motion"
+import { useSettings } from "@/hooks/use-settings"
+import { useTripUploads } from "@/hooks/use-trip-uploads"
+import { queueTripUpload } from "@/lib/trip-upload"
+import { cn } from "@/lib/utils"
+import { haversineDistance } from "@/lib/geo"
+import { downloadBlob, fileTimestamp } from "@/lib/download"
+import { createFrameLoop, type FrameLoop } from "@/lib/frame-loop"
+import {
+  TRIP_CHECKPOINT_MS,
+  createTrip,
+  isReplayTrip,
+  saveTripCheckpoint,
+  type Trip,
+  type TripSource,
+} from "@/lib/trips"
+import { createGeolocationSource, type PositionSource } from "@/lib/position-source"
+import {
+  createFixMonitor,
+  DEFAULT_GPS_DIAGNOSTICS_SETTINGS,
+  FIX_QUALITY_COLORS,
+  FIX_QUALITY_LABELS,
+  GPS_DIAGNOSTICS_STORAGE_KEY,
+  rateFix,
+  type GpsDiagnosticsSettings,
+} from "@/lib/gps-quality"
+import {
+  createDeadReckoner,
+  DEAD_RECKONING_STORAGE_KEY,
+  DEFAULT_DEAD_RECKONING_SETTINGS,
+  ESTIMATE_AFTER_MS,
+  type DeadReckoningSettings,
+  type SensorTrace,
+  type SensorTraceEvent,
+} from "@/lib/dead-reckoning"
+import type { ReplaySource } from "@/lib/replay-source"
+import {
+  DEFAULT_LIVE_SHARE_SETTINGS,
+  IDLE_LIVE_SHARE_STATE,
+  LIVE_SHARE_STORAGE_KEY,
+  createLiveSharePublisher,
+  type LiveSharePublisher,
+  type LiveShareSettings,
+  type LiveShareState,
+} from "@/lib/live-share"
+import {
+  DEFAULT_BEHAVIOR_THRESHOLDS,
+  DRIVING_BEHAVIOR_STORAGE_KEY,
+  type BehaviorThresholds,
+} from "@/lib/driver-behavior"
+import {
+  createSpeedEstimator,
+  SPEED_MODE_LABELS,
+  type SpeedEstimator,
+  type SpeedMeasurement,
+  type SpeedMode,
+} from "@/lib/speed-estimator"
+import {
+  APPROACH_RATIO,
+  DEFAULT_SPEED_ALERT_SETTINGS,
+  SPEED_ALERTS_STORAGE_KEY,
+  evaluateAlertLevel,
+  hysteresisFor,
+  playAlertChime,
+  thresholdsFor,
+  vibrateAlert,
+} from "@/lib/speed-alerts"
+import {
+  SPEED_ZONES_STORAGE_KEY,
+  createViolationTracker,
+  findActiveZone,
+  saveViolation,
+  type SpeedZone,
+  type ZoneViolation,
+} from "@/lib/speed-zones"
+import {
+  DEFAULT_OVERLAY_LAYOUT_STATE,
+  OVERLAY_LAYOUTS_STORAGE_KEY,
+  getActiveLayout,
+  type OverlayLayoutState,
+} from "@/lib/overlay-layouts"
+import { captionStripHeight, drawCaptionStrip, drawOverlay, type OverlayData } from "@/lib/overlay-renderer"
+import { createRecordingEvidence, type RecordingEvidence } from "@/lib/evidence"
+import type { TelemetryEntry } from "@/lib/telemetry"
+import {
+  captureThumbnail,
+  createRecording,
+  hasStorageFor,
+  isQuotaError,
+  requestPersistentStorage,
+  saveRecording,
+} from "@/lib/recordings"
+import {
+  createPerformanceTimer,
+  savePerformanceRun,
+  type PerformanceTimer,
+  type TimerState,
+  type TimingMode,
+} from "@/lib/performance-timer"
+import {
+  DEFAULT_TRIP_COMPUTER_STATE,
+  TRIP_COMPUTER_STORAGE_KEY,
+  accumulateStep,
+  type TripComputerState,
+} from "@/lib/trip-computer"
+import { DEFAULT_HUD_SETTINGS, HUD_STORAGE_KEY, type HudSettings } from "@/lib/hud"
+import {
+  DEFAULT_LOOP_RECORDING_SETTINGS,
+  LOOP_RECORDING_STORAGE_KEY,
+  createDecelerationTrigger,
+  createLoopRecorder,
+  type EventTrigger,
+  type LoopRecorder,
+  type LoopRecordingSettings,
+} from "@/lib/loop-recorder"
+import {
+  DEFAULT_RECORDING_SETTINGS,
+  RECORDING_SETTINGS_STORAGE_KEY,
+  getResolution,
+  resolveRecordingFormat,
+  type RecordingFormat,
+  type RecordingSettings,
+} from "@/lib/recording-formats"
+import { MPS_TO_MPH, SPEED_UNITS, convertSpeed, nextSpeedUnit, toDisplaySpeed } from "@/lib/units"
+import type { Position, TripSample } from "@/lib/types"
 
 export default function GPSSpeedometer() {
   const [speed, setSpeed] = useState(0)
@@ -26,70 +189,171 @@ export default function GPSSpeedometer() {
   const [error, setError] = useState<string | null>(null)
   const [accuracy, setAccuracy] = useState<number | null>(null)
   const [heading, setHeading] = useState<number | null>(null)
-  const [unit, setUnit] = useState<"mph" | "kmh">("mph")
+  const [altitude, setAltitude] = useState<number | null>(null)
+  const [settings, setSettings] = useSettings()
+  const { unit } = settings
+  const speedMode = settings.smoothing.mode
   const [isConnected, setIsConnected] = useState(false)
+  const [sourceMode, setSourceMode] = useState<"live" | "replay">("live")
+  const [replaySource, setReplaySource] = useState<ReplaySource | null>(null)
+  const [replayFileName, setReplayFileName] = useState<string | null>(null)
+  const [alertSettings, setAlertSettings] = useStoredState(SPEED_ALERTS_STORAGE_KEY, DEFAULT_SPEED_ALERT_SETTINGS)
+  const [alertLevel, setAlertLevel] = useState(0)
+  const [showAlertSettings, setShowAlertSettings] = useState(false)
+  const [zones, setZones] = useStoredState<SpeedZone[]>(SPEED_ZONES_STORAGE_KEY, [])
+  const [activeZone, setActiveZone] = useState<SpeedZone | null>(null)
+  const [showZones, setShowZones] = useState(false)
+  const [violationCount, setViolationCount] = useState(0)
+  const [overlayLayouts, setOverlayLayouts] = useStoredState<OverlayLayoutState>(
+    OVERLAY_LAYOUTS_STORAGE_KEY,
+    DEFAULT_OVERLAY_LAYOUT_STATE,
+  )
+  const [showOverlayEditor, setShowOverlayEditor] = useState(false)
+  const [showCaptionStrip, setShowCaptionStrip] = useStoredState("caption-strip", true)
+  const [recordingEvidence, setRecordingEvidence] = useState<RecordingEvidence | null>(null)
+  const [loopSettings, setLoopSettings] = useStoredState<LoopRecordingSettings>(
+    LOOP_RECORDING_STORAGE_KEY,
+    DEFAULT_LOOP_RECORDING_SETTINGS,
+  )
+  const [loopRevision, setLoopRevision] = useState(0)
+  const [showLoopPanel, setShowLoopPanel] = useState(false)
+  const [eventMessage, setEventMessage] = useState<string | null>(null)
+  const [recordingSettings, setRecordingSettings] = useStoredState<RecordingSettings>(
+    RECORDING_SETTINGS_STORAGE_KEY,
+    DEFAULT_RECORDING_SETTINGS,
+  )
+  const [showRecordingSettings, setShowRecordingSettings] = useState(false)
+  const [showAnalytics, setShowAnalytics] = useState(false)
+  const [showTimer, setShowTimer] = useState(false)
+  const [timerState, setTimerState] = useState<TimerState | null>(null)
+  const [timerRevision, setTimerRevision] = useState(0)
+  const [tripComputer, setTripComputer] = useStoredState<TripComputerState>(
+    TRIP_COMPUTER_STORAGE_KEY,
+    DEFAULT_TRIP_COMPUTER_STATE,
+  )
+  const [showTripComputer, setShowTripComputer] = useState(false)
+  const [hudSettings, setHudSettings] = useStoredState<HudSettings>(HUD_STORAGE_KEY, DEFAULT_HUD_SETTINGS)
+  const [showHudSettings, setShowHudSettings] = useState(false)
+  const [isHudActive, setIsHudActive] = useState(false)
+  const [gpsDiagnostics, setGpsDiagnostics] = useStoredState<GpsDiagnosticsSettings>(
+    GPS_DIAGNOSTICS_STORAGE_KEY,
+    DEFAULT_GPS_DIAGNOSTICS_SETTINGS,
+  )
+  const [showGpsDiagnostics, setShowGpsDiagnostics] = useState(false)
+  const [showMap, setShowMap] = useState(false)
+  const [isSpeedLocked, setIsSpeedLocked] = useState(false)
+  const [deadReckoning, setDeadReckoning] = useStoredState<DeadReckoningSettings>(
+    DEAD_RECKONING_STORAGE_KEY,
+    DEFAULT_DEAD_RECKONING_SETTINGS,
+  )
+  const [isSpeedEstimated, setIsSpeedEstimated] = useState(false)
+  const [isRecordingTrace, setIsRecordingTrace] = useState(false)
+  const [liveShareSettings, setLiveShareSettings] = useStoredState<LiveShareSettings>(
+    LIVE_SHARE_STORAGE_KEY,
+    DEFAULT_LIVE_SHARE_SETTINGS,
+  )
+  const [liveShareState, setLiveShareState] = useState<LiveShareState>(IDLE_LIVE_SHARE_STATE)
+  const [showLiveShare, setShowLiveShare] = useState(false)
+  const [behaviorThresholds, setBehaviorThresholds] = useStoredState<BehaviorThresholds>(
+    DRIVING_BEHAVIOR_STORAGE_KEY,
+    DEFAULT_BEHAVIOR_THRESHOLDS,
+  )
+  const [showDrivingScore, setShowDrivingScore] = useState(false)
+  const [pipButtonSlot, setPipButtonSlot] = useState<HTMLElement | null>(null)
+  const [recordingFormat, setRecordingFormat] = useState<RecordingFormat | null>(null)
 
   const [isRecording, setIsRecording] = useState(false)
   const [isCameraActive, setIsCameraActive] = useState(false)
   const [recordedChunks, setRecordedChunks] = useState<Blob[]>([])
   const [cameraError, setCameraError] = useState<string | null>(null)
 
-  const watchIdRef = useRef<number | null>(null)
+  const positionSourceRef = useRef<PositionSource | null>(null)
   const lastPositionRef = useRef<Position | null>(null)
-  const speedHistoryRef = useRef<number[]>([])
+  const speedEstimatorRef = useRef<SpeedEstimator>(createSpeedEstimator("kalman"))
+  const tripSamplesRef = useRef<TripSample[]>([])
+  // The trip in progress and the id it is saved under; null when not tracking
+  const currentTripRef = useRef<{ id: string; source: TripSource } | null>(null)
+  const lastTripSaveRef = useRef(0)
+  const abandonTrackingRef = useRef<() => void>(() => {})
+  const tripDistanceRef = useRef(0)
+  const zonesRef = useRef<SpeedZone[]>([])
+  const violationTrackerRef = useRef(
+    createViolationTracker((violation: ZoneViolation) => {
+      saveViolation(violation)
+        .then(() => setViolationCount((prev) => prev + 1))
+        .catch((err) => console.error("Zone violation save error:", err))
+    }),
+  )
 
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
-  const animationFrameRef = useRef<number | null>(null)
+  const frameLoopRef = useRef<FrameLoop | null>(null)
+  const drawOverlayRef = useRef<() => void>(() => {})
+  const recordingStartRef = useRef<number | null>(null)
+  const telemetryRef = useRef<TelemetryEntry[]>([])
+  const thumbnailRef = useRef<Promise<Blob | null>>(Promise.resolve(null))
+  const loopRecorderRef = useRef<LoopRecorder | null>(null)
+  const loopSettingsRef = useRef<LoopRecordingSettings>(DEFAULT_LOOP_RECORDING_SETTINGS)
+  const decelerationTriggerRef = useRef(createDecelerationTrigger())
+  const performanceTimerRef = useRef<PerformanceTimer | null>(null)
+  const fixMonitorRef = useRef(createFixMonitor())
+  const gpsDiagnosticsRef = useRef<GpsDiagnosticsSettings>(DEFAULT_GPS_DIAGNOSTICS_SETTINGS)
+  const deadReckonerRef = useRef(createDeadReckoner())
+  const sensorTraceRef = useRef<SensorTraceEvent[] | null>(null)
+  const liveSharePublisherRef = useRef<LiveSharePublisher | null>(null)
+
+  useWakeLock(isTracking || isRecording)
+  const tripUploads = useTripUploads(settings.fleet)
+
+  const motion = useDeviceMotion(isTracking && deadReckoning.enabled, (sample) => {
+    deadReckonerRef.current.addMotion(sample)
+    sensorTraceRef.current?.push({ type: "motion", ...sample })
+  })
+
+  // Between fixes the dial follows the accelerometer; each new fix takes over again
+  useEffect(() => {
+    if (!isTracking || !deadReckoning.enabled) return
+    const timer = setInterval(() => {
+      const estimate = deadReckonerRef.current.estimate(Date.now())
+      if (estimate && estimate.sinceFix >= ESTIMATE_AFTER_MS) {
+        setSpeed(estimate.speed * MPS_TO_MPH)
+        setIsSpeedEstimated(true)
+      } else {
+        setIsSpeedEstimated(false)
+      }
+    }, 200)
+    return () => {
+      clearInterval(timer)
+      setIsSpeedEstimated(false)
+    }
+  }, [isTracking, deadReckoning.enabled])
 
   const calculateSpeed = (pos1: Position, pos2: Position): number => {
-    const R = 6371e3 // Earth's radius in meters
-    const φ1 = (pos1.latitude * Math.PI) / 180
-    const φ2 = (pos2.latitude * Math.PI) / 180
-    const Δφ = ((pos2.latitude - pos1.latitude) * Math.PI) / 180
-    const Δλ = ((pos2.longitude - pos1.longitude) * Math.PI) / 180
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-    const distance = R * c // Distance in meters
+    const distance = haversineDistance(pos1, pos2) // Distance in meters
     const timeDiff = (pos2.timestamp - pos1.timestamp) / 1000 // Time in seconds
 
-    if (timeDiff === 0) return 0
+    if (timeDiff <= 0) return 0
 
     const speedMps = distance / timeDiff // Speed in m/s
-    return speedMps * 2.237 // Convert to mph
+    return speedMps * MPS_TO_MPH // Convert to mph
   }
 
-  const smoothSpeed = (newSpeed: number): number => {
-    speedHistoryRef.current.push(newSpeed)
-    if (speedHistoryRef.current.length > 5) {
-      speedHistoryRef.current.shift()
-    }
-
-    // Calculate weighted average (more recent speeds have higher weight)
-    let weightedSum = 0
-    let totalWeight = 0
-
-    speedHistoryRef.current.forEach((speed, index) => {
-      const weight = index + 1
-      weightedSum += speed * weight
-      totalWeight += weight
-    })
-
-    return weightedSum / totalWeight
+  const smoothSpeed = (measurement: SpeedMeasurement): number => {
+    return speedEstimatorRef.current.update(measurement) * MPS_TO_MPH // Convert m/s to mph
   }
 
   const startCamera = async () => {
     try {
       setCameraError(null)
+      const resolution = getResolution(settings.camera.resolutionId)
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
-          facingMode: "environment", // Use back camera
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
+          facingMode: settings.camera.facingMode,
+          width: { ideal: resolution.width },
+          height: { ideal: resolution.height },
+          frameRate: { ideal: recordingSettings.frameRate },
         },
         audio: true,
       })
@@ -120,19 +384,109 @@ export default function GPSSpeedometer() {
     }
   }
 
-  const startRecording = () => {
-    if (!streamRef.current || !canvasRef.current) return
+  const createRecordingStream = () => {
+    if (!streamRef.current || !canvasRef.current) return null
 
     const canvas = canvasRef.current
-    const canvasStream = canvas.captureStream(30) // 30 FPS
+    const canvasStream = canvas.captureStream(recordingSettings.frameRate)
 
     // Combine video and canvas streams
-    const combinedStream = new MediaStream([...canvasStream.getVideoTracks(), ...streamRef.current.getAudioTracks()])
+    return new MediaStream([...canvasStream.getVideoTracks(), ...streamRef.current.getAudioTracks()])
+  }
 
-    const mediaRecorder = new MediaRecorder(combinedStream, {
-      mimeType: "video/webm;codecs=vp9",
+  // Picks the configured format, falling back to whatever this browser can record
+  const negotiateFormat = (): RecordingFormat | null => {
+    const format = resolveRecordingFormat(recordingSettings)
+    if (!format) {
+      setCameraError("This browser cannot record video in any supported format")
+      return null
+    }
+    if (recordingSettings.formatId !== "auto" && format.id !== recordingSettings.formatId) {
+      console.warn(`Recording format ${recordingSettings.formatId} unsupported, using ${format.id}`)
+    }
+    return format
+  }
+
+  const startLoopRecording = () => {
+    const format = negotiateFormat()
+    const combinedStream = createRecordingStream()
+    if (!format || !combinedStream) return
+
+    const loopRecorder = createLoopRecorder({
+      stream: combinedStream,
+      mimeType: format.mimeType,
+      videoBitsPerSecond: recordingSettings.bitrate,
+      minutes: loopSettings.minutes,
+      onChange: () => setLoopRevision((prev) => prev + 1),
+      onError: (err, kind) => {
+        console.error("Loop recording error:", err)
+        if (kind === "storage") {
+          setCameraError("Loop recording failed to store a segment")
+          return
+        }
+        if (kind === "recorder") {
+          setCameraError("Loop recording error: the current segment may be incomplete")
+          return
+        }
+        setCameraError("Loop recording stopped: the camera stream is no longer available")
+        if (loopRecorderRef.current === loopRecorder) {
+          loopRecorderRef.current = null
+          setIsRecording(false)
+        }
+      },
     })
 
+    try {
+      loopRecorder.start()
+    } catch (err) {
+      setCameraError(`Unable to start ${format.label} recording`)
+      console.error("Loop recording error:", err)
+      return
+    }
+    loopRecorderRef.current = loopRecorder
+    decelerationTriggerRef.current = createDecelerationTrigger()
+    setCameraError(null)
+    setIsRecording(true)
+  }
+
+  const saveEvent = (trigger: EventTrigger) => {
+    const loopRecorder = loopRecorderRef.current
+    if (!loopRecorder) return
+
+    loopRecorder
+      .triggerEvent(trigger)
+      .then(() => {
+        setEventMessage(trigger === "deceleration" ? "Hard braking — event saved" : "Event saved")
+        setTimeout(() => setEventMessage(null), 4000)
+      })
+      .catch((err) => {
+        setCameraError("Unable to save event clip")
+        console.error("Event clip error:", err)
+      })
+  }
+
+  const startRecording = () => {
+    if (loopSettings.enabled) {
+      startLoopRecording()
+      return
+    }
+
+    const format = negotiateFormat()
+    const combinedStream = createRecordingStream()
+    if (!format || !combinedStream) return
+
+    let mediaRecorder: MediaRecorder
+    try {
+      mediaRecorder = new MediaRecorder(combinedStream, {
+        mimeType: format.mimeType,
+        videoBitsPerSecond: recordingSettings.bitrate,
+      })
+    } catch (err) {
+      setCameraError(`Unable to start ${format.label} recording`)
+      console.error("Recording error:", err)
+      return
+    }
+
     const chunks: Blob[] = []
     mediaRecorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
@@ -140,17 +494,91 @@ export default function GPSSpeedometer() {
       }
     }
 
-    mediaRecorder.onstop = () => {
+    mediaRecorder.onerror = (event) => {
+      if (canvasRef.current) thumbnailRef.current = captureThumbnail(canvasRef.current)
+      setCameraError("Recording stopped unexpectedly; the footage so far can still be downloaded")
+      console.error("Recording error:", event)
+      setIsRecording(false)
+    }
+
+    mediaRecorder.onstop = async () => {
       setRecordedChunks(chunks)
+
+      const startedAt = recordingStartRef.current ?? Date.now()
+      const entries = telemetryRef.current
+      recordingStartRef.current = null
+
+      // Hash the final blob and telemetry so the footage can be verified later
+      const baseName = `speedometer-recording-${fileTimestamp(new Date(startedAt))}`
+      const videoFilename = `${baseName}.${format.extension}`
+      const video = new Blob(chunks, { type: format.container })
+      const telemetry = { version: 1 as const, recordingStartedAt: startedAt, speedUnit: "mph" as const, entries }
+      const endedAt = Date.now()
+      let evidence: RecordingEvidence | null = null
+      try {
+        evidence = await createRecordingEvidence(video, videoFilename, baseName, telemetry, endedAt)
+        setRecordingEvidence(evidence)
+      } catch (err) {
+        setCameraError("Unable to create recording manifest")
+        console.error("Recording evidence error:", err)
+      }
+
+      // Keep the clip in the library so it survives the Download button and page reloads
+      try {
+        if (!(await hasStorageFor(video.size))) {
+          setCameraError("Not enough storage to keep this recording in the library; download it instead")
+          return
+        }
+        await requestPersistentStorage()
+        const recording = createRecording({
+          video,
+          extension: format.extension,
+          startedAt,
+          endedAt,
+          thumbnail: await thumbnailRef.current,
+          telemetry,
+          manifest: evidence?.manifest ?? null,
+        })
+        await saveRecording(recording)
+        setEventMessage("Saved to Recordings")
+        setTimeout(() => setEventMessage(null), 4000)
+      } catch (err) {
+        setCameraError(
+          isQuotaError(err)
+            ? "Storage is full; delete old recordings or download this one instead"
+            : "Unable to save recording to the library",
+        )
+        console.error("Recording library error:", err)
+      }
     }
 
+    try {
+      mediaRecorder.start()
+    } catch (err) {
+      setCameraError(`Unable to start ${format.label} recording`)
+      console.error("Recording error:", err)
+      return
+    }
     mediaRecorderRef.current = mediaRecorder
-    mediaRecorder.start()
+    telemetryRef.current = []
+    setRecordingEvidence(null)
+    setRecordingFormat(format)
+    setCameraError(null)
+    recordingStartRef.current = Date.now()
     setIsRecording(true)
   }
 
   const stopRecording = () => {
+    if (loopRecorderRef.current) {
+      loopRecorderRef.current.stop()
+      loopRecorderRef.current = null
+      setIsRecording(false)
+      return
+    }
+
     if (mediaRecorderRef.current && isRecording) {
+      // Grab the last frame now; the canvas unmounts when stopping via Exit Camera
+      thumbnailRef.current = canvasRef.current ? captureThumbnail(canvasRef.current) : Promise.resolve(null)
       mediaRecorderRef.current.stop()
       setIsRecording(false)
     }
@@ -159,16 +587,20 @@ export default function GPSSpeedometer() {
   const downloadVideo = () => {
     if (recordedChunks.length === 0) return
 
-    const blob = new Blob(recordedChunks, { type: "video/webm" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = `speedometer-recording-${new Date().toISOString().slice(0, 19)}.webm`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    const blob = new Blob(recordedChunks, { type: recordingFormat?.container ?? "video/webm" })
+    if (recordingEvidence) {
+      const { baseName, telemetryJson, manifest } = recordingEvidence
+      downloadBlob(blob, manifest.video.filename)
+      downloadBlob(new Blob([telemetryJson], { type: "application/json" }), manifest.telemetry.filename)
+      downloadBlob(
+        new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" }),
+        `${baseName}.manifest.json`,
+      )
+    } else {
+      downloadBlob(blob, `speedometer-recording-${fileTimestamp()}.${recordingFormat?.extension ?? "webm"}`)
+    }
     setRecordedChunks([])
+    setRecordingEvidence(null)
   }
 
   const drawSpeedometerOverlay = () => {
@@ -187,70 +619,36 @@ export default function GPSSpeedometer() {
     // Draw video frame
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
 
-    // Draw speedometer overlay in top-right corner
-    const overlaySize = Math.min(canvas.width, canvas.height) * 0.25
-    const overlayX = canvas.width - overlaySize - 20
-    const overlayY = 20
-
-    // Semi-transparent background
-    ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
-    ctx.fillRect(overlayX - 10, overlayY - 10, overlaySize + 20, overlaySize + 20)
-
-    // Draw speedometer circle
-    const centerX = overlayX + overlaySize / 2
-    const centerY = overlayY + overlaySize / 2
-    const radius = overlaySize / 2 - 20
-
-    // Outer circle
-    ctx.strokeStyle = "#8b5cf6"
-    ctx.lineWidth = 3
-    ctx.beginPath()
-    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI)
-    ctx.stroke()
-
-    // Speed arc
-    const speedPercentage = Math.min(speed / 200, 1)
-    const startAngle = -Math.PI / 2
-    const endAngle = startAngle + speedPercentage * 2 * Math.PI
-
-    ctx.strokeStyle = speed > 80 ? "#ef4444" : speed > 60 ? "#f59e0b" : "#10b981"
-    ctx.lineWidth = 8
-    ctx.beginPath()
-    ctx.arc(centerX, centerY, radius - 10, startAngle, endAngle)
-    ctx.stroke()
-
-    // Speed text
-    ctx.fillStyle = "white"
-    ctx.font = `bold ${overlaySize * 0.15}px Arial`
-    ctx.textAlign = "center"
-    ctx.fillText(speed.toFixed(1), centerX, centerY - 10)
-
-    ctx.font = `${overlaySize * 0.08}px Arial`
-    ctx.fillText(unit, centerX, centerY + 20)
-
-    // GPS status
-    ctx.font = `${overlaySize * 0.06}px Arial`
-    ctx.fillStyle = isConnected ? "#10b981" : "#ef4444"
-    ctx.fillText(isConnected ? "GPS Connected" : "GPS Disconnected", centerX, centerY + 40)
+    let bottomInset = 0
+    if (showCaptionStrip) {
+      drawCaptionStrip(ctx, canvas.width, canvas.height, overlayData)
+      bottomInset = captionStripHeight(canvas.height)
+    }
+
+    drawOverlay(ctx, canvas.width, canvas.height, overlayLayout, overlayData, { bottomInset })
   }
 
   const startCanvasAnimation = () => {
-    const animate = () => {
-      drawSpeedometerOverlay()
-      animationFrameRef.current = requestAnimationFrame(animate)
-    }
-    animate()
+    frameLoopRef.current?.stop()
+    // Go through the ref so each frame uses the latest render's speed and alert state
+    frameLoopRef.current = createFrameLoop(() => drawOverlayRef.current(), recordingSettings.frameRate)
+    frameLoopRef.current.start()
   }
 
   const stopCanvasAnimation = () => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current)
-      animationFrameRef.current = null
-    }
+    frameLoopRef.current?.stop()
+    frameLoopRef.current = null
   }
 
   const startTracking = () => {
-    if (!navigator.geolocation) {
+    const source = sourceMode === "replay" ? replaySource : createGeolocationSource()
+
+    if (!source) {
+      setError("Load a GPX, KML, GeoJSON or NMEA file to replay")
+      return
+    }
+
+    if (!source.isSupported()) {
       setError("Geolocation is not supported by this browser")
       return
     }
@@ -258,15 +656,18 @@ export default function GPSSpeedometer() {
     setError(null)
     setIsTracking(true)
     lastPositionRef.current = null
-    speedHistoryRef.current = []
-
-    const options: PositionOptions = {
-      enableHighAccuracy: true,
-      timeout: 10000,
-      maximumAge: 1000,
-    }
-
-    watchIdRef.current = navigator.geolocation.watchPosition(
+    speedEstimatorRef.current = createSpeedEstimator(speedMode, settings.smoothing.window)
+    tripSamplesRef.current = []
+    currentTripRef.current = { id: crypto.randomUUID(), source: sourceMode }
+    lastTripSaveRef.current = Date.now()
+    tripDistanceRef.current = 0
+    fixMonitorRef.current.reset()
+    deadReckonerRef.current.invalidate()
+
+    const options: PositionOptions = { ...settings.gps }
+
+    positionSourceRef.current = source
+    source.watch(
       (position) => {
         setIsConnected(true)
         setAccuracy(position.coords.accuracy)
@@ -274,6 +675,15 @@ export default function GPSSpeedometer() {
         if (position.coords.heading !== null) {
           setHeading(position.coords.heading)
         }
+        setAltitude(position.coords.altitude)
+        fixMonitorRef.current.record({
+          timestamp: position.timestamp,
+          receivedAt: Date.now(),
+          accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude,
+          altitudeAccuracy: position.coords.altitudeAccuracy,
+          heading: position.coords.heading,
+        })
 
         const currentPosition: Position = {
           latitude: position.coords.latitude,
@@ -281,22 +691,110 @@ export default function GPSSpeedometer() {
           timestamp: position.timestamp,
         }
 
+        const previousPosition = lastPositionRef.current
+        const stepDistance = previousPosition ? haversineDistance(previousPosition, currentPosition) : null
+
         let currentSpeed = 0
+        const hasDopplerSpeed = position.coords.speed !== null && position.coords.speed >= 0
 
         // Use GPS speed if available and accurate
-        if (position.coords.speed !== null && position.coords.speed >= 0) {
-          currentSpeed = position.coords.speed * 2.237 // Convert m/s to mph
+        if (hasDopplerSpeed) {
+          currentSpeed = position.coords.speed! * MPS_TO_MPH // Convert m/s to mph
         } else if (lastPositionRef.current) {
           // Calculate speed from position changes
           currentSpeed = calculateSpeed(lastPositionRef.current, currentPosition)
         }
 
         // Apply smoothing
-        const smoothedSpeed = smoothSpeed(Math.max(0, currentSpeed))
+        const smoothedSpeed = smoothSpeed({
+          speed: Math.max(0, currentSpeed) / MPS_TO_MPH,
+          source: hasDopplerSpeed ? "doppler" : "derived",
+          accuracy: position.coords.accuracy,
+          timestamp: position.timestamp,
+          displacement: stepDistance,
+        })
+
+        // On a poor fix the "speed" is mostly position jitter; hold the display (and max) at zero
+        const isLocked = gpsDiagnosticsRef.current.lockSpeedOnPoorFix && rateFix(position.coords.accuracy, 0) === "poor"
+        setIsSpeedLocked(isLocked)
+
+        // Resync dead reckoning to the raw measurement; a poor fix is no reference to integrate from
+        const fix = { timestamp: Date.now(), speed: Math.max(0, currentSpeed) / MPS_TO_MPH }
+        if (isLocked) deadReckonerRef.current.invalidate()
+        else deadReckonerRef.current.addFix(fix)
+        sensorTraceRef.current?.push({ type: "fix", ...fix })
+        setIsSpeedEstimated(false)
+        setSpeed(isLocked ? 0 : smoothedSpeed)
+        if (!isLocked) setMaxSpeed((prev) => Math.max(prev, smoothedSpeed))
+
+        const zone = findActiveZone(zonesRef.current, currentPosition)
+        setActiveZone(zone)
+        // A poor fix says nothing about whether the limit is still exceeded; the violation waits for a good one
+        if (!isLocked) violationTrackerRef.current.update(zone, smoothedSpeed, currentPosition)
+
+        if (performanceTimerRef.current) {
+          setTimerState(performanceTimerRef.current.update({ ...currentPosition, speed: Math.max(0, currentSpeed) }))
+        }
 
-        setSpeed(smoothedSpeed)
-        setMaxSpeed((prev) => Math.max(prev, smoothedSpeed))
+        liveSharePublisherRef.current?.push({
+          timestamp: position.timestamp,
+          latitude: currentPosition.latitude,
+          longitude: currentPosition.longitude,
+          speed: isLocked ? 0 : smoothedSpeed / MPS_TO_MPH,
+          heading: Number.isFinite(position.coords.heading) ? position.coords.heading : null,
+          accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude,
+        })
+
+        tripSamplesRef.current.push({
+          ...currentPosition,
+          speed: smoothedSpeed,
+          rawSpeed: Math.max(0, currentSpeed),
+          // Only a seek clears the last position once the trip has samples
+          ...(!previousPosition && tripSamplesRef.current.length > 0 && { resumed: true }),
+          accuracy: position.coords.accuracy,
+          heading: position.coords.heading,
+          altitude: position.coords.altitude,
+        })
+        if (Date.now() - lastTripSaveRef.current >= TRIP_CHECKPOINT_MS) {
+          saveCurrentTrip()?.catch((err) => console.error("Trip save error:", err))
+        }
+
+        if (
+          loopRecorderRef.current &&
+          loopSettingsRef.current.autoEvent &&
+          decelerationTriggerRef.current(smoothedSpeed / MPS_TO_MPH, position.timestamp)
+        ) {
+          saveEvent("deceleration")
+        }
 
+        const telemetryEntry = {
+          timestamp: position.timestamp,
+          latitude: currentPosition.latitude,
+          longitude: currentPosition.longitude,
+          speed: smoothedSpeed,
+          heading: position.coords.heading,
+          accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude,
+        }
+        if (recordingStartRef.current !== null) {
+          telemetryRef.current.push({ offset: Date.now() - recordingStartRef.current, ...telemetryEntry })
+        }
+        loopRecorderRef.current?.addTelemetry(telemetryEntry)
+
+        if (previousPosition && stepDistance !== null) {
+          tripDistanceRef.current += stepDistance
+          // A replayed drive already happened; counting it again would inflate the odometers
+          if (sourceMode === "live") {
+            setTripComputer((prev) =>
+              accumulateStep(prev, {
+                distance: stepDistance,
+                duration: currentPosition.timestamp - previousPosition.timestamp,
+                speed: smoothedSpeed,
+              }),
+            )
+          }
+        }
         lastPositionRef.current = currentPosition
       },
       (error) => {
@@ -320,14 +818,149 @@ export default function GPSSpeedometer() {
     )
   }
 
+  const armTimer = (mode: TimingMode) => {
+    const timer = createPerformanceTimer({
+      mode,
+      unit,
+      onFinish: (run) => {
+        savePerformanceRun(run)
+          .then(() => setTimerRevision((prev) => prev + 1))
+          .catch((err) => console.error("Performance run save error:", err))
+      },
+    })
+    performanceTimerRef.current = timer
+    setTimerState(timer.getState())
+  }
+
+  const cancelTimer = () => {
+    performanceTimerRef.current = null
+    setTimerState(null)
+  }
+
+  const toggleSensorTrace = () => {
+    const events = sensorTraceRef.current
+    if (!events) {
+      sensorTraceRef.current = []
+      setIsRecordingTrace(true)
+      return
+    }
+
+    sensorTraceRef.current = null
+    setIsRecordingTrace(false)
+    const trace: SensorTrace = { version: 1, recordedAt: events[0]?.timestamp ?? Date.now(), events }
+    downloadBlob(
+      new Blob([JSON.stringify(trace)], { type: "application/json" }),
+      `speedometer-sensors-${fileTimestamp()}.json`,
+    )
+  }
+
+  // A new publisher per share picks up the relay URL as it is now in Settings
+  const startLiveShare = () => {
+    liveSharePublisherRef.current?.stop()
+    const publisher = createLiveSharePublisher({
+      relayUrl: settings.liveShare.relayUrl,
+      origin: window.location.origin,
+      onChange: setLiveShareState,
+    })
+    liveSharePublisherRef.current = publisher
+    publisher.start(liveShareSettings.ttl)
+  }
+
+  const stopLiveShare = () => {
+    liveSharePublisherRef.current?.stop()
+    liveSharePublisherRef.current = null
+  }
+
+  const startHud = () => {
+    setIsHudActive(true)
+    // Full screen hides the browser chrome that would otherwise show in the reflection
+    document.documentElement.requestFullscreen?.().catch((err) => console.error("Fullscreen error:", err))
+  }
+
+  const exitHud = () => {
+    setIsHudActive(false)
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {})
+  }
+
+  // Saves the trip in progress once it has enough fixes to describe a route. Checkpoints and the
+  // final save share the trip's id, so they all end up as one trip.
+  const saveCurrentTrip = (): Promise<Trip> | null => {
+    const current = currentTripRef.current
+    const samples = tripSamplesRef.current
+    if (!current || samples.length < 2) return null
+    lastTripSaveRef.current = Date.now()
+    return saveTripCheckpoint(createTrip([...samples], current))
+  }
+
   const stopTracking = () => {
-    if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current)
-      watchIdRef.current = null
+    cancelTimer()
+    if (positionSourceRef.current) {
+      positionSourceRef.current.clear()
+      positionSourceRef.current = null
     }
     setIsTracking(false)
     setIsConnected(false)
     setSpeed(0)
+    setIsSpeedLocked(false)
+    setActiveZone(null)
+    violationTrackerRef.current.close()
+
+    // Samples stay in the ref so the finished session can still be exported
+    saveCurrentTrip()
+      ?.then((trip) => {
+        if (!isReplayTrip(trip)) tripUploads.enqueue(trip.id)
+      })
+      .catch((err) => {
+        setError("Unable to save trip")
+        console.error("Trip save error:", err)
+      })
+    currentTripRef.current = null
+  }
+
+  // Runs when the page goes away mid-drive, whether to another page of the app or by closing the
+  // tab. The trip is queued for upload straight away: the page may be gone before the save
+  // finishes, and then the last checkpoint is what gets uploaded when the app next opens.
+  const abandonTracking = () => {
+    positionSourceRef.current?.clear()
+    positionSourceRef.current = null
+    const current = currentTripRef.current
+    const saved = saveCurrentTrip()
+    if (saved && current?.source === "live" && settings.fleet.uploadTrips) queueTripUpload(current.id)
+    saved?.catch((err) => console.error("Trip save error:", err))
+    currentTripRef.current = null
+  }
+
+  const cycleSpeedMode = () => {
+    const modes = Object.keys(SPEED_MODE_LABELS) as SpeedMode[]
+    const next = modes[(modes.indexOf(speedMode) + 1) % modes.length]
+    setSettings((prev) => ({ ...prev, smoothing: { ...prev.smoothing, mode: next } }))
+    speedEstimatorRef.current = createSpeedEstimator(next, settings.smoothing.window)
+  }
+
+  const toggleSourceMode = () => {
+    setSourceMode((prev) => (prev === "live" ? "replay" : "live"))
+  }
+
+  // A seek is a jump, not a drive: the track starts afresh from wherever it lands, with no speed
+  // derived from the jump and no distance counted across it
+  const seekReplay = (index: number) => {
+    if (isTracking) {
+      lastPositionRef.current = null
+      speedEstimatorRef.current.reset()
+      deadReckonerRef.current.invalidate()
+    }
+    replaySource?.seek(index)
+  }
+
+  const loadReplay = (source: ReplaySource, fileName: string) => {
+    setReplaySource(source)
+    setReplayFileName(fileName)
+    setError(null)
+  }
+
+  const unloadReplay = () => {
+    setReplaySource(null)
+    setReplayFileName(null)
   }
 
   const resetMaxSpeed = () => {
@@ -335,22 +968,110 @@ export default function GPSSpeedometer() {
   }
 
   const toggleUnit = () => {
-    setUnit((prev) => (prev === "mph" ? "kmh" : "mph"))
+    setSettings((prev) => ({ ...prev, unit: nextSpeedUnit(prev.unit) }))
   }
 
-  const displaySpeed = unit === "mph" ? speed : speed * 1.609344
-  const displayMaxSpeed = unit === "mph" ? maxSpeed : maxSpeed * 1.609344
-  const maxDisplaySpeed = 200
+  const displaySpeed = toDisplaySpeed(speed, unit)
+  const displayMaxSpeed = toDisplaySpeed(maxSpeed, unit)
+  const maxDisplaySpeed = settings.dialMax
+  const overlayLayout = getActiveLayout(overlayLayouts)
   const speedPercentage = Math.min((displaySpeed / maxDisplaySpeed) * 100, 100)
+  const fixQuality = rateFix(accuracy, 0)
+
+  const zoneLimit = activeZone ? Math.round(convertSpeed(activeZone.limit, activeZone.unit, unit)) : null
+  // Memoized so the alert effect below only reruns when the thresholds actually change
+  const alertThresholds = useMemo(
+    () =>
+      alertSettings.enabled
+        ? Array.from(new Set([...thresholdsFor(alertSettings, unit), ...(zoneLimit !== null ? [zoneLimit] : [])])).sort(
+            (a, b) => a - b,
+          )
+        : [],
+    [alertSettings, unit, zoneLimit],
+  )
+  const isOverZoneLimit = zoneLimit !== null && displaySpeed > zoneLimit
+  const activeThreshold = alertLevel > 0 ? alertThresholds[alertLevel - 1] : null
+  const isApproachingLimit =
+    alertLevel === 0 && alertThresholds.length > 0 && displaySpeed >= alertThresholds[0] * APPROACH_RATIO
+
+  // Shared by the camera canvas and the picture-in-picture speedometer
+  const overlayData: OverlayData = {
+    speed: displaySpeed,
+    maxSpeed: displayMaxSpeed,
+    maxDisplaySpeed,
+    unit,
+    isConnected,
+    isAlertActive: alertLevel > 0,
+    isApproachingLimit,
+    zone:
+      activeZone && zoneLimit !== null ? { name: activeZone.name, limit: zoneLimit, isOver: isOverZoneLimit } : null,
+    timestamp: lastPositionRef.current?.timestamp ?? null,
+    latitude: lastPositionRef.current?.latitude ?? null,
+    longitude: lastPositionRef.current?.longitude ?? null,
+    heading,
+    altitude,
+    accuracy,
+    tripDistance: tripDistanceRef.current,
+  }
+
+  zonesRef.current = zones
+  loopSettingsRef.current = loopSettings
+  gpsDiagnosticsRef.current = gpsDiagnostics
+  drawOverlayRef.current = drawSpeedometerOverlay
+  abandonTrackingRef.current = abandonTracking
 
   useEffect(() => {
+    const level = isTracking
+      ? evaluateAlertLevel(displaySpeed, alertThresholds, hysteresisFor(alertSettings, unit), alertLevel)
+      : 0
+    if (level === alertLevel) return
+
+    if (level > alertLevel) {
+      if (alertSettings.sound) playAlertChime()
+      if (alertSettings.vibration) vibrateAlert()
+    }
+    setAlertLevel(level)
+  }, [displaySpeed, isTracking, unit, alertSettings, alertLevel, alertThresholds])
+
+  useEffect(() => {
+    const handlePageHide = () => abandonTrackingRef.current()
+    window.addEventListener("pagehide", handlePageHide)
     return () => {
+      window.removeEventListener("pagehide", handlePageHide)
+      abandonTrackingRef.current()
       stopCanvasAnimation()
+      liveSharePublisherRef.current?.stop()
     }
   }, [])
 
+  // Every view is returned through this, so the mini speedometer sits at the same place in the tree
+  // and its window stays open while switching between the normal, camera and HUD views
+  const withPictureInPicture = (view: ReactNode) => (
+    <>
+      {view}
+      <PictureInPictureSpeedometer data={overlayData} themeId={overlayLayout.themeId} buttonContainer={pipButtonSlot} />
+    </>
+  )
+
+  if (isHudActive) {
+    return withPictureInPicture(
+      <HudView
+        settings={hudSettings}
+        speed={displaySpeed}
+        unit={unit}
+        heading={heading}
+        position={lastPositionRef.current}
+        isConnected={isConnected}
+        isAlertActive={activeThreshold !== null}
+        isApproachingLimit={isApproachingLimit}
+        limit={zoneLimit ?? activeThreshold}
+        onExit={exitHud}
+      />,
+    )
+  }
+
   if (isCameraActive) {
-    return (
+    return withPictureInPicture(
       <div className="fixed inset-0 bg-black">
         <video ref={videoRef} autoPlay playsInline muted className="hidden" />
         <canvas ref={canvasRef} className="w-full h-full object-cover" />
@@ -376,6 +1097,16 @@ export default function GPSSpeedometer() {
             </Button>
           )}
 
+          {isRecording && loopRecorderRef.current && (
+            <Button
+              onClick={() => saveEvent("manual")}
+              className="bg-amber-500 hover:bg-amber-600 text-black px-6 py-3 rounded-full"
+            >
+              <Flag className="w-5 h-5 mr-2" />
+              Save Event
+            </Button>
+          )}
+
           {recordedChunks.length > 0 && (
             <Button
               onClick={downloadVideo}
@@ -386,6 +1117,22 @@ export default function GPSSpeedometer() {
             </Button>
           )}
 
+          {recordedChunks.length > 0 && recordingEvidence && (
+            <TelemetryExportButtons
+              evidence={recordingEvidence}
+              unit={unit}
+              buttonClassName="px-4 py-3 rounded-full bg-black/50 border-white/30 text-white"
+            />
+          )}
+
+          {tripSamplesRef.current.length > 1 && (
+            <TrackExportButtons
+              samples={tripSamplesRef.current}
+              name={`Speedometer track ${new Date(tripSamplesRef.current[0].timestamp).toLocaleString()}`}
+              buttonClassName="px-4 py-3 rounded-full bg-black/50 border-white/30 text-white"
+            />
+          )}
+
           <Button
             onClick={stopCamera}
             variant="outline"
@@ -402,18 +1149,42 @@ export default function GPSSpeedometer() {
             {isConnected ? "GPS Connected" : "GPS Disconnected"}
           </Badge>
 
+          {activeThreshold !== null && (
+            <Badge className="bg-red-600 text-white animate-pulse flex items-center gap-2">
+              <BellRing className="w-4 h-4" />
+              Over {activeThreshold} {SPEED_UNITS[unit].label}
+            </Badge>
+          )}
+
           {isRecording && (
             <Badge className="bg-red-600 text-white animate-pulse">
               <div className="w-2 h-2 bg-white rounded-full mr-2"></div>
-              Recording
+              {loopRecorderRef.current ? `Loop · last ${loopSettings.minutes} min` : "Recording"}
+            </Badge>
+          )}
+
+          {eventMessage && (
+            <Badge className="bg-amber-500 text-black flex items-center gap-2">
+              <Flag className="w-4 h-4" />
+              {eventMessage}
             </Badge>
           )}
         </div>
-      </div>
+
+        {cameraError && (
+          <div className="absolute top-6 right-6 max-w-sm flex items-start gap-2 rounded-md bg-red-900/80 border border-red-500/50 p-3 text-sm text-red-100">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span className="flex-1">{cameraError}</span>
+            <button onClick={() => setCameraError(null)} aria-label="Dismiss error">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>,
     )
   }
 
-  return (
+  return withPictureInPicture(
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
       <div className="w-full max-w-md space-y-6">
         {/* Status Bar */}
@@ -423,15 +1194,37 @@ export default function GPSSpeedometer() {
             {isConnected ? "GPS Connected" : "GPS Disconnected"}
           </Badge>
 
+          {activeThreshold !== null && (
+            <Badge className="bg-red-600 text-white animate-pulse flex items-center gap-2">
+              <BellRing className="w-4 h-4" />
+              Over {activeThreshold} {SPEED_UNITS[unit].label}
+            </Badge>
+          )}
+
           {accuracy && (
-            <Badge variant="outline" className="text-xs">
-              ±{Math.round(accuracy)}m
+            <Badge
+              variant="outline"
+              className="text-xs"
+              style={{ color: FIX_QUALITY_COLORS[fixQuality], borderColor: FIX_QUALITY_COLORS[fixQuality] }}
+            >
+              {FIX_QUALITY_LABELS[fixQuality]} ±{Math.round(accuracy)}m
+            </Badge>
+          )}
+
+          {isSpeedLocked && (
+            <Badge variant="outline" className="text-xs text-red-400 border-red-400">
+              Poor fix · speed held at 0
             </Badge>
           )}
         </div>
 
         {/* Main Speedometer */}
-        <Card className="relative p-8 bg-gradient-to-br from-slate-800/50 to-purple-800/30 border-purple-500/30 backdrop-blur-sm">
+        <Card
+          className={cn(
+            "relative p-8 bg-gradient-to-br from-slate-800/50 to-purple-800/30 border-purple-500/30 backdrop-blur-sm",
+            alertLevel > 0 && "border-red-500 ring-4 ring-red-500/60 animate-pulse",
+          )}
+        >
           <div className="relative w-80 h-80 mx-auto">
             {/* Outer Ring */}
             <div className="absolute inset-0 rounded-full border-4 border-purple-500/30">
@@ -439,7 +1232,7 @@ export default function GPSSpeedometer() {
               {Array.from({ length: 21 }, (_, i) => {
                 const angle = i * 18 - 90 // 0-360 degrees, starting from top
                 const isMainMark = i % 5 === 0
-                const speed = i * 10
+                const speed = Math.round((i / 20) * maxDisplaySpeed)
 
                 return (
                   <div
@@ -497,8 +1290,31 @@ export default function GPSSpeedometer() {
 
             {/* Center Display */}
             <div className="absolute inset-0 flex flex-col items-center justify-center">
-              <div className="text-6xl font-bold text-white mb-2 font-mono">{displaySpeed.toFixed(1)}</div>
-              <div className="text-xl text-purple-300 font-semibold mb-4">{unit.toUpperCase()}</div>
+              <div
+                className={cn(
+                  "text-6xl font-bold text-white mb-2 font-mono",
+                  isSpeedEstimated && "text-amber-300 italic",
+                )}
+              >
+                {displaySpeed.toFixed(1)}
+              </div>
+              <div className="text-xl text-purple-300 font-semibold mb-4">
+                {SPEED_UNITS[unit].label}
+                {isSpeedEstimated && <span className="ml-2 text-amber-300">EST</span>}
+              </div>
+
+              {/* Active Speed Zone */}
+              {activeZone && zoneLimit !== null && (
+                <div
+                  className={cn(
+                    "flex items-center gap-1 text-sm font-semibold mb-2",
+                    isOverZoneLimit ? "text-red-400" : "text-amber-300",
+                  )}
+                >
+                  <MapPin className="w-4 h-4" />
+                  {activeZone.name} · {zoneLimit} {SPEED_UNITS[unit].label}
+                </div>
+              )}
 
               {/* Heading Indicator */}
               {heading !== null && (
@@ -529,7 +1345,7 @@ export default function GPSSpeedometer() {
           <Card className="p-4 bg-slate-800/50 border-slate-700">
             <div className="text-sm text-slate-400">Max Speed</div>
             <div className="text-2xl font-bold text-white">
-              {displayMaxSpeed.toFixed(1)} {unit.toUpperCase()}
+              {displayMaxSpeed.toFixed(1)} {SPEED_UNITS[unit].label}
             </div>
           </Card>
 
@@ -554,11 +1370,30 @@ export default function GPSSpeedometer() {
             )}
 
             <Button onClick={toggleUnit} variant="outline">
-              {unit.toUpperCase()}
+              {SPEED_UNITS[unit].label}
+            </Button>
+
+            <Button onClick={cycleSpeedMode} variant="outline">
+              {SPEED_MODE_LABELS[speedMode]}
+            </Button>
+
+            <Button onClick={toggleSourceMode} variant="outline" disabled={isTracking}>
+              {sourceMode === "live" ? "Live GPS" : "Replay"}
             </Button>
           </div>
 
-          <div className="flex gap-3">
+          {sourceMode === "replay" && (
+            <ReplayControls
+              source={replaySource}
+              fileName={replayFileName}
+              isTracking={isTracking}
+              onLoad={loadReplay}
+              onUnload={unloadReplay}
+              onSeek={seekReplay}
+            />
+          )}
+
+          <div className="flex flex-wrap gap-3">
             {!isCameraActive ? (
               <Button onClick={startCamera} className="flex-1 bg-blue-600 hover:bg-blue-700" disabled={!isTracking}>
                 <Camera className="w-4 h-4 mr-2" />
@@ -570,11 +1405,274 @@ export default function GPSSpeedometer() {
                 Stop Camera
               </Button>
             )}
+
+            <Button
+              onClick={() => setShowAlertSettings((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Speed alert settings"
+            >
+              <Bell className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowZones((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Speed zones"
+            >
+              <MapPin className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowOverlayEditor((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Overlay layout"
+            >
+              <Layers className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowLoopPanel((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Loop recording"
+            >
+              <Repeat className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowRecordingSettings((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Recording settings"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowAnalytics((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Trip analytics"
+            >
+              <BarChart3 className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowTimer((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Performance timing"
+            >
+              <Timer className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowTripComputer((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Trip computer"
+            >
+              <Gauge className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowHudSettings((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Heads-up display"
+            >
+              <MonitorSmartphone className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowGpsDiagnostics((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="GPS diagnostics"
+            >
+              <Compass className="w-4 h-4" />
+            </Button>
+
+            <Button onClick={() => setShowMap((prev) => !prev)} variant="outline" size="icon" aria-label="Live map">
+              <MapIcon className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowLiveShare((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Live sharing"
+              className={cn(liveShareState.id && "border-green-500 text-green-400")}
+            >
+              <Share2 className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setShowDrivingScore((prev) => !prev)}
+              variant="outline"
+              size="icon"
+              aria-label="Driving score"
+            >
+              <ShieldCheck className="w-4 h-4" />
+            </Button>
+
+            <div ref={setPipButtonSlot} className="contents" />
           </div>
 
+          {showAlertSettings && (
+            <SpeedAlertSettingsCard settings={alertSettings} unit={unit} onChange={setAlertSettings} />
+          )}
+
+          {showZones && <SpeedZonesPanel zones={zones} onZonesChange={setZones} violationCount={violationCount} />}
+
+          {showOverlayEditor && (
+            <OverlayLayoutEditor
+              state={overlayLayouts}
+              unit={unit}
+              maxDisplaySpeed={maxDisplaySpeed}
+              onChange={setOverlayLayouts}
+              captionStrip={showCaptionStrip}
+              onCaptionStripChange={setShowCaptionStrip}
+            />
+          )}
+
+          {showLoopPanel && (
+            <LoopRecordingPanel
+              settings={loopSettings}
+              onChange={setLoopSettings}
+              revision={loopRevision}
+              unit={unit}
+            />
+          )}
+
+          {showRecordingSettings && (
+            <RecordingSettingsCard settings={recordingSettings} onChange={setRecordingSettings} />
+          )}
+
+          {showHudSettings && (
+            <HudSettingsCard
+              settings={hudSettings}
+              onChange={setHudSettings}
+              onStart={startHud}
+              disabled={!isTracking}
+            />
+          )}
+
+          {showMap && (
+            <LiveMap
+              samples={tripSamplesRef.current}
+              position={lastPositionRef.current}
+              heading={heading}
+              unit={unit}
+              dialMax={maxDisplaySpeed}
+              settings={settings.map}
+              onSettingsChange={(map) => setSettings((prev) => ({ ...prev, map }))}
+            />
+          )}
+
+          {showLiveShare && (
+            <LiveSharePanel
+              settings={liveShareSettings}
+              onChange={setLiveShareSettings}
+              state={liveShareState}
+              onStart={startLiveShare}
+              onStop={stopLiveShare}
+              isTracking={isTracking}
+            />
+          )}
+
+          {showDrivingScore && (
+            <DrivingBehaviorPanel
+              samples={tripSamplesRef.current}
+              thresholds={behaviorThresholds}
+              onChange={setBehaviorThresholds}
+              unit={unit}
+            />
+          )}
+
+          {showGpsDiagnostics && (
+            <GpsDiagnosticsPanel
+              stats={fixMonitorRef.current.getStats()}
+              unit={unit}
+              settings={gpsDiagnostics}
+              onChange={setGpsDiagnostics}
+            />
+          )}
+
+          {showGpsDiagnostics && (
+            <DeadReckoningCard
+              settings={deadReckoning}
+              onChange={setDeadReckoning}
+              status={deadReckonerRef.current.getStatus()}
+              permission={motion.permission}
+              onRequestPermission={motion.requestPermission}
+              isRecordingTrace={isRecordingTrace}
+              onToggleTrace={toggleSensorTrace}
+              isTracking={isTracking}
+            />
+          )}
+
+          {showTripComputer && (
+            <TripComputerPanel
+              state={tripComputer}
+              onChange={setTripComputer}
+              unit={unit}
+              position={lastPositionRef.current}
+            />
+          )}
+
+          {showTimer && (
+            <PerformanceTimerPanel
+              unit={unit}
+              isTracking={isTracking}
+              state={timerState}
+              onArm={armTimer}
+              onCancel={cancelTimer}
+              revision={timerRevision}
+            />
+          )}
+
+          {showAnalytics && (
+            <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+              <div className="text-sm text-slate-400">Trip Analytics</div>
+              <TripAnalytics samples={tripSamplesRef.current} unit={unit} />
+            </Card>
+          )}
+
           <Button onClick={resetMaxSpeed} variant="outline" className="w-full bg-transparent" disabled={maxSpeed === 0}>
             Reset Max Speed
           </Button>
+
+          <Button asChild variant="outline" className="w-full bg-transparent">
+            <Link href="/trips">
+              <History className="w-4 h-4 mr-2" />
+              Trip History
+            </Link>
+          </Button>
+
+          <Button asChild variant="outline" className="w-full bg-transparent">
+            <Link href="/recordings">
+              <Film className="w-4 h-4 mr-2" />
+              Recordings
+            </Link>
+          </Button>
+
+          <Button asChild variant="outline" className="w-full bg-transparent">
+            <Link href="/fleet">
+              <Users className="w-4 h-4 mr-2" />
+              Fleet
+            </Link>
+          </Button>
+
+          <Button asChild variant="outline" className="w-full bg-transparent">
+            <Link href="/settings">
+              <Settings className="w-4 h-4 mr-2" />
+              Settings
+            </Link>
+          </Button>
         </div>
 
         {/* Error Display */}
@@ -599,11 +1697,39 @@ export default function GPSSpeedometer() {
               <li>Allow camera and location access when prompted</li>
               <li>Speedometer overlay appears in camera view</li>
               <li>Record videos with real-time speed display</li>
+              <li>Each tracking session is saved to Trip History</li>
+              <li>Switch to Replay to drive the speedometer from a GPX, KML, GeoJSON or NMEA log</li>
+              <li>Import speed zones to get zone-specific limits and a violation log</li>
+              <li>Downloads include a telemetry log and a SHA-256 manifest for verification</li>
+              <li>Export VTT/SRT subtitles or a CSV of the recorded telemetry after recording</li>
+              <li>Loop mode keeps only the last few minutes; "Save Event" locks the footage around it</li>
+              <li>HUD mode mirrors a large readout so it can be read in the windshield reflection</li>
+              <li>The trip computer keeps Trip A/B and lifetime odometers and estimates arrival at a destination</li>
+              <li>Performance timing measures 0–60 mph / 0–100 km/h, 1/8 and 1/4 mile and braking distance</li>
+              <li>Trip analytics chart speed, elevation and time in each speed band for the current trip</li>
+              <li>Finished recordings are kept in Recordings for playback, trimming and export</li>
+              <li>Recording settings pick the format, resolution, frame rate and bitrate your browser supports</li>
+              <li>Install the app from the browser menu to use it offline; the screen stays on while tracking</li>
+              <li>GPS diagnostics show a compass, altitude, fix age, update rate and a fix quality rating</li>
+              <li>Sensor fusion estimates speed between fixes and in tunnels; estimated readings are marked EST</li>
+              <li>Settings hold units (including knots and m/s), dial range, smoothing, GPS, camera and theme</li>
+              <li>
+                The live map draws your trail colored by speed; set a local tile server in Settings to use it offline
+              </li>
+              <li>Live sharing sends your speed and position to an expiring link others can watch</li>
+              <li>
+                Turn on trip uploads in Settings to send finished trips to the fleet dashboard, even after being offline
+              </li>
+              <li>The driving score flags harsh braking, rapid acceleration, sharp cornering and sustained speeding</li>
+              <li>
+                Picture-in-picture keeps a mini speedometer on top of a navigation app; recording carries on in the
+                background
+              </li>
               <li>Use responsibly and follow traffic laws</li>
             </ul>
           </div>
         </Card>
       </div>
-    </div>
+    </div>,
   )
 }
@@ -0,0 +1,40 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { SettingsForm } from "@/components/settings-form"
+import { ArrowLeft } from "lucide-react"
+import { useSettings } from "@/hooks/use-settings"
+import { useTripUploads } from "@/hooks/use-trip-uploads"
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useSettings()
+  const tripUploads = useTripUploads(settings.fleet)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex justify-between items-center">
+          <Button asChild variant="outline" className="bg-transparent text-white">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Speedometer
+            </Link>
+          </Button>
+          <h1 className="text-xl font-bold text-white">Settings</h1>
+        </div>
+
+        <SettingsForm
+          settings={settings}
+          onSave={setSettings}
+          uploads={{
+            ...tripUploads,
+            onUploadNow: tripUploads.flush,
+            onRetry: tripUploads.retry,
+            onDismiss: tripUploads.dismiss,
+          }}
+        />
+      </div>
+    </div>
+  )
+}
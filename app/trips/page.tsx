@@ -0,0 +1,37 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { TripHistory } from "@/components/trip-history"
+import { ArrowLeft } from "lucide-react"
+import { useSettings } from "@/hooks/use-settings"
+import { SPEED_UNITS, nextSpeedUnit } from "@/lib/units"
+
+export default function TripsPage() {
+  const [settings, setSettings] = useSettings()
+  const { unit } = settings
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex justify-between items-center">
+          <Button asChild variant="outline" className="bg-transparent text-white">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Speedometer
+            </Link>
+          </Button>
+          <h1 className="text-xl font-bold text-white">Trip History</h1>
+          <Button
+            onClick={() => setSettings((prev) => ({ ...prev, unit: nextSpeedUnit(prev.unit) }))}
+            variant="outline"
+          >
+            {SPEED_UNITS[unit].label}
+          </Button>
+        </div>
+
+        <TripHistory unit={unit} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { CloudOff, RefreshCw } from "lucide-react"
+import { useOnlineStatus } from "@/hooks/use-online-status"
+import { useServiceWorker } from "@/hooks/use-service-worker"
+
+export function AppStatusIndicator() {
+  const isOnline = useOnlineStatus()
+  const { updateAvailable, applyUpdate } = useServiceWorker()
+
+  if (isOnline && !updateAvailable) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2">
+      {!isOnline && (
+        <div className="flex items-center gap-2 rounded-full bg-slate-800/90 border border-slate-600 px-3 py-1.5 text-xs text-slate-200">
+          <CloudOff className="w-4 h-4" />
+          Offline — GPS and recording still work
+        </div>
+      )}
+      {updateAvailable && (
+        <Button size="sm" onClick={applyUpdate} className="rounded-full bg-purple-600 hover:bg-purple-700 text-white">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Update available — reload
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Switch } from "@/components/ui/switch"
+import { Circle, Square } from "lucide-react"
+import type { DeadReckoningSettings, DeadReckoningStatus } from "@/lib/dead-reckoning"
+
+interface DeadReckoningCardProps {
+  settings: DeadReckoningSettings
+  onChange: (settings: DeadReckoningSettings) => void
+  status: DeadReckoningStatus
+  permission: "unknown" | "required" | "granted" | "denied" | "unsupported"
+  onRequestPermission: () => void
+  isRecordingTrace: boolean
+  onToggleTrace: () => void
+  isTracking: boolean
+}
+
+export function DeadReckoningCard({
+  settings,
+  onChange,
+  status,
+  permission,
+  onRequestPermission,
+  isRecordingTrace,
+  onToggleTrace,
+  isTracking,
+}: DeadReckoningCardProps) {
+  const statusText =
+    permission === "unsupported"
+      ? "Motion sensors are not available on this device"
+      : permission === "denied"
+        ? "Motion sensor access was denied"
+        : status.isCalibrated
+          ? "Calibrated to the vehicle's forward axis"
+          : `Calibrating (${Math.round(status.calibration * 100)}%): accelerate and brake normally with GPS`
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Sensor Fusion</div>
+
+      <label className="flex items-center justify-between text-sm text-white">
+        Estimate speed between fixes
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+          disabled={permission === "unsupported"}
+        />
+      </label>
+
+      {settings.enabled && permission === "required" && (
+        <Button size="sm" variant="outline" className="bg-transparent" onClick={onRequestPermission}>
+          Allow motion sensors
+        </Button>
+      )}
+
+      {settings.enabled && <div className="text-xs text-slate-400">{statusText}</div>}
+
+      {settings.enabled && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="bg-transparent"
+          onClick={onToggleTrace}
+          disabled={!isTracking && !isRecordingTrace}
+        >
+          {isRecordingTrace ? (
+            <Square className="w-4 h-4 mr-2 text-red-400" />
+          ) : (
+            <Circle className="w-4 h-4 mr-2 text-red-400" />
+          )}
+          {isRecordingTrace ? "Stop and download sensor trace" : "Record sensor trace"}
+        </Button>
+      )}
+
+      <div className="text-xs text-slate-500">
+        Uses the accelerometer to keep the dial moving at low GPS update rates and through tunnels. Estimated speeds are
+        marked EST and resync when a fix returns. Mount the phone firmly.
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { BehaviorEventList, EventCounts, SafetyScoreBadge } from "@/components/driving-events"
+import { analyzeDriving, DEFAULT_BEHAVIOR_THRESHOLDS, type BehaviorThresholds } from "@/lib/driver-behavior"
+import type { TripSample } from "@/lib/types"
+import { SPEED_UNITS, fromDisplaySpeed, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface DrivingBehaviorPanelProps {
+  // The current trip; the array grows in place, so its length is what marks a change
+  samples: TripSample[]
+  thresholds: BehaviorThresholds
+  onChange: (thresholds: BehaviorThresholds) => void
+  unit: SpeedUnit
+}
+
+// Only the latest few events are listed; Trip History has the full list once the trip is saved
+const RECENT_EVENTS = 5
+
+const G_THRESHOLDS: { key: "harshBraking" | "rapidAcceleration" | "sharpCornering"; label: string }[] = [
+  { key: "harshBraking", label: "Harsh braking" },
+  { key: "rapidAcceleration", label: "Rapid acceleration" },
+  { key: "sharpCornering", label: "Sharp cornering" },
+]
+
+export function DrivingBehaviorPanel({ samples, thresholds, onChange, unit }: DrivingBehaviorPanelProps) {
+  const sampleCount = samples.length
+  // Analyzing a copy of the fixes so far ties the result to the count it was worked out from
+  const driving = useMemo(
+    () => analyzeDriving(samples.slice(0, sampleCount), thresholds),
+    [samples, sampleCount, thresholds],
+  )
+
+  const setSpeedLimit = (value: string) => {
+    const speed = Number(value)
+    if (!Number.isFinite(speed) || speed <= 0) return
+    onChange({ ...thresholds, speedLimit: fromDisplaySpeed(speed, unit) })
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-slate-400">Driving Score</div>
+        {sampleCount > 1 && <SafetyScoreBadge score={driving.score} />}
+      </div>
+
+      {sampleCount > 1 ? (
+        <>
+          <EventCounts counts={driving.counts} />
+          <BehaviorEventList
+            events={driving.events.slice(-RECENT_EVENTS).reverse()}
+            unit={unit}
+            emptyText="No events so far"
+          />
+        </>
+      ) : (
+        <div className="text-xs text-slate-500">Start tracking to score this trip</div>
+      )}
+
+      <div className="text-sm text-slate-400">Thresholds</div>
+      {G_THRESHOLDS.map(({ key, label }) => (
+        <div key={key} className="space-y-2">
+          <div className="flex justify-between text-sm text-white">
+            {label}
+            <span className="text-slate-400">{thresholds[key].toFixed(2)} g</span>
+          </div>
+          <Slider
+            min={0.2}
+            max={0.8}
+            step={0.05}
+            value={[thresholds[key]]}
+            onValueChange={([value]) => onChange({ ...thresholds, [key]: value })}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-white">
+          Speeding for at least
+          <span className="text-slate-400">{thresholds.speedingMinDuration} s</span>
+        </div>
+        <Slider
+          min={0}
+          max={60}
+          step={5}
+          value={[thresholds.speedingMinDuration]}
+          onValueChange={([value]) => onChange({ ...thresholds, speedingMinDuration: value })}
+        />
+      </div>
+
+      <label className="flex items-center justify-between gap-3 text-sm text-white">
+        Speed limit ({SPEED_UNITS[unit].label})
+        <Input
+          // Remounted when the unit or the stored limit changes, so it always shows the current value
+          key={`${unit}-${thresholds.speedLimit}`}
+          type="number"
+          inputMode="decimal"
+          min={1}
+          className="w-24"
+          defaultValue={Math.round(toDisplaySpeed(thresholds.speedLimit, unit))}
+          onBlur={(e) => setSpeedLimit(e.target.value)}
+        />
+      </label>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="bg-transparent text-white"
+        onClick={() => onChange(DEFAULT_BEHAVIOR_THRESHOLDS)}
+      >
+        Reset thresholds
+      </Button>
+    </Card>
+  )
+}
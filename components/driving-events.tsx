@@ -0,0 +1,64 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { formatDuration } from "@/lib/format"
+import { BEHAVIOR_EVENT_LABELS, type BehaviorEvent, type BehaviorEventType } from "@/lib/driver-behavior"
+import { SPEED_UNITS, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+export const scoreColor = (score: number) =>
+  score >= 85 ? "bg-green-600" : score >= 70 ? "bg-amber-600" : "bg-red-600"
+
+export function SafetyScoreBadge({ score }: { score: number }) {
+  return <Badge className={cn("text-white", scoreColor(score))}>Score {score}</Badge>
+}
+
+export function EventCounts({ counts }: { counts: Record<BehaviorEventType, number> }) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-slate-400">
+      {(Object.keys(BEHAVIOR_EVENT_LABELS) as BehaviorEventType[]).map((type) => (
+        <span key={type}>
+          <span className={counts[type] > 0 ? "text-red-400" : "text-slate-300"}>{counts[type]}</span>{" "}
+          {BEHAVIOR_EVENT_LABELS[type].toLowerCase()}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+interface BehaviorEventListProps {
+  events: BehaviorEvent[]
+  unit: SpeedUnit
+  emptyText?: string
+}
+
+// Peak g for the acceleration events, top speed for speeding
+export function BehaviorEventList({ events, unit, emptyText = "No events on this trip" }: BehaviorEventListProps) {
+  if (events.length === 0) return <div className="text-sm text-green-400">{emptyText}</div>
+
+  return (
+    <div className="space-y-2">
+      {events.map((event) => (
+        <div
+          key={`${event.type}-${event.startedAt}`}
+          className="flex items-center justify-between gap-2 rounded-md bg-slate-900/50 px-3 py-2 text-sm"
+        >
+          <div>
+            <div className="text-white">
+              {BEHAVIOR_EVENT_LABELS[event.type]} · {new Date(event.startedAt).toLocaleTimeString()}
+              {event.type === "speeding" && ` · ${formatDuration(event.endedAt - event.startedAt)}`}
+            </div>
+            <div className="text-xs text-slate-500 font-mono">
+              {event.latitude.toFixed(5)}, {event.longitude.toFixed(5)}
+            </div>
+          </div>
+          <div className="text-red-400 font-semibold whitespace-nowrap">
+            {event.type === "speeding"
+              ? `${toDisplaySpeed(event.peak, unit).toFixed(1)} ${SPEED_UNITS[unit].label}`
+              : `${event.peak.toFixed(2)} g`}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
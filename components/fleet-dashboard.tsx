@@ -0,0 +1,241 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { TripAnalytics } from "@/components/trip-analytics"
+import { TripRoute } from "@/components/trip-history"
+import { BehaviorEventList, EventCounts, SafetyScoreBadge } from "@/components/driving-events"
+import { ArrowLeft, RefreshCw, Route, Users } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatDateTime, formatDuration } from "@/lib/format"
+import type { DriverStats, TripListResponse, UploadedTrip, UploadedTripSummary } from "@/lib/fleet"
+import type { Settings } from "@/lib/settings"
+import { fleetEndpoint, fleetHeaders } from "@/lib/trip-upload"
+import { SPEED_UNITS, distanceLabel, toDisplayDistance, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface FleetDashboardProps {
+  fleet: Settings["fleet"]
+  unit: SpeedUnit
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PERIODS = [
+  { id: "week", label: "7 days", ms: 7 * DAY_MS },
+  { id: "month", label: "30 days", ms: 30 * DAY_MS },
+  { id: "all", label: "All", ms: null },
+] as const
+
+type PeriodId = (typeof PERIODS)[number]["id"]
+
+async function fetchFleet<T>(fleet: Settings["fleet"], path: string): Promise<T> {
+  const response = await fetch(fleetEndpoint(fleet.serverUrl, path), { headers: fleetHeaders(fleet) })
+  const body = await response.json().catch(() => null)
+  if (!response.ok) throw new Error(body?.error ?? `Fleet server responded ${response.status}`)
+  return body as T
+}
+
+function DriverCard({
+  driver,
+  unit,
+  isSelected,
+  onSelect,
+}: {
+  driver: DriverStats
+  unit: SpeedUnit
+  isSelected: boolean
+  onSelect: () => void
+}) {
+  return (
+    <Card
+      className={cn(
+        "p-4 bg-slate-800/50 border-slate-700 gap-2 cursor-pointer hover:border-purple-500/50",
+        isSelected && "border-purple-400 bg-purple-600/20",
+      )}
+      onClick={onSelect}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-semibold text-white truncate">{driver.driverName}</div>
+        <SafetyScoreBadge score={driver.safetyScore} />
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-slate-300">
+        <span>
+          {driver.trips} {driver.trips === 1 ? "trip" : "trips"}
+        </span>
+        <span>
+          {toDisplayDistance(driver.distance, unit).toFixed(1)} {distanceLabel(unit)}
+        </span>
+        <span>
+          avg {toDisplaySpeed(driver.averageSpeed, unit).toFixed(1)} {SPEED_UNITS[unit].label}
+        </span>
+        <span>
+          max {toDisplaySpeed(driver.maxSpeed, unit).toFixed(1)} {SPEED_UNITS[unit].label}
+        </span>
+      </div>
+      <EventCounts counts={driver.eventCounts} />
+      <div className="text-xs text-slate-500">Last trip {formatDateTime(driver.lastTripAt)}</div>
+    </Card>
+  )
+}
+
+export function FleetDashboard({ fleet, unit }: FleetDashboardProps) {
+  const [period, setPeriod] = useState<PeriodId>("week")
+  const [driverId, setDriverId] = useState<string | null>(null)
+  const [data, setData] = useState<TripListResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedTrip, setSelectedTrip] = useState<UploadedTrip | null>(null)
+
+  const load = useCallback(async () => {
+    const ms = PERIODS.find((option) => option.id === period)?.ms ?? null
+    const params = new URLSearchParams()
+    if (ms !== null) params.set("from", String(Date.now() - ms))
+    if (driverId) params.set("driver", driverId)
+    setIsLoading(true)
+    try {
+      setData(await fetchFleet<TripListResponse>(fleet, `?${params}`))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load fleet trips")
+      console.error("Fleet dashboard error:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [fleet, period, driverId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const openTrip = async (trip: UploadedTripSummary) => {
+    try {
+      setSelectedTrip(await fetchFleet<UploadedTrip>(fleet, `/${trip.id}`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load trip")
+      console.error("Fleet dashboard error:", err)
+    }
+  }
+
+  if (selectedTrip) {
+    return (
+      <div className="space-y-4">
+        <Button onClick={() => setSelectedTrip(null)} variant="outline" className="bg-transparent text-white">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          All Trips
+        </Button>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-semibold text-white truncate">{selectedTrip.name}</div>
+              <SafetyScoreBadge score={selectedTrip.safetyScore} />
+            </div>
+            <div className="text-xs text-slate-400">
+              {selectedTrip.driverName} · {formatDateTime(selectedTrip.startedAt)}
+            </div>
+          </div>
+
+          <TripRoute trip={selectedTrip} markers={selectedTrip.events} />
+          <TripAnalytics samples={selectedTrip.samples} unit={unit} />
+
+          <div className="space-y-2">
+            <div className="text-sm text-slate-400">
+              Driving events · speed limit {toDisplaySpeed(selectedTrip.thresholds.speedLimit, unit).toFixed(0)}{" "}
+              {SPEED_UNITS[unit].label}
+            </div>
+            <BehaviorEventList events={selectedTrip.events} unit={unit} />
+          </div>
+
+          <div className="text-xs text-slate-500">
+            {selectedTrip.samples.length} GPS fixes · uploaded {formatDateTime(selectedTrip.uploadedAt)}
+          </div>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {PERIODS.map((option) => (
+            <Button
+              key={option.id}
+              size="sm"
+              variant="outline"
+              className={cn("bg-transparent text-white", period === option.id && "border-purple-400 bg-purple-600/30")}
+              onClick={() => setPeriod(option.id)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <Button size="icon" variant="outline" onClick={load} disabled={isLoading} aria-label="Refresh">
+          <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {data && data.drivers.length === 0 && !isLoading && (
+        <Card className="p-6 bg-slate-800/30 border-slate-700/50 items-center text-center">
+          <Users className="w-8 h-8 text-slate-500" />
+          <div className="text-sm text-slate-400">
+            No trips uploaded in this period. Drivers turn on uploads under Settings → Fleet.
+          </div>
+        </Card>
+      )}
+
+      {data && data.drivers.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm text-slate-400">Drivers</div>
+          {data.drivers.map((driver) => (
+            <DriverCard
+              key={driver.driverId}
+              driver={driver}
+              unit={unit}
+              isSelected={driverId === driver.driverId}
+              onSelect={() => setDriverId((prev) => (prev === driver.driverId ? null : driver.driverId))}
+            />
+          ))}
+        </div>
+      )}
+
+      {data && data.trips.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm text-slate-400">
+            {driverId ? `Trips by ${data.drivers.find((d) => d.driverId === driverId)?.driverName}` : "Recent trips"}
+          </div>
+          {data.trips.map((trip) => (
+            <Card
+              key={trip.id}
+              className="p-4 bg-slate-800/50 border-slate-700 gap-2 cursor-pointer hover:border-purple-500/50"
+              onClick={() => openTrip(trip)}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0 flex-1">
+                  <div className="font-semibold text-white truncate">{trip.name}</div>
+                  <div className="text-xs text-slate-400">
+                    {trip.driverName} · {formatDateTime(trip.startedAt)}
+                  </div>
+                </div>
+                <SafetyScoreBadge score={trip.safetyScore} />
+              </div>
+              <div className="flex gap-4 text-sm text-slate-300">
+                <span>
+                  <Route className="inline w-4 h-4 mr-1" />
+                  {toDisplayDistance(trip.distance, unit).toFixed(2)} {distanceLabel(unit)}
+                </span>
+                <span>{formatDuration(trip.duration)}</span>
+                <span>
+                  max {toDisplaySpeed(trip.maxSpeed, unit).toFixed(1)} {SPEED_UNITS[unit].label}
+                </span>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
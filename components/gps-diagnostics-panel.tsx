@@ -0,0 +1,171 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, YAxis } from "recharts"
+import { useDeviceOrientation } from "@/hooks/use-device-orientation"
+import { compassPoint } from "@/lib/geo"
+import {
+  FIX_QUALITY_COLORS,
+  FIX_QUALITY_LABELS,
+  POOR_FIX_ACCURACY,
+  rateFix,
+  type FixStats,
+  type GpsDiagnosticsSettings,
+} from "@/lib/gps-quality"
+import { altitudeLabel, toDisplayAltitude, type SpeedUnit } from "@/lib/units"
+
+interface GpsDiagnosticsPanelProps {
+  stats: FixStats
+  unit: SpeedUnit
+  settings: GpsDiagnosticsSettings
+  onChange: (settings: GpsDiagnosticsSettings) => void
+}
+
+const TICKS = Array.from({ length: 36 }, (_, i) => i * 10)
+const CARDINALS = ["N", "E", "S", "W"]
+
+function CompassRose({ heading }: { heading: number | null }) {
+  // The card rotates so the current heading sits under the fixed lubber line at the top
+  return (
+    <svg viewBox="0 0 120 120" className="w-32 h-32 shrink-0">
+      <g transform={`rotate(${heading !== null ? -heading : 0} 60 60)`}>
+        <circle cx="60" cy="60" r="56" fill="#0f172a" stroke="#475569" strokeWidth="2" />
+        {TICKS.map((tick) => (
+          <line
+            key={tick}
+            x1="60"
+            y1="6"
+            x2="60"
+            y2={tick % 90 === 0 ? 16 : tick % 30 === 0 ? 13 : 10}
+            stroke={tick === 0 ? "#f87171" : "#94a3b8"}
+            strokeWidth={tick % 30 === 0 ? 2 : 1}
+            transform={`rotate(${tick} 60 60)`}
+          />
+        ))}
+        {CARDINALS.map((label, i) => (
+          <text
+            key={label}
+            x="60"
+            y="30"
+            textAnchor="middle"
+            fontSize="12"
+            fontWeight="bold"
+            fill={label === "N" ? "#f87171" : "#e2e8f0"}
+            transform={`rotate(${i * 90} 60 60)`}
+          >
+            {label}
+          </text>
+        ))}
+      </g>
+      <path d="M60 2 L55 12 L65 12 Z" fill="#a855f7" />
+      <text x="60" y="66" textAnchor="middle" fontSize="16" fontWeight="bold" fill="#ffffff">
+        {heading !== null ? `${Math.round(heading)}°` : "---"}
+      </text>
+    </svg>
+  )
+}
+
+export function GpsDiagnosticsPanel({ stats, unit, settings, onChange }: GpsDiagnosticsPanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const compass = useDeviceOrientation(true)
+
+  // Fix age keeps counting between fixes, which is exactly when it matters
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const { last } = stats
+  const fixAge = last ? Math.max(0, now - last.receivedAt) : null
+  const quality = rateFix(last?.accuracy ?? null, fixAge)
+
+  // GPS course is only reported while moving (some browsers give NaN rather than null)
+  const gpsHeading = last && Number.isFinite(last.heading) ? last.heading : null
+  const heading = gpsHeading ?? compass.heading
+  const headingSource = gpsHeading !== null ? "GPS course" : compass.heading !== null ? "Compass" : "Unavailable"
+
+  const formatAltitude = (meters: number) => `${Math.round(toDisplayAltitude(meters, unit))} ${altitudeLabel(unit)}`
+  const history = stats.accuracyHistory.map((accuracy, index) => ({ index, accuracy }))
+
+  const readings = [
+    {
+      label: "Altitude",
+      value:
+        last?.altitude != null
+          ? `${formatAltitude(last.altitude)}${last.altitudeAccuracy != null ? ` ±${formatAltitude(last.altitudeAccuracy)}` : ""}`
+          : "--",
+    },
+    { label: "Accuracy", value: last ? `±${Math.round(last.accuracy)} m` : "--" },
+    { label: "Last fix", value: fixAge !== null ? `${(fixAge / 1000).toFixed(fixAge < 10000 ? 1 : 0)} s ago` : "--" },
+    { label: "Update rate", value: stats.updateRate !== null ? `${stats.updateRate.toFixed(1)} Hz` : "--" },
+  ]
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-400">GPS Diagnostics</div>
+        <Badge
+          variant="outline"
+          className="text-xs"
+          style={{ color: FIX_QUALITY_COLORS[quality], borderColor: FIX_QUALITY_COLORS[quality] }}
+        >
+          {FIX_QUALITY_LABELS[quality]}
+        </Badge>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <CompassRose heading={heading} />
+        <div className="space-y-1 text-sm">
+          <div className="text-2xl font-bold text-white">{heading !== null ? compassPoint(heading) : "--"}</div>
+          <div className="text-slate-400">{headingSource}</div>
+          {gpsHeading === null && compass.permission === "required" && (
+            <Button size="sm" variant="outline" className="bg-transparent" onClick={compass.requestPermission}>
+              Enable compass
+            </Button>
+          )}
+          {gpsHeading === null && compass.permission === "denied" && (
+            <div className="text-xs text-slate-500">Compass access was denied</div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {readings.map(({ label, value }) => (
+          <div key={label}>
+            <div className="text-xs text-slate-400">{label}</div>
+            <div className="font-mono text-white">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="text-xs text-slate-400">Accuracy (last {history.length} fixes)</div>
+        {history.length > 1 ? (
+          <div className="h-16">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history} margin={{ top: 4, right: 0, bottom: 4, left: 0 }}>
+                <YAxis hide domain={[0, (max: number) => Math.max(max, POOR_FIX_ACCURACY)]} />
+                <ReferenceLine y={POOR_FIX_ACCURACY} stroke="#ef4444" strokeDasharray="3 3" />
+                <Line type="monotone" dataKey="accuracy" stroke="#8b5cf6" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-sm text-slate-500">Waiting for fixes</div>
+        )}
+      </div>
+
+      <label className="flex items-center justify-between text-sm text-white">
+        Show 0 on poor fixes (worse than ±{POOR_FIX_ACCURACY} m)
+        <Switch
+          checked={settings.lockSpeedOnPoorFix}
+          onCheckedChange={(checked) => onChange({ ...settings, lockSpeedOnPoorFix: checked })}
+        />
+      </label>
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Switch } from "@/components/ui/switch"
+import { MonitorSmartphone } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { HUD_COLORS, type HudColor, type HudSettings } from "@/lib/hud"
+
+interface HudSettingsCardProps {
+  settings: HudSettings
+  onChange: (settings: HudSettings) => void
+  onStart: () => void
+  disabled: boolean
+}
+
+export function HudSettingsCard({ settings, onChange, onStart, disabled }: HudSettingsCardProps) {
+  const toggles: { key: "mirrored" | "autoDim" | "showHeading" | "showAlerts"; label: string }[] = [
+    { key: "mirrored", label: "Mirror for windshield" },
+    { key: "autoDim", label: "Dim after sunset" },
+    { key: "showHeading", label: "Show heading" },
+    { key: "showAlerts", label: "Show speed alerts" },
+  ]
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Heads-Up Display</div>
+
+      {toggles.map(({ key, label }) => (
+        <label key={key} className="flex items-center justify-between text-sm text-white">
+          {label}
+          <Switch checked={settings[key]} onCheckedChange={(checked) => onChange({ ...settings, [key]: checked })} />
+        </label>
+      ))}
+
+      <div className="flex items-center justify-between gap-2 text-sm text-white">
+        Color
+        <div className="flex gap-1">
+          {(Object.keys(HUD_COLORS) as HudColor[]).map((color) => (
+            <Button
+              key={color}
+              size="sm"
+              variant="outline"
+              className={cn(
+                "bg-transparent capitalize",
+                settings.color === color && "border-purple-400 bg-purple-600/30",
+              )}
+              style={{ color: HUD_COLORS[color] }}
+              onClick={() => onChange({ ...settings, color })}
+            >
+              {color}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <Button onClick={onStart} className="w-full bg-purple-600 hover:bg-purple-700" disabled={disabled}>
+        <MonitorSmartphone className="w-4 h-4 mr-2" />
+        Start HUD
+      </Button>
+      <div className="text-xs text-slate-500">
+        Lay the phone flat on the dashboard under the windshield. Tap anywhere to exit.
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { cn } from "@/lib/utils"
+import { compassPoint, type LatLng } from "@/lib/geo"
+import { HUD_COLORS, hudBrightness, type HudSettings } from "@/lib/hud"
+import { SPEED_UNITS, type SpeedUnit } from "@/lib/units"
+
+interface HudViewProps {
+  settings: HudSettings
+  speed: number // in `unit`
+  unit: SpeedUnit
+  heading: number | null
+  position: LatLng | null
+  isConnected: boolean
+  isAlertActive: boolean
+  isApproachingLimit: boolean
+  limit: number | null // active alert threshold or zone limit, in `unit`
+  onExit: () => void
+}
+
+const ALERT_COLOR = "#f87171"
+const WARNING_COLOR = "#fbbf24"
+
+/**
+ * Full-screen digital readout for projecting onto the windshield: the phone lies flat under the
+ * glass, so the content is mirrored horizontally to read correctly in the reflection.
+ */
+export function HudView({
+  settings,
+  speed,
+  unit,
+  heading,
+  position,
+  isConnected,
+  isAlertActive,
+  isApproachingLimit,
+  limit,
+  onExit,
+}: HudViewProps) {
+  const [brightness, setBrightness] = useState(1)
+
+  // Re-evaluated every minute; the sun moves slowly enough that this is smooth
+  useEffect(() => {
+    if (!settings.autoDim) {
+      setBrightness(1)
+      return
+    }
+    const update = () => setBrightness(hudBrightness(position))
+    update()
+    const timer = setInterval(update, 60000)
+    return () => clearInterval(timer)
+  }, [settings.autoDim, position])
+
+  const color =
+    settings.showAlerts && isAlertActive
+      ? ALERT_COLOR
+      : settings.showAlerts && isApproachingLimit
+        ? WARNING_COLOR
+        : HUD_COLORS[settings.color]
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black flex items-center justify-center select-none cursor-pointer"
+      onClick={onExit}
+      role="button"
+      aria-label="Exit HUD"
+    >
+      <div
+        className="flex flex-col items-center"
+        style={{
+          transform: settings.mirrored ? "scaleX(-1)" : undefined,
+          opacity: brightness,
+          color,
+        }}
+      >
+        {settings.showHeading && (
+          <div className="font-mono font-bold text-[8vmin] leading-none tracking-widest">
+            {heading !== null ? `${compassPoint(heading)} ${Math.round(heading)}°` : "---"}
+          </div>
+        )}
+
+        <div
+          className={cn(
+            "font-mono font-black leading-none tabular-nums text-[42vmin]",
+            settings.showAlerts && isAlertActive && "animate-pulse",
+          )}
+        >
+          {isConnected ? Math.round(speed) : "--"}
+        </div>
+
+        <div className="flex items-center gap-[4vmin] font-mono font-bold text-[7vmin] leading-none">
+          <span>{SPEED_UNITS[unit].label}</span>
+          {settings.showAlerts && limit !== null && (
+            <span className="rounded-full border-[0.8vmin] px-[2.5vmin] py-[0.5vmin]" style={{ borderColor: color }}>
+              {limit}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Compass, Crosshair, Minus, Navigation, Plus } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { LatLng } from "@/lib/geo"
+import type { TripSample } from "@/lib/types"
+import { MAX_ZOOM, MIN_ZOOM, TILE_SIZE, project, speedColor, tileUrl, unproject } from "@/lib/map-tiles"
+import type { Settings } from "@/lib/settings"
+import { toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+type MapSettings = Settings["map"]
+
+interface LiveMapProps {
+  samples: TripSample[]
+  position: LatLng | null
+  heading: number | null
+  unit: SpeedUnit
+  dialMax: number // in `unit`, the top of the breadcrumb color scale
+  settings: MapSettings
+  onSettingsChange: (settings: MapSettings) => void
+}
+
+const MAP_HEIGHT = 320
+// Follow-me picks up again this long after the last pan
+const FOLLOW_RESUME_MS = 10000
+const MAX_CACHED_TILES = 300
+
+export function LiveMap({ samples, position, heading, unit, dialMax, settings, onSettingsChange }: LiveMapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const tilesRef = useRef(new Map<string, HTMLImageElement>())
+  const dragRef = useRef<{ x: number; y: number } | null>(null)
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const rotationRef = useRef(0)
+
+  const [zoom, setZoom] = useState(16)
+  const [isFollowing, setIsFollowing] = useState(true)
+  const [center, setCenter] = useState<LatLng | null>(null)
+  const [tileRevision, setTileRevision] = useState(0)
+  const [tileError, setTileError] = useState(false)
+
+  const isTrackUp = settings.orientation === "track-up"
+  // Track-up keeps the last known course while stopped rather than snapping back to north
+  if (isTrackUp && heading !== null && Number.isFinite(heading)) rotationRef.current = heading
+  const rotation = isTrackUp ? rotationRef.current : 0
+  const view = isFollowing || !center ? position : center
+
+  const interrupt = useCallback(() => {
+    setIsFollowing(false)
+    if (resumeTimerRef.current) clearTimeout(resumeTimerRef.current)
+    resumeTimerRef.current = setTimeout(() => setIsFollowing(true), FOLLOW_RESUME_MS)
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      if (resumeTimerRef.current) clearTimeout(resumeTimerRef.current)
+    }
+  }, [])
+
+  // A new tile source invalidates everything loaded from the old one
+  useEffect(() => {
+    tilesRef.current.clear()
+    setTileError(false)
+  }, [settings.tileUrl, settings.offlineTiles])
+
+  const getTile = useCallback(
+    (z: number, x: number, y: number) => {
+      const url = tileUrl(settings.tileUrl, z, x, y)
+      let tile = tilesRef.current.get(url)
+      if (!tile) {
+        tile = new Image()
+        // CORS keeps the responses readable so the service worker can cache them for offline use
+        if (settings.offlineTiles) tile.crossOrigin = "anonymous"
+        tile.onload = () => setTileRevision((prev) => prev + 1)
+        tile.onerror = () => setTileError(true)
+        tile.src = url
+        tilesRef.current.set(url, tile)
+        if (tilesRef.current.size > MAX_CACHED_TILES) {
+          tilesRef.current.delete(tilesRef.current.keys().next().value!)
+        }
+      }
+      return tile
+    },
+    [settings.tileUrl, settings.offlineTiles],
+  )
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    const width = canvas.clientWidth
+    const height = MAP_HEIGHT
+    const dpr = window.devicePixelRatio || 1
+    if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+      canvas.width = width * dpr
+      canvas.height = height * dpr
+    }
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.fillStyle = "#0f172a"
+    ctx.fillRect(0, 0, width, height)
+    if (!view) return
+
+    const origin = project(view, zoom)
+    const toScreen = (point: LatLng) => {
+      const world = project(point, zoom)
+      return { x: world.x - origin.x, y: world.y - origin.y }
+    }
+
+    ctx.save()
+    ctx.translate(width / 2, height / 2)
+    ctx.rotate((-rotation * Math.PI) / 180)
+
+    // Cover the circle around the viewport so corners stay filled while rotated
+    const radius = Math.hypot(width, height) / 2
+    const tileCount = 2 ** zoom
+    const minTileX = Math.floor((origin.x - radius) / TILE_SIZE)
+    const maxTileX = Math.floor((origin.x + radius) / TILE_SIZE)
+    const minTileY = Math.max(0, Math.floor((origin.y - radius) / TILE_SIZE))
+    const maxTileY = Math.min(tileCount - 1, Math.floor((origin.y + radius) / TILE_SIZE))
+    for (let x = minTileX; x <= maxTileX; x++) {
+      for (let y = minTileY; y <= maxTileY; y++) {
+        const tile = getTile(zoom, x, y)
+        if (tile.complete && tile.naturalWidth > 0) {
+          ctx.drawImage(tile, x * TILE_SIZE - origin.x, y * TILE_SIZE - origin.y, TILE_SIZE, TILE_SIZE)
+        }
+      }
+    }
+
+    // Breadcrumb trail, one segment per fix so each can carry its own speed color
+    ctx.lineWidth = 4
+    ctx.lineCap = "round"
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i].resumed) continue
+      const from = toScreen(samples[i - 1])
+      const to = toScreen(samples[i])
+      if (Math.abs(to.x - from.x) + Math.abs(to.y - from.y) < 0.5) continue
+      ctx.strokeStyle = speedColor(toDisplaySpeed(samples[i].speed, unit) / dialMax)
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.stroke()
+    }
+
+    if (position) {
+      const { x, y } = toScreen(position)
+      ctx.translate(x, y)
+      ctx.fillStyle = "#a855f7"
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      if (heading !== null && Number.isFinite(heading)) {
+        ctx.rotate((heading * Math.PI) / 180)
+        ctx.moveTo(0, -14)
+        ctx.lineTo(9, 10)
+        ctx.lineTo(0, 5)
+        ctx.lineTo(-9, 10)
+        ctx.closePath()
+      } else {
+        ctx.arc(0, 0, 8, 0, Math.PI * 2)
+      }
+      ctx.fill()
+      ctx.stroke()
+    }
+    ctx.restore()
+    // The trail array grows in place, so its length is what changes; tileRevision redraws as tiles arrive
+  }, [view, zoom, rotation, samples, samples.length, position, heading, unit, dialMax, getTile, tileRevision])
+
+  const panBy = (dx: number, dy: number) => {
+    if (!view) return
+    // Undo the map rotation so the drag moves the map under the finger
+    const angle = (rotation * Math.PI) / 180
+    const worldDx = dx * Math.cos(angle) - dy * Math.sin(angle)
+    const worldDy = dx * Math.sin(angle) + dy * Math.cos(angle)
+    const world = project(view, zoom)
+    setCenter(unproject({ x: world.x - worldDx, y: world.y - worldDy }, zoom))
+    interrupt()
+  }
+
+  // Zooming keeps whatever is centered, so it does not interrupt follow-me
+  const changeZoom = (delta: number) => {
+    setZoom((prev) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev + delta)))
+  }
+
+  const recenter = () => {
+    if (resumeTimerRef.current) clearTimeout(resumeTimerRef.current)
+    setIsFollowing(true)
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-400">Live Map</div>
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent text-white"
+            onClick={() => onSettingsChange({ ...settings, orientation: isTrackUp ? "north-up" : "track-up" })}
+            aria-label={isTrackUp ? "Switch to north-up" : "Switch to track-up"}
+          >
+            {isTrackUp ? <Navigation className="w-4 h-4 mr-1" /> : <Compass className="w-4 h-4 mr-1" />}
+            {isTrackUp ? "Track-up" : "North-up"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className={cn("bg-transparent text-white", isFollowing && "border-purple-400 bg-purple-600/30")}
+            onClick={recenter}
+            aria-label="Follow position"
+          >
+            <Crosshair className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="relative overflow-hidden rounded-md">
+        <canvas
+          ref={canvasRef}
+          className="w-full touch-none cursor-grab active:cursor-grabbing"
+          style={{ height: MAP_HEIGHT }}
+          onPointerDown={(e) => {
+            dragRef.current = { x: e.clientX, y: e.clientY }
+            e.currentTarget.setPointerCapture(e.pointerId)
+          }}
+          onPointerMove={(e) => {
+            if (!dragRef.current) return
+            panBy(e.clientX - dragRef.current.x, e.clientY - dragRef.current.y)
+            dragRef.current = { x: e.clientX, y: e.clientY }
+          }}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+          onWheel={(e) => changeZoom(e.deltaY < 0 ? 1 : -1)}
+        />
+
+        {!view && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+            Waiting for a GPS fix
+          </div>
+        )}
+
+        <div className="absolute right-2 top-2 flex flex-col gap-1">
+          <Button
+            size="icon"
+            variant="outline"
+            className="bg-slate-900/70"
+            onClick={() => changeZoom(1)}
+            aria-label="Zoom in"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="outline"
+            className="bg-slate-900/70"
+            onClick={() => changeZoom(-1)}
+            aria-label="Zoom out"
+          >
+            <Minus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {settings.attribution && (
+          <div className="absolute right-0 bottom-0 bg-slate-900/70 px-1 text-[10px] text-slate-300">
+            {settings.attribution}
+          </div>
+        )}
+      </div>
+
+      {tileError && (
+        <div className="text-xs text-amber-300">
+          Some map tiles failed to load. Check the tile URL in Settings or your connection.
+        </div>
+      )}
+      {!isFollowing && <div className="text-xs text-slate-500">Following resumes shortly, or tap the crosshair.</div>}
+    </Card>
+  )
+}
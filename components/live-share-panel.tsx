@@ -0,0 +1,157 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Check, Copy, Share2, Square } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatDuration } from "@/lib/format"
+import { SHARE_DURATIONS } from "@/lib/live-share-protocol"
+import type { LiveShareSettings, LiveShareState, LiveShareStatus } from "@/lib/live-share"
+
+interface LiveSharePanelProps {
+  settings: LiveShareSettings
+  onChange: (settings: LiveShareSettings) => void
+  state: LiveShareState
+  onStart: () => void
+  onStop: () => void
+  isTracking: boolean
+}
+
+const STATUS_LABELS: Record<LiveShareStatus, string> = {
+  idle: "Not sharing",
+  connecting: "Connecting",
+  live: "Live",
+  buffering: "Offline · buffering",
+  expired: "Link expired",
+  error: "Error",
+}
+
+const STATUS_COLORS: Record<LiveShareStatus, string> = {
+  idle: "bg-slate-600",
+  connecting: "bg-slate-600",
+  live: "bg-green-600",
+  buffering: "bg-amber-600",
+  expired: "bg-slate-600",
+  error: "bg-red-600",
+}
+
+export function LiveSharePanel({ settings, onChange, state, onStart, onStop, isTracking }: LiveSharePanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const [isCopied, setIsCopied] = useState(false)
+  const isSharing = state.id !== null
+
+  useEffect(() => {
+    if (!isSharing) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [isSharing])
+
+  const copyLink = async () => {
+    if (!state.viewerUrl) return
+    try {
+      await navigator.clipboard.writeText(state.viewerUrl)
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (err) {
+      console.error("Clipboard error:", err)
+    }
+  }
+
+  const shareLink = async () => {
+    if (!state.viewerUrl) return
+    try {
+      await navigator.share({ title: "Live speed", url: state.viewerUrl })
+    } catch (err) {
+      // Dismissing the share sheet rejects too
+      if ((err as DOMException).name !== "AbortError") console.error("Share error:", err)
+    }
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-400">Live Sharing</div>
+        <Badge className={cn("text-white", STATUS_COLORS[state.status])}>{STATUS_LABELS[state.status]}</Badge>
+      </div>
+
+      {!isSharing && (
+        <>
+          <div className="flex items-center justify-between gap-2 text-sm text-white">
+            Link expires after
+            <div className="flex flex-wrap justify-end gap-1">
+              {SHARE_DURATIONS.map((duration) => (
+                <Button
+                  key={duration.seconds}
+                  size="sm"
+                  variant="outline"
+                  className={cn(
+                    "bg-transparent text-white",
+                    settings.ttl === duration.seconds && "border-purple-400 bg-purple-600/30",
+                  )}
+                  onClick={() => onChange({ ...settings, ttl: duration.seconds })}
+                >
+                  {duration.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            onClick={onStart}
+            className="w-full bg-purple-600 hover:bg-purple-700"
+            disabled={!isTracking || state.status === "connecting"}
+          >
+            <Share2 className="w-4 h-4 mr-2" />
+            Start Sharing
+          </Button>
+          {state.error && <div className="text-xs text-red-400">{state.error}</div>}
+          <div className="text-xs text-slate-500">
+            Anyone with the link can watch your speed and position until it expires or you stop sharing.
+          </div>
+        </>
+      )}
+
+      {isSharing && state.viewerUrl && (
+        <>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={state.viewerUrl}
+              onFocus={(e) => e.target.select()}
+              className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-900/50 px-2 text-xs text-white font-mono"
+              aria-label="Viewer link"
+            />
+            <Button size="icon" variant="outline" onClick={copyLink} aria-label="Copy link">
+              {isCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+            {typeof navigator !== "undefined" && "share" in navigator && (
+              <Button size="icon" variant="outline" onClick={shareLink} aria-label="Share link">
+                <Share2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <div className="text-xs text-slate-400">Expires in</div>
+              <div className="text-white font-mono">{formatDuration((state.expiresAt ?? now) - now)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-400">Waiting to send</div>
+              <div className={cn("font-mono", state.buffered > 0 ? "text-amber-300" : "text-white")}>
+                {state.buffered} {state.buffered === 1 ? "fix" : "fixes"}
+              </div>
+            </div>
+          </div>
+
+          <Button onClick={onStop} variant="outline" className="w-full bg-transparent text-white">
+            <Square className="w-4 h-4 mr-2" />
+            Stop Sharing
+          </Button>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Switch } from "@/components/ui/switch"
+import { Download, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { downloadBlob, fileTimestamp } from "@/lib/download"
+import { formatDateTime } from "@/lib/format"
+import {
+  LOOP_MINUTE_OPTIONS,
+  deleteEventClip,
+  getSegment,
+  listEventClips,
+  segmentTelemetryLog,
+  type EventClip,
+  type LoopRecordingSettings,
+} from "@/lib/loop-recorder"
+import { extensionForMimeType } from "@/lib/recording-formats"
+import { serializeTelemetry } from "@/lib/telemetry"
+import type { SpeedUnit } from "@/lib/units"
+
+interface LoopRecordingPanelProps {
+  settings: LoopRecordingSettings
+  onChange: (settings: LoopRecordingSettings) => void
+  // Bumped by the parent whenever the loop recorder stores a segment or clip
+  revision: number
+  unit: SpeedUnit
+}
+
+export function LoopRecordingPanel({ settings, onChange, revision, unit }: LoopRecordingPanelProps) {
+  const [clips, setClips] = useState<EventClip[]>([])
+
+  const loadClips = useCallback(async () => {
+    try {
+      setClips(await listEventClips())
+    } catch (err) {
+      console.error("Event clip list error:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadClips()
+  }, [loadClips, revision])
+
+  // Segments are standalone files, so a clip downloads as a numbered sequence, each part with its
+  // telemetry log and subtitles under the same name
+  const downloadClip = async (clip: EventClip) => {
+    const baseName = `speedometer-event-${fileTimestamp(new Date(clip.triggeredAt))}`
+    for (const [index, id] of clip.segmentIds.entries()) {
+      const segment = await getSegment(id)
+      if (!segment) continue
+      const partName = `${baseName}-part${index + 1}`
+      downloadBlob(segment.blob, `${partName}.${extensionForMimeType(segment.mimeType)}`)
+      if (segment.telemetry.length === 0) continue
+
+      const log = segmentTelemetryLog(segment)
+      const durationMs = segment.endedAt - segment.startedAt
+      for (const format of ["json", "vtt"] as const) {
+        const { content, mimeType, extension } = serializeTelemetry(format, log, unit, durationMs)
+        downloadBlob(new Blob([content], { type: mimeType }), `${partName}.${extension}`)
+      }
+    }
+  }
+
+  const removeClip = async (clip: EventClip) => {
+    if (!window.confirm("Delete this event clip?")) return
+    await deleteEventClip(clip)
+    await loadClips()
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Loop Recording</div>
+
+      <label className="flex items-center justify-between text-sm text-white">
+        Loop mode
+        <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+      </label>
+
+      <div className="flex items-center justify-between gap-2 text-sm text-white">
+        Keep last
+        <div className="flex gap-1">
+          {LOOP_MINUTE_OPTIONS.map((minutes) => (
+            <Button
+              key={minutes}
+              size="sm"
+              variant="outline"
+              className={cn(
+                "bg-transparent text-white",
+                settings.minutes === minutes && "border-purple-400 bg-purple-600/30",
+              )}
+              onClick={() => onChange({ ...settings, minutes })}
+            >
+              {minutes}m
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between text-sm text-white">
+        Auto-save on hard braking
+        <Switch checked={settings.autoEvent} onCheckedChange={(autoEvent) => onChange({ ...settings, autoEvent })} />
+      </label>
+
+      <div className="text-sm text-slate-400 pt-2">Event Clips ({clips.length})</div>
+
+      {clips.length === 0 && <div className="text-xs text-slate-500">Press "Save Event" while loop recording.</div>}
+
+      {clips.map((clip) => (
+        <div key={clip.id} className="flex items-center justify-between gap-2 text-sm text-white">
+          <div className="min-w-0">
+            <div className="truncate">{formatDateTime(clip.triggeredAt)}</div>
+            <div className="text-xs text-slate-400">
+              {clip.trigger === "deceleration" ? "Hard braking" : "Manual"} · {clip.segmentIds.length} segment
+              {clip.segmentIds.length === 1 ? "" : "s"}
+              {clip.status === "recording" && " · recording…"}
+            </div>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="text-slate-300"
+              onClick={() => downloadClip(clip)}
+              disabled={clip.segmentIds.length === 0}
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="text-red-400" onClick={() => removeClip(clip)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </Card>
+  )
+}
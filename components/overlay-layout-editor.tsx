@@ -0,0 +1,254 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Save, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  OVERLAY_FIELDS,
+  OVERLAY_POSITIONS,
+  OVERLAY_THEMES,
+  getActiveLayout,
+  type OverlayLayout,
+  type OverlayLayoutState,
+} from "@/lib/overlay-layouts"
+import { captionStripHeight, drawCaptionStrip, drawOverlay, type OverlayData } from "@/lib/overlay-renderer"
+import { toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface OverlayLayoutEditorProps {
+  state: OverlayLayoutState
+  unit: SpeedUnit
+  maxDisplaySpeed: number
+  onChange: (state: OverlayLayoutState) => void
+  captionStrip: boolean
+  onCaptionStripChange: (enabled: boolean) => void
+}
+
+const PREVIEW_WIDTH = 480
+const PREVIEW_HEIGHT = 270
+
+const previewData = (unit: SpeedUnit, maxDisplaySpeed: number): OverlayData => ({
+  speed: toDisplaySpeed(42.5, unit),
+  maxSpeed: toDisplaySpeed(61.2, unit),
+  maxDisplaySpeed,
+  unit,
+  isConnected: true,
+  isAlertActive: false,
+  isApproachingLimit: false,
+  zone: null,
+  timestamp: Date.now(),
+  latitude: 51.50735,
+  longitude: -0.12776,
+  heading: 72,
+  altitude: 35,
+  accuracy: 4,
+  tripDistance: 12840,
+})
+
+export function OverlayLayoutEditor({
+  state,
+  unit,
+  maxDisplaySpeed,
+  onChange,
+  captionStrip,
+  onCaptionStripChange,
+}: OverlayLayoutEditorProps) {
+  const layout = getActiveLayout(state)
+  const [presetName, setPresetName] = useState("")
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (!ctx) return
+
+    // Stand-in for a camera frame
+    const gradient = ctx.createLinearGradient(0, 0, 0, PREVIEW_HEIGHT)
+    gradient.addColorStop(0, "#475569")
+    gradient.addColorStop(1, "#1e293b")
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
+
+    const data = previewData(unit, maxDisplaySpeed)
+    let bottomInset = 0
+    if (captionStrip) {
+      drawCaptionStrip(ctx, PREVIEW_WIDTH, PREVIEW_HEIGHT, data)
+      bottomInset = captionStripHeight(PREVIEW_HEIGHT)
+    }
+    drawOverlay(ctx, PREVIEW_WIDTH, PREVIEW_HEIGHT, layout, data, { bottomInset })
+  }, [layout, unit, maxDisplaySpeed, captionStrip])
+
+  const updateLayout = (changes: Partial<OverlayLayout>) => {
+    onChange({
+      ...state,
+      presets: state.presets.map((preset) => (preset.id === layout.id ? { ...preset, ...changes } : preset)),
+    })
+  }
+
+  const savePreset = () => {
+    const name = presetName.trim()
+    if (!name) return
+    const preset: OverlayLayout = { ...layout, id: crypto.randomUUID(), name }
+    onChange({ activeId: preset.id, presets: [...state.presets, preset] })
+    setPresetName("")
+  }
+
+  const deletePreset = () => {
+    if (state.presets.length <= 1) return
+    const presets = state.presets.filter((preset) => preset.id !== layout.id)
+    onChange({ activeId: presets[0].id, presets })
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Overlay Layout</div>
+
+      <canvas
+        ref={canvasRef}
+        width={PREVIEW_WIDTH}
+        height={PREVIEW_HEIGHT}
+        className="w-full rounded-lg border border-slate-700"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {state.presets.map((preset) => (
+          <Button
+            key={preset.id}
+            size="sm"
+            variant={preset.id === layout.id ? "default" : "outline"}
+            className={preset.id === layout.id ? "" : "bg-transparent text-white"}
+            onClick={() => onChange({ ...state, activeId: preset.id })}
+          >
+            {preset.name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {OVERLAY_POSITIONS.map(({ value, label }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant="outline"
+            className={cn(
+              "bg-transparent text-white text-xs",
+              layout.position === value && "border-purple-400 bg-purple-600/30",
+            )}
+            onClick={() => updateLayout({ position: value })}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <label className="space-y-2 text-sm text-white">
+        <span className="flex justify-between">
+          Size <span className="text-slate-400">{Math.round(layout.scale * 100)}%</span>
+        </span>
+        <Slider
+          min={0.12}
+          max={0.5}
+          step={0.01}
+          value={[layout.scale]}
+          onValueChange={([scale]) => updateLayout({ scale })}
+        />
+      </label>
+
+      <label className="space-y-2 text-sm text-white">
+        <span className="flex justify-between">
+          Opacity <span className="text-slate-400">{Math.round(layout.opacity * 100)}%</span>
+        </span>
+        <Slider
+          min={0.2}
+          max={1}
+          step={0.05}
+          value={[layout.opacity]}
+          onValueChange={([opacity]) => updateLayout({ opacity })}
+        />
+      </label>
+
+      <div className="flex gap-2">
+        {(["analog", "digital"] as const).map((style) => (
+          <Button
+            key={style}
+            size="sm"
+            variant={layout.style === style ? "default" : "outline"}
+            className={cn("flex-1 capitalize", layout.style !== style && "bg-transparent text-white")}
+            onClick={() => updateLayout({ style })}
+          >
+            {style}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {OVERLAY_THEMES.map((theme) => (
+          <button
+            key={theme.id}
+            onClick={() => updateLayout({ themeId: theme.id })}
+            className={cn(
+              "flex items-center gap-2 rounded-full border px-3 py-1 text-xs text-white",
+              layout.themeId === theme.id ? "border-white" : "border-slate-600",
+            )}
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: theme.ring }} />
+            {theme.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {OVERLAY_FIELDS.map(({ value, label }) => (
+          <label key={value} className="flex items-center justify-between gap-2 text-sm text-white">
+            {label}
+            <Switch
+              checked={layout.fields.includes(value)}
+              onCheckedChange={(checked) =>
+                updateLayout({
+                  fields: checked
+                    ? OVERLAY_FIELDS.map((f) => f.value).filter((f) => f === value || layout.fields.includes(f))
+                    : layout.fields.filter((f) => f !== value),
+                })
+              }
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-sm text-white">
+        Time & location strip
+        <Switch checked={captionStrip} onCheckedChange={onCaptionStripChange} />
+      </label>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="New preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && savePreset()}
+          className="text-white"
+        />
+        <Button
+          onClick={savePreset}
+          variant="outline"
+          className="bg-transparent text-white"
+          disabled={!presetName.trim()}
+        >
+          <Save className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={deletePreset}
+          variant="outline"
+          className="bg-transparent text-red-400"
+          disabled={state.presets.length <= 1}
+          aria-label={`Delete ${layout.name} preset`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </Card>
+  )
+}
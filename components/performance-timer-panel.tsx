@@ -0,0 +1,184 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Timer, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatDateTime } from "@/lib/format"
+import {
+  SPLIT_LABELS,
+  clearPerformanceRuns,
+  isBrakingSplit,
+  leaderboard,
+  listPerformanceRuns,
+  splitsForUnit,
+  type PerformanceRun,
+  type Split,
+  type TimerState,
+  type TimingMode,
+} from "@/lib/performance-timer"
+import { METERS_TO_FEET, SPEED_UNITS, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface PerformanceTimerPanelProps {
+  unit: SpeedUnit
+  isTracking: boolean
+  state: TimerState | null
+  onArm: (mode: TimingMode) => void
+  onCancel: () => void
+  // Bumped by the parent whenever a finished run is saved
+  revision: number
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)} s`
+
+// Braking distances are short, so show feet/meters rather than miles/kilometers
+const formatShortDistance = (meters: number, unit: SpeedUnit) =>
+  SPEED_UNITS[unit].feet ? `${Math.round(meters * METERS_TO_FEET)} ft` : `${Math.round(meters)} m`
+
+function describeSplit(split: Split, unit: SpeedUnit) {
+  if (isBrakingSplit(split.id)) return `${formatShortDistance(split.distance, unit)} · ${formatSeconds(split.time)}`
+  const trap =
+    split.id === "eighth-mile" || split.id === "quarter-mile"
+      ? ` @ ${toDisplaySpeed(split.speed, unit).toFixed(1)} ${SPEED_UNITS[unit].label}`
+      : ""
+  return `${formatSeconds(split.time)}${trap}`
+}
+
+// Every unit other than mph times to 100 km/h, see `targetSpeed`
+const targetLabel = (unit: SpeedUnit) => (unit === "mph" ? "60 mph" : "100 kmh")
+
+// Uses the unit the run was armed with; switching units mid-run does not change its target
+function statusText(state: TimerState) {
+  const target = targetLabel(state.unit)
+  switch (state.status) {
+    case "armed":
+      if (state.mode === "braking") return `Accelerate above ${target}`
+      return state.atRest ? "Armed — launch when ready" : "Come to a complete stop to arm"
+    case "ready":
+      return `Brake hard from ${target} to a stop`
+    case "running":
+      return state.mode === "braking" ? "Braking…" : "Running…"
+    case "finished":
+      return state.splits.length > 0 ? "Run complete" : "Run aborted — no marks reached"
+  }
+}
+
+export function PerformanceTimerPanel({
+  unit,
+  isTracking,
+  state,
+  onArm,
+  onCancel,
+  revision,
+}: PerformanceTimerPanelProps) {
+  const [mode, setMode] = useState<TimingMode>("acceleration")
+  const [runs, setRuns] = useState<PerformanceRun[]>([])
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRuns(await listPerformanceRuns())
+    } catch (err) {
+      console.error("Performance run list error:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns, revision])
+
+  const clearRuns = async () => {
+    if (!window.confirm("Clear all timed runs?")) return
+    await clearPerformanceRuns()
+    await loadRuns()
+  }
+
+  const isActive = state !== null && state.status !== "finished"
+  const splitIds = splitsForUnit(unit)
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Performance Timing</div>
+
+      <div className="flex gap-1">
+        {(["acceleration", "braking"] as const).map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant="outline"
+            disabled={isActive}
+            className={cn("flex-1 bg-transparent text-white", mode === option && "border-purple-400 bg-purple-600/30")}
+            onClick={() => setMode(option)}
+          >
+            {option === "acceleration" ? `0–${targetLabel(unit)} · ¼ mile` : `${targetLabel(unit)}–0 braking`}
+          </Button>
+        ))}
+      </div>
+
+      {isActive ? (
+        <Button onClick={onCancel} variant="destructive" className="w-full">
+          Cancel Run
+        </Button>
+      ) : (
+        <Button onClick={() => onArm(mode)} className="w-full bg-purple-600 hover:bg-purple-700" disabled={!isTracking}>
+          <Timer className="w-4 h-4 mr-2" />
+          Arm Timer
+        </Button>
+      )}
+
+      {!isTracking && !isActive && <div className="text-xs text-slate-500">Start tracking to arm the timer.</div>}
+
+      {state && (
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-white">{statusText(state)}</div>
+          {state.status === "running" && (
+            <div className="text-xs text-slate-400">
+              {formatSeconds(state.elapsed)} · {formatShortDistance(state.distance, unit)}
+            </div>
+          )}
+          {state.splits.map((split) => (
+            <div key={split.id} className="flex justify-between text-sm text-white">
+              <span className="text-slate-400">{SPLIT_LABELS[split.id]}</span>
+              <span className="font-mono">{describeSplit(split, unit)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between pt-2">
+        <div className="text-sm text-slate-400">Best Runs</div>
+        {runs.length > 0 && (
+          <Button size="icon" variant="ghost" className="text-red-400" onClick={clearRuns} aria-label="Clear runs">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {runs.length === 0 && <div className="text-xs text-slate-500">Completed runs are ranked here.</div>}
+
+      {runs.length > 0 &&
+        splitIds.map((id) => {
+          const entries = leaderboard(runs, id, 3)
+          if (entries.length === 0) return null
+          return (
+            <div key={id} className="space-y-1">
+              <div className="text-xs text-slate-400">{SPLIT_LABELS[id]}</div>
+              {entries.map((entry, index) => (
+                <div key={entry.runId} className="flex justify-between text-sm text-white">
+                  <span className="text-slate-400">
+                    {index + 1}. {formatDateTime(entry.startedAt)}
+                  </span>
+                  <span className="font-mono">{describeSplit(entry.split, unit)}</span>
+                </div>
+              ))}
+            </div>
+          )
+        })}
+
+      <div className="text-xs text-slate-500">
+        Splits are interpolated between GPS fixes; a 10 Hz receiver gives the most repeatable times. Only time runs on
+        closed roads or tracks.
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { createPortal } from "react-dom"
+import { Button } from "@/components/ui/button"
+import { PictureInPicture2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { createFrameLoop, type FrameLoop } from "@/lib/frame-loop"
+import { getTheme } from "@/lib/overlay-layouts"
+import type { OverlayData } from "@/lib/overlay-renderer"
+import { SPEED_UNITS } from "@/lib/units"
+import {
+  MINI_SPEEDOMETER_FPS,
+  MINI_SPEEDOMETER_SIZE,
+  drawMiniSpeedometer,
+  openDocumentPictureInPicture,
+  pictureInPictureSupport,
+  type PictureInPictureMode,
+} from "@/lib/picture-in-picture"
+
+interface MiniSpeedometerProps {
+  data: OverlayData
+  themeId: string
+}
+
+interface PictureInPictureSpeedometerProps extends MiniSpeedometerProps {
+  // Where the toggle goes; without one the toggle is hidden but an open window stays open
+  buttonContainer: HTMLElement | null
+}
+
+// Rendered into the Document Picture-in-Picture window; the SVG scales with the window
+function MiniSpeedometer({ data, themeId }: MiniSpeedometerProps) {
+  const theme = getTheme(themeId)
+  const fraction = Math.min(data.speed / data.maxDisplaySpeed, 1)
+  const accent = data.isAlertActive ? theme.alert : data.isApproachingLimit ? theme.warning : theme.normal
+
+  return (
+    <div
+      className="flex h-screen w-screen items-center justify-center select-none"
+      style={{ background: `rgb(${theme.background})`, fontFamily: theme.fontFamily }}
+    >
+      <svg viewBox="0 0 100 100" className="h-full w-full">
+        <circle cx="50" cy="50" r="44" fill="none" stroke={theme.ring} strokeWidth="1.5" />
+        <circle
+          cx="50"
+          cy="50"
+          r="40"
+          fill="none"
+          stroke={accent}
+          strokeWidth="4"
+          strokeLinecap="round"
+          pathLength={100}
+          strokeDasharray={`${fraction * 100} 100`}
+          transform="rotate(-90 50 50)"
+        />
+        <text
+          x="50"
+          y="52"
+          textAnchor="middle"
+          fontSize="22"
+          fontWeight="bold"
+          fill={data.isAlertActive ? accent : theme.text}
+          className={cn(data.isAlertActive && "animate-pulse")}
+        >
+          {data.speed.toFixed(0)}
+        </text>
+        <text x="50" y="63" textAnchor="middle" fontSize="8" fill={theme.muted}>
+          {SPEED_UNITS[data.unit].label}
+        </text>
+        {data.zone && (
+          <text x="50" y="74" textAnchor="middle" fontSize="6" fill={data.zone.isOver ? theme.alert : theme.warning}>
+            {data.zone.name}: {data.zone.limit}
+          </text>
+        )}
+        {!data.isConnected && (
+          <text x="50" y="32" textAnchor="middle" fontSize="6" fill={theme.alert}>
+            No GPS
+          </text>
+        )}
+      </svg>
+    </div>
+  )
+}
+
+/**
+ * Toggle for a floating mini speedometer that stays visible over other apps. Keep it mounted for
+ * as long as the window should stay open: unmounting closes it. Uses Document
+ * Picture-in-Picture where available and otherwise streams a canvas into a video element and puts
+ * that in picture-in-picture, which every browser with video PiP supports.
+ */
+export function PictureInPictureSpeedometer({ data, themeId, buttonContainer }: PictureInPictureSpeedometerProps) {
+  const [support, setSupport] = useState<PictureInPictureMode | null>(null)
+  const [pipWindow, setPipWindow] = useState<Window | null>(null)
+  const [isVideoActive, setIsVideoActive] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const frameLoopRef = useRef<FrameLoop | null>(null)
+  const pipWindowRef = useRef<Window | null>(null)
+  // The fallback's frame loop reads these, so it draws the latest reading without restarting
+  const dataRef = useRef(data)
+  const themeIdRef = useRef(themeId)
+  dataRef.current = data
+  themeIdRef.current = themeId
+  pipWindowRef.current = pipWindow
+
+  // Checked after mount so server and client render the same button first
+  useEffect(() => {
+    setSupport(pictureInPictureSupport())
+  }, [])
+
+  const stopVideo = () => {
+    frameLoopRef.current?.stop()
+    frameLoopRef.current = null
+    const video = videoRef.current
+    if (video) {
+      const stream = video.srcObject as MediaStream | null
+      stream?.getTracks().forEach((track) => track.stop())
+      video.srcObject = null
+    }
+    setIsVideoActive(false)
+  }
+
+  useEffect(() => {
+    return () => {
+      pipWindowRef.current?.close()
+      frameLoopRef.current?.stop()
+      if (document.pictureInPictureElement === videoRef.current) document.exitPictureInPicture().catch(() => {})
+    }
+  }, [])
+
+  const openDocument = async () => {
+    const win = await openDocumentPictureInPicture()
+    win.addEventListener("pagehide", () => setPipWindow(null), { once: true })
+    setPipWindow(win)
+  }
+
+  const openVideo = async () => {
+    const video = videoRef.current
+    if (!video) return
+    const canvas = document.createElement("canvas")
+    // Twice the window size so the dial stays sharp on high-density screens
+    canvas.width = MINI_SPEEDOMETER_SIZE * 2
+    canvas.height = MINI_SPEEDOMETER_SIZE * 2
+    frameLoopRef.current = createFrameLoop(
+      () => drawMiniSpeedometer(canvas, dataRef.current, themeIdRef.current),
+      MINI_SPEEDOMETER_FPS,
+    )
+    frameLoopRef.current.start()
+    video.srcObject = canvas.captureStream(MINI_SPEEDOMETER_FPS)
+    await video.play()
+    await video.requestPictureInPicture()
+    video.addEventListener("leavepictureinpicture", stopVideo, { once: true })
+    setIsVideoActive(true)
+  }
+
+  const isActive = pipWindow !== null || isVideoActive
+
+  const toggle = async () => {
+    if (pipWindow) {
+      pipWindow.close()
+      return
+    }
+    if (isVideoActive) {
+      await document.exitPictureInPicture().catch(() => {})
+      return
+    }
+    try {
+      await (support === "document" ? openDocument() : openVideo())
+    } catch (err) {
+      // Refused without a user gesture, or while another window holds picture-in-picture
+      console.error("Picture-in-picture error:", err)
+      stopVideo()
+    }
+  }
+
+  return (
+    <>
+      {buttonContainer &&
+        createPortal(
+          <Button
+            onClick={toggle}
+            variant="outline"
+            size="icon"
+            aria-label="Picture-in-picture speedometer"
+            disabled={support === null}
+            className={cn(isActive && "border-purple-400 text-purple-300")}
+          >
+            <PictureInPicture2 className="w-4 h-4" />
+          </Button>,
+          buttonContainer,
+        )}
+      {support === "video" && (
+        // Kept in the layout but invisible; some browsers refuse picture-in-picture for hidden videos
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className="fixed bottom-0 left-0 h-px w-px opacity-0 pointer-events-none"
+        />
+      )}
+      {pipWindow && createPortal(<MiniSpeedometer data={data} themeId={themeId} />, pipWindow.document.body)}
+    </>
+  )
+}
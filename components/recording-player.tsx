@@ -0,0 +1,224 @@
+"use client"
+
+import { useState, useEffect, useRef, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Download, Scissors } from "lucide-react"
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { downloadBlob } from "@/lib/download"
+import { formatDuration } from "@/lib/format"
+import { makeSeekable, trimVideo, type Recording } from "@/lib/recordings"
+import { probeRecordingFormats } from "@/lib/recording-formats"
+import { serializeTelemetryLog, trimTelemetryLog } from "@/lib/telemetry"
+import { SPEED_UNITS, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface RecordingPlayerProps {
+  recording: Recording
+  unit: SpeedUnit
+}
+
+// Trimmed clips are re-encoded, so prefer the original codec and fall back to anything recordable
+const trimMimeType = (recording: Recording) =>
+  MediaRecorder.isTypeSupported(recording.mimeType) ? recording.mimeType : probeRecordingFormats()[0]?.mimeType
+
+export function RecordingPlayer({ recording, unit }: RecordingPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [videoUrl, setVideoUrl] = useState<string | null>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const durationSeconds = recording.duration / 1000
+  const [trim, setTrim] = useState<[number, number]>([0, durationSeconds])
+  const [trimProgress, setTrimProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(recording.video)
+    setVideoUrl(url)
+    setTrim([0, recording.duration / 1000])
+    setCurrentTime(0)
+    return () => URL.revokeObjectURL(url)
+  }, [recording])
+
+  const chartData = useMemo(
+    () =>
+      recording.telemetry.entries.map((entry) => ({
+        time: entry.offset / 1000,
+        speed: Number(toDisplaySpeed(entry.speed, unit).toFixed(1)),
+      })),
+    [recording, unit],
+  )
+
+  // Latest fix at the playhead
+  const currentSpeed = useMemo(() => {
+    let speed: number | null = null
+    for (const point of chartData) {
+      if (point.time > currentTime) break
+      speed = point.speed
+    }
+    return speed
+  }, [chartData, currentTime])
+
+  const seek = (seconds: number) => {
+    if (!videoRef.current) return
+    videoRef.current.currentTime = Math.min(Math.max(seconds, 0), durationSeconds)
+    setCurrentTime(videoRef.current.currentTime)
+  }
+
+  const baseName = recording.manifest?.video.filename.replace(/\.[^.]+$/, "") ?? `speedometer-recording-${recording.id}`
+  const isTrimmed = trim[0] > 0 || trim[1] < durationSeconds
+
+  const exportClip = async () => {
+    setError(null)
+
+    if (!isTrimmed) {
+      downloadBlob(recording.video, `${baseName}.${recording.extension}`)
+      downloadBlob(
+        new Blob([serializeTelemetryLog(recording.telemetry)], { type: "application/json" }),
+        `${baseName}.telemetry.json`,
+      )
+      if (recording.manifest) {
+        downloadBlob(
+          new Blob([JSON.stringify(recording.manifest, null, 2)], { type: "application/json" }),
+          `${baseName}.manifest.json`,
+        )
+      }
+      return
+    }
+
+    const mimeType = trimMimeType(recording)
+    if (!mimeType) {
+      setError("This browser cannot re-encode video, so clips cannot be trimmed here")
+      return
+    }
+
+    const [startMs, endMs] = [trim[0] * 1000, trim[1] * 1000]
+    const trimmedName = `${baseName}-trim-${Math.round(trim[0])}s-${Math.round(trim[1])}s`
+    try {
+      setTrimProgress(0)
+      const video = await trimVideo(recording.video, startMs, endMs, { mimeType, onProgress: setTrimProgress })
+      downloadBlob(video, `${trimmedName}.${recording.extension}`)
+      downloadBlob(
+        new Blob([serializeTelemetryLog(trimTelemetryLog(recording.telemetry, startMs, endMs))], {
+          type: "application/json",
+        }),
+        `${trimmedName}.telemetry.json`,
+      )
+    } catch (err) {
+      setError("Unable to trim this recording")
+      console.error("Trim error:", err)
+    } finally {
+      setTrimProgress(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {videoUrl && (
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          controls
+          playsInline
+          className="w-full rounded-lg bg-black"
+          onLoadedMetadata={(e) => makeSeekable(e.currentTarget).catch((err) => console.error("Seek error:", err))}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      <div className="flex justify-between text-xs text-slate-400">
+        <span>
+          {formatDuration(currentTime * 1000)} / {formatDuration(recording.duration)}
+        </span>
+        <span className="text-white font-semibold">
+          {currentSpeed !== null ? `${currentSpeed.toFixed(1)} ${SPEED_UNITS[unit].label}` : "No GPS fix"}
+        </span>
+      </div>
+
+      {chartData.length > 1 ? (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={chartData}
+              margin={{ top: 4, right: 8, bottom: 0, left: -20 }}
+              onClick={(state) => state?.activeLabel !== undefined && seek(Number(state.activeLabel))}
+            >
+              <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[0, durationSeconds]}
+                tickFormatter={(value: number) => formatDuration(value * 1000)}
+                stroke="#94a3b8"
+                fontSize={10}
+              />
+              <YAxis stroke="#94a3b8" fontSize={10} />
+              {isTrimmed && <ReferenceArea x1={trim[0]} x2={trim[1]} fill="#8b5cf6" fillOpacity={0.15} />}
+              <Line type="monotone" dataKey="speed" stroke="#8b5cf6" dot={false} isAnimationActive={false} />
+              <ReferenceLine x={currentTime} stroke="#f8fafc" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="text-xs text-slate-500">No telemetry was logged during this recording.</div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs text-slate-400">
+          <span>Trim start {formatDuration(trim[0] * 1000)}</span>
+          <span>End {formatDuration(trim[1] * 1000)}</span>
+        </div>
+        <Slider
+          min={0}
+          max={durationSeconds}
+          step={0.5}
+          value={trim}
+          onValueChange={([start, end]) => setTrim([start, end])}
+          disabled={trimProgress !== null}
+        />
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1 bg-transparent text-white"
+            onClick={() => setTrim(([, end]) => [Math.min(currentTime, end), end])}
+            disabled={trimProgress !== null}
+          >
+            Set Start
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1 bg-transparent text-white"
+            onClick={() => setTrim(([start]) => [start, Math.max(currentTime, start)])}
+            disabled={trimProgress !== null}
+          >
+            Set End
+          </Button>
+        </div>
+      </div>
+
+      <Button
+        onClick={exportClip}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+        disabled={trimProgress !== null}
+      >
+        {isTrimmed ? <Scissors className="w-4 h-4 mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+        {trimProgress !== null
+          ? `Trimming… ${Math.round(trimProgress * 100)}%`
+          : isTrimmed
+            ? `Export ${formatDuration((trim[1] - trim[0]) * 1000)} Clip`
+            : "Download"}
+      </Button>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+    </div>
+  )
+}
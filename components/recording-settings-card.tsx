@@ -0,0 +1,101 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import Link from "next/link"
+import { cn } from "@/lib/utils"
+import {
+  BITRATES,
+  FRAME_RATES,
+  probeRecordingFormats,
+  type RecordingFormat,
+  type RecordingSettings,
+} from "@/lib/recording-formats"
+
+interface RecordingSettingsCardProps {
+  settings: RecordingSettings
+  onChange: (settings: RecordingSettings) => void
+}
+
+function OptionRow<T extends string | number>({
+  label,
+  options,
+  value,
+  onSelect,
+}: {
+  label: string
+  options: { value: T; label: string }[]
+  value: T
+  onSelect: (value: T) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-slate-400">{label}</div>
+      <div className="flex flex-wrap gap-1">
+        {options.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant="outline"
+            className={cn("bg-transparent text-white", value === option.value && "border-purple-400 bg-purple-600/30")}
+            onClick={() => onSelect(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function RecordingSettingsCard({ settings, onChange }: RecordingSettingsCardProps) {
+  const [supportedFormats, setSupportedFormats] = useState<RecordingFormat[] | null>(null)
+
+  // MediaRecorder only exists in the browser, so probe after mount
+  useEffect(() => {
+    setSupportedFormats(probeRecordingFormats())
+  }, [])
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Recording</div>
+
+      {supportedFormats !== null && supportedFormats.length === 0 ? (
+        <div className="text-xs text-red-400">This browser cannot record video (MediaRecorder unavailable).</div>
+      ) : (
+        <OptionRow
+          label="Format"
+          options={[
+            { value: "auto", label: "Auto" },
+            ...(supportedFormats ?? []).map((format) => ({ value: format.id, label: format.label })),
+          ]}
+          value={settings.formatId}
+          onSelect={(formatId) => onChange({ ...settings, formatId })}
+        />
+      )}
+
+      <OptionRow
+        label="Frame rate"
+        options={FRAME_RATES.map((frameRate) => ({ value: frameRate, label: `${frameRate} fps` }))}
+        value={settings.frameRate}
+        onSelect={(frameRate) => onChange({ ...settings, frameRate })}
+      />
+
+      <OptionRow
+        label="Bitrate"
+        options={BITRATES.map((bitrate) => ({ value: bitrate.value, label: bitrate.label }))}
+        value={settings.bitrate}
+        onSelect={(bitrate) => onChange({ ...settings, bitrate })}
+      />
+
+      <div className="text-xs text-slate-500">
+        Camera and resolution are chosen in{" "}
+        <Link href="/settings" className="underline">
+          Settings
+        </Link>
+        .
+      </div>
+    </Card>
+  )
+}
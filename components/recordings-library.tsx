@@ -0,0 +1,174 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { RecordingPlayer } from "@/components/recording-player"
+import { ArrowLeft, Film, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { deleteRecording, getStorageUsage, listRecordings, type Recording, type StorageUsage } from "@/lib/recordings"
+import { formatBytes, formatDateTime, formatDuration } from "@/lib/format"
+import { SPEED_UNITS, distanceLabel, toDisplayDistance, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface RecordingsLibraryProps {
+  unit: SpeedUnit
+}
+
+function Thumbnail({ blob }: { blob: Blob | null }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!blob) return
+    const objectUrl = URL.createObjectURL(blob)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [blob])
+
+  return url ? (
+    <img src={url} alt="" className="w-24 h-14 shrink-0 rounded object-cover bg-black" />
+  ) : (
+    <div className="w-24 h-14 shrink-0 rounded bg-slate-900/60 flex items-center justify-center">
+      <Film className="w-5 h-5 text-slate-500" />
+    </div>
+  )
+}
+
+function StorageMeter({ usage }: { usage: StorageUsage }) {
+  const fraction = usage.quota > 0 ? usage.usage / usage.quota : 0
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-slate-400">
+        <span>Storage</span>
+        <span>
+          {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+        <div
+          className={cn("h-full", fraction > 0.8 ? "bg-red-500" : "bg-purple-500")}
+          style={{ width: `${Math.min(100, fraction * 100)}%` }}
+        />
+      </div>
+      {fraction > 0.8 && (
+        <div className="text-xs text-red-400">
+          Storage is nearly full. Delete old recordings to keep saving new ones.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function RecordingsLibrary({ unit }: RecordingsLibraryProps) {
+  const [recordings, setRecordings] = useState<Recording[]>([])
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Recording | null>(null)
+
+  const loadRecordings = useCallback(async () => {
+    try {
+      setRecordings(await listRecordings())
+      setStorageUsage(await getStorageUsage())
+      setError(null)
+    } catch (err) {
+      setError("Unable to load recordings")
+      console.error("Recordings library error:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRecordings()
+  }, [loadRecordings])
+
+  const removeRecording = async (recording: Recording) => {
+    if (!window.confirm(`Delete "${recording.name}"?`)) return
+    await deleteRecording(recording.id)
+    if (selected?.id === recording.id) setSelected(null)
+    await loadRecordings()
+  }
+
+  const describe = (recording: Recording) =>
+    [
+      formatDuration(recording.duration),
+      formatBytes(recording.size),
+      `${toDisplayDistance(recording.trip.distance, unit).toFixed(2)} ${distanceLabel(unit)}`,
+      `max ${toDisplaySpeed(recording.trip.maxSpeed, unit).toFixed(0)} ${SPEED_UNITS[unit].label}`,
+    ].join(" · ")
+
+  if (selected) {
+    return (
+      <div className="space-y-4">
+        <Button onClick={() => setSelected(null)} variant="outline" className="bg-transparent text-white">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          All Recordings
+        </Button>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              <div className="font-semibold text-white truncate">{selected.name}</div>
+              <div className="text-xs text-slate-400">{describe(selected)}</div>
+            </div>
+            <Button size="icon" variant="ghost" className="text-red-400" onClick={() => removeRecording(selected)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <RecordingPlayer recording={selected} unit={unit} />
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {storageUsage && (
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+          <StorageMeter usage={storageUsage} />
+        </Card>
+      )}
+
+      {isLoading && <div className="text-sm text-slate-400">Loading recordings…</div>}
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {!isLoading && !error && recordings.length === 0 && (
+        <Card className="p-6 bg-slate-800/30 border-slate-700/50 items-center text-center">
+          <Film className="w-8 h-8 text-slate-500" />
+          <div className="text-sm text-slate-400">No recordings yet. Recordings are kept here after you stop them.</div>
+        </Card>
+      )}
+
+      {recordings.map((recording) => (
+        <Card
+          key={recording.id}
+          className="p-3 bg-slate-800/50 border-slate-700 gap-2 cursor-pointer hover:border-purple-500/50"
+          onClick={() => setSelected(recording)}
+        >
+          <div className="flex items-center gap-3">
+            <Thumbnail blob={recording.thumbnail} />
+            <div className="min-w-0 flex-1">
+              <div className="font-semibold text-white truncate">{recording.name}</div>
+              <div className="text-xs text-slate-400">{formatDateTime(recording.startedAt)}</div>
+              <div className="text-xs text-slate-400">{describe(recording)}</div>
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="text-red-400"
+              onClick={(e) => {
+                e.stopPropagation()
+                removeRecording(recording)
+              }}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { FileUp, Pause, Play, X } from "lucide-react"
+import { formatDuration } from "@/lib/format"
+import { parseTrackFile } from "@/lib/track-import"
+import { createReplaySource, REPLAY_RATES, type ReplaySource, type ReplayState } from "@/lib/replay-source"
+
+interface ReplayControlsProps {
+  source: ReplaySource | null
+  fileName: string | null
+  isTracking: boolean
+  onLoad: (source: ReplaySource, fileName: string) => void
+  onUnload: () => void
+  onSeek: (index: number) => void
+}
+
+export function ReplayControls({ source, fileName, isTracking, onLoad, onUnload, onSeek }: ReplayControlsProps) {
+  const [state, setState] = useState<ReplayState | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!source) {
+      setState(null)
+      return
+    }
+    return source.subscribe(setState)
+  }, [source])
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const fixes = parseTrackFile(file.name, await file.text())
+      setLoadError(null)
+      onLoad(createReplaySource(fixes), file.name)
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Unable to read track file")
+      console.error("Replay load error:", err)
+    }
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm text-slate-400">Replay Source</div>
+          <div className="text-sm font-semibold text-white truncate">{fileName ?? "No track file loaded"}</div>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,.kml,.geojson,.json,.nmea,.txt,.log"
+          className="hidden"
+          onChange={handleFile}
+        />
+        {source ? (
+          <Button size="icon" variant="ghost" className="text-slate-300" onClick={onUnload} disabled={isTracking}>
+            <X className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" className="bg-transparent text-white" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="w-4 h-4 mr-2" />
+            Load File
+          </Button>
+        )}
+      </div>
+
+      {loadError && <div className="text-xs text-red-400">{loadError}</div>}
+
+      {source && state && (
+        <>
+          <Slider
+            min={0}
+            max={Math.max(0, state.total - 1)}
+            step={1}
+            value={[state.index]}
+            onValueChange={([index]) => onSeek(index)}
+          />
+          <div className="flex items-center justify-between text-xs text-slate-400 font-mono">
+            <span>{formatDuration(state.elapsed)}</span>
+            <span>
+              {state.index + 1} / {state.total}
+            </span>
+            <span>{formatDuration(state.duration)}</span>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => (state.isPlaying ? source.pause() : source.play())}
+              disabled={!isTracking}
+              className="flex-1 bg-purple-600 hover:bg-purple-700"
+            >
+              {state.isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+              {state.isPlaying ? "Pause" : "Play"}
+            </Button>
+            {REPLAY_RATES.map((rate) => (
+              <Button
+                key={rate}
+                onClick={() => source.setRate(rate)}
+                variant={state.rate === rate ? "default" : "outline"}
+                className={state.rate === rate ? "" : "bg-transparent text-white"}
+              >
+                {rate}x
+              </Button>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  )
+}
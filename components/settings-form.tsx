@@ -0,0 +1,557 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Download, RotateCcw, Upload, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { downloadBlob, fileTimestamp } from "@/lib/download"
+import { RESOLUTIONS } from "@/lib/recording-formats"
+import { SPEED_MODE_LABELS, type SpeedMode } from "@/lib/speed-estimator"
+import { SPEED_UNITS, type SpeedUnit } from "@/lib/units"
+import {
+  DEFAULT_SETTINGS,
+  THEMES,
+  parseSettings,
+  settingsSchema,
+  settingsToJson,
+  type Settings,
+  type Theme,
+} from "@/lib/settings"
+import type { FailedTripUpload } from "@/lib/trip-upload"
+
+interface SettingsFormProps {
+  settings: Settings
+  onSave: (settings: Settings) => void
+  uploads: {
+    pending: number
+    failed: FailedTripUpload[]
+    lastError: string | null
+    isUploading: boolean
+    onUploadNow: () => void
+    onRetry: (id: string) => void
+    onDismiss: (id: string) => void
+  }
+}
+
+function OptionButtons<T extends string>({
+  options,
+  value,
+  onSelect,
+}: {
+  options: { value: T; label: string }[]
+  value: T
+  onSelect: (value: T) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          type="button"
+          size="sm"
+          variant="outline"
+          className={cn("bg-transparent text-white", value === option.value && "border-purple-400 bg-purple-600/30")}
+          onClick={() => onSelect(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+const entries = <K extends string>(record: Record<K, string>) =>
+  (Object.keys(record) as K[]).map((value) => ({ value, label: record[value] }))
+
+const UNIT_OPTIONS = (Object.keys(SPEED_UNITS) as SpeedUnit[]).map((unit) => ({
+  value: unit,
+  label: SPEED_UNITS[unit].label,
+}))
+const FACING_OPTIONS = [
+  { value: "environment" as const, label: "Rear" },
+  { value: "user" as const, label: "Front" },
+]
+
+// Number inputs hand react-hook-form NaN when empty, which the schema reports as "Enter a number"
+const numberInputProps = (field: { value: number; onChange: (value: number) => void }) => ({
+  type: "number",
+  value: Number.isNaN(field.value) ? "" : field.value,
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => field.onChange(e.target.valueAsNumber),
+})
+
+export function SettingsForm({ settings, onSave, uploads }: SettingsFormProps) {
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const form = useForm<Settings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings,
+  })
+
+  // Stored settings arrive after mount
+  useEffect(() => {
+    form.reset(settings)
+  }, [form, settings])
+
+  const save = (values: Settings) => {
+    onSave(values)
+    setMessage({ text: "Settings saved", isError: false })
+  }
+
+  const resetToDefaults = () => {
+    if (!window.confirm("Reset all settings to their defaults?")) return
+    form.reset(DEFAULT_SETTINGS)
+    save(DEFAULT_SETTINGS)
+  }
+
+  // Exports what is saved, not unsaved edits in the form
+  const exportSettings = () => {
+    downloadBlob(
+      new Blob([settingsToJson(settings)], { type: "application/json" }),
+      `speedometer-settings-${fileTimestamp()}.json`,
+    )
+  }
+
+  const importSettings = async (file: File) => {
+    try {
+      const parsed = parseSettings(JSON.parse(await file.text()))
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0]
+        setMessage({ text: `Invalid settings file: ${issue.path.join(".") || "file"} ${issue.message}`, isError: true })
+        return
+      }
+      form.reset(parsed.data)
+      save(parsed.data)
+      setMessage({ text: `Imported ${file.name}`, isError: false })
+    } catch (err) {
+      setMessage({ text: "Unable to read settings file", isError: true })
+      console.error("Settings import error:", err)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(save)} className="space-y-4 text-white">
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">Display</div>
+
+          <FormField
+            control={form.control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Speed unit</FormLabel>
+                <OptionButtons options={UNIT_OPTIONS} value={field.value} onSelect={field.onChange} />
+                <FormDescription className="text-slate-400 text-xs">
+                  Distances follow the unit: miles, kilometers or nautical miles.
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="dialMax"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dial range</FormLabel>
+                <FormControl>
+                  <Input {...numberInputProps(field)} step={10} className="bg-slate-900/50" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  Full-scale speed of the dial and video overlay, in the selected unit.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="theme"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Theme</FormLabel>
+                <OptionButtons<Theme> options={entries(THEMES)} value={field.value} onSelect={field.onChange} />
+              </FormItem>
+            )}
+          />
+        </Card>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">Speed Smoothing</div>
+
+          <FormField
+            control={form.control}
+            name="smoothing.mode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Mode</FormLabel>
+                <OptionButtons<SpeedMode>
+                  options={entries(SPEED_MODE_LABELS)}
+                  value={field.value}
+                  onSelect={field.onChange}
+                />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="smoothing.window"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Averaging window (fixes)</FormLabel>
+                <FormControl>
+                  <Input {...numberInputProps(field)} className="bg-slate-900/50" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  Used by the Average mode. Larger windows are steadier but lag behind changes in speed.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </Card>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">GPS</div>
+
+          <FormField
+            control={form.control}
+            name="gps.enableHighAccuracy"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between">
+                <FormLabel>High accuracy</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gps.timeout"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fix timeout (ms)</FormLabel>
+                <FormControl>
+                  <Input {...numberInputProps(field)} step={1000} className="bg-slate-900/50" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  How long to wait for a fix before reporting a timeout.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gps.maximumAge"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Maximum fix age (ms)</FormLabel>
+                <FormControl>
+                  <Input {...numberInputProps(field)} step={500} className="bg-slate-900/50" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  Cached positions up to this old may be reused. 0 always asks for a fresh fix.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </Card>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">Camera</div>
+
+          <FormField
+            control={form.control}
+            name="camera.facingMode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Camera</FormLabel>
+                <OptionButtons options={FACING_OPTIONS} value={field.value} onSelect={field.onChange} />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="camera.resolutionId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Resolution</FormLabel>
+                <OptionButtons
+                  options={RESOLUTIONS.map((resolution) => ({ value: resolution.id, label: resolution.label }))}
+                  value={field.value}
+                  onSelect={field.onChange}
+                />
+                <FormDescription className="text-slate-400 text-xs">
+                  Applies the next time the camera starts; the browser may pick the closest size it supports.
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+        </Card>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">Map</div>
+
+          <FormField
+            control={form.control}
+            name="map.tileUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tile URL template</FormLabel>
+                <FormControl>
+                  <Input {...field} spellCheck={false} className="bg-slate-900/50 font-mono text-xs" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  {
+                    "Use {z}, {x} and {y} (and optionally {s}). Point it at a local tile server or a path such as /tiles/{z}/{x}/{y}.png for offline use."
+                  }
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="map.offlineTiles"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Keep tiles for offline use</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </div>
+                <FormDescription className="text-slate-400 text-xs">
+                  Needs a tile server that sends CORS headers. Turn off if tiles fail to load from a server that does
+                  not.
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="map.attribution"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Attribution</FormLabel>
+                <FormControl>
+                  <Input {...field} className="bg-slate-900/50" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </Card>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">Live Sharing</div>
+
+          <FormField
+            control={form.control}
+            name="liveShare.relayUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Relay URL</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    placeholder="This app"
+                    spellCheck={false}
+                    className="bg-slate-900/50 font-mono text-xs"
+                  />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  Leave empty to share through this app, or enter the address of a self-hosted copy such as
+                  https://relay.example.com.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </Card>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="text-sm text-slate-400">Fleet</div>
+
+          <FormField
+            control={form.control}
+            name="fleet.uploadTrips"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between">
+                <FormLabel>Upload trips</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="fleet.driverName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Driver name</FormLabel>
+                <FormControl>
+                  <Input {...field} className="bg-slate-900/50" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  Trips are grouped by this name on the fleet dashboard.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="fleet.serverUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fleet server URL</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    placeholder="This app"
+                    spellCheck={false}
+                    className="bg-slate-900/50 font-mono text-xs"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="fleet.apiToken"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>API token</FormLabel>
+                <FormControl>
+                  <Input {...field} type="password" autoComplete="off" className="bg-slate-900/50" />
+                </FormControl>
+                <FormDescription className="text-slate-400 text-xs">
+                  Only needed when the server sets FLEET_API_TOKEN.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {settings.fleet.uploadTrips && (
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className={uploads.lastError ? "text-amber-300" : "text-slate-400"}>
+                {uploads.pending === 0
+                  ? "All trips uploaded"
+                  : `${uploads.pending} ${uploads.pending === 1 ? "trip" : "trips"} waiting to upload`}
+                {uploads.lastError && ` · ${uploads.lastError}`}
+              </span>
+              {uploads.pending > 0 && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="bg-transparent text-white"
+                  disabled={uploads.isUploading}
+                  onClick={uploads.onUploadNow}
+                >
+                  Upload now
+                </Button>
+              )}
+            </div>
+          )}
+
+          {settings.fleet.uploadTrips && uploads.failed.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs text-red-400">Refused by the fleet server</div>
+              {uploads.failed.map((failed) => (
+                <div key={failed.id} className="flex items-center justify-between gap-2 text-xs">
+                  <div className="min-w-0">
+                    <div className="text-white truncate">{failed.name}</div>
+                    <div className="text-slate-400">{failed.error}</div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="bg-transparent text-white"
+                      onClick={() => uploads.onRetry(failed.id)}
+                    >
+                      Retry
+                    </Button>
+                    <button
+                      type="button"
+                      onClick={() => uploads.onDismiss(failed.id)}
+                      className="text-slate-400 hover:text-white"
+                      aria-label={`Dismiss ${failed.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {message && (
+          <div className={cn("text-sm", message.isError ? "text-red-400" : "text-green-400")}>{message.text}</div>
+        )}
+
+        <Button type="submit" className="w-full bg-purple-600 hover:bg-purple-700" disabled={!form.formState.isDirty}>
+          Save Settings
+        </Button>
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button type="button" variant="outline" className="bg-transparent" onClick={exportSettings}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button type="button" variant="outline" className="bg-transparent" onClick={resetToDefaults}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ""
+            if (file) importSettings(file)
+          }}
+        />
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Plus, X } from "lucide-react"
+import { hysteresisFor, thresholdsFor, type SpeedAlertSettings } from "@/lib/speed-alerts"
+import { SPEED_UNITS, type SpeedUnit } from "@/lib/units"
+
+interface SpeedAlertSettingsProps {
+  settings: SpeedAlertSettings
+  unit: SpeedUnit
+  onChange: (settings: SpeedAlertSettings) => void
+}
+
+export function SpeedAlertSettingsCard({ settings, unit, onChange }: SpeedAlertSettingsProps) {
+  const [newThreshold, setNewThreshold] = useState("")
+  const thresholds = [...thresholdsFor(settings, unit)].sort((a, b) => a - b)
+
+  const setThresholds = (next: number[]) => {
+    onChange({ ...settings, thresholds: { ...settings.thresholds, [unit]: next } })
+  }
+
+  const addThreshold = () => {
+    const value = Number(newThreshold)
+    if (!Number.isFinite(value) || value <= 0 || thresholds.includes(value)) return
+    setThresholds([...thresholds, value])
+    setNewThreshold("")
+  }
+
+  const toggles: { key: "enabled" | "sound" | "vibration"; label: string }[] = [
+    { key: "enabled", label: "Speed alerts" },
+    { key: "sound", label: "Chime" },
+    { key: "vibration", label: "Vibrate" },
+  ]
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="text-sm text-slate-400">Speed Alerts ({SPEED_UNITS[unit].label})</div>
+
+      {toggles.map(({ key, label }) => (
+        <label key={key} className="flex items-center justify-between text-sm text-white">
+          {label}
+          <Switch
+            checked={settings[key]}
+            onCheckedChange={(checked) => onChange({ ...settings, [key]: checked })}
+            disabled={key !== "enabled" && !settings.enabled}
+          />
+        </label>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {thresholds.map((threshold) => (
+          <span
+            key={threshold}
+            className="inline-flex items-center gap-1 rounded-full bg-purple-600/30 px-3 py-1 text-sm text-white"
+          >
+            {threshold}
+            <button
+              onClick={() => setThresholds(thresholds.filter((t) => t !== threshold))}
+              className="text-purple-300 hover:text-white"
+              aria-label={`Remove ${threshold} ${SPEED_UNITS[unit].label} alert`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {thresholds.length === 0 && <span className="text-xs text-slate-500">No thresholds set</span>}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          min={1}
+          placeholder={`Limit in ${SPEED_UNITS[unit].label}`}
+          value={newThreshold}
+          onChange={(e) => setNewThreshold(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addThreshold()}
+          className="text-white"
+        />
+        <Button onClick={addThreshold} variant="outline" className="bg-transparent text-white">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <label className="flex items-center justify-between gap-4 text-sm text-white">
+        Hysteresis ({SPEED_UNITS[unit].label})
+        <Input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step={0.5}
+          value={hysteresisFor(settings, unit)}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              hysteresis: { ...settings.hysteresis, [unit]: Math.max(0, Number(e.target.value) || 0) },
+            })
+          }
+          className="w-24 text-white"
+        />
+      </label>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { FileUp, Trash2, X } from "lucide-react"
+import { formatDateTime, formatDuration } from "@/lib/format"
+import { clearViolations, listViolations, parseSpeedZones, type SpeedZone, type ZoneViolation } from "@/lib/speed-zones"
+import { SPEED_UNITS } from "@/lib/units"
+
+interface SpeedZonesPanelProps {
+  zones: SpeedZone[]
+  onZonesChange: (zones: SpeedZone[]) => void
+  // Bumped by the parent whenever a violation is logged so the list refreshes
+  violationCount: number
+}
+
+const MAX_LISTED_VIOLATIONS = 20
+
+export function SpeedZonesPanel({ zones, onZonesChange, violationCount }: SpeedZonesPanelProps) {
+  const [violations, setViolations] = useState<ZoneViolation[]>([])
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadViolations = useCallback(async () => {
+    try {
+      setViolations(await listViolations())
+    } catch (err) {
+      console.error("Zone violation log error:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadViolations()
+  }, [loadViolations, violationCount])
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = parseSpeedZones(await file.text())
+      setImportError(null)
+      onZonesChange([...zones, ...imported])
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Unable to read zone file")
+      console.error("Zone import error:", err)
+    }
+  }
+
+  const clearLog = async () => {
+    if (!window.confirm("Clear the zone violation log?")) return
+    await clearViolations()
+    await loadViolations()
+  }
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-400">Speed Zones</div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.geojson,application/json,application/geo+json"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <Button variant="outline" className="bg-transparent text-white" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </div>
+
+      {importError && <div className="text-xs text-red-400">{importError}</div>}
+
+      {zones.length === 0 ? (
+        <div className="text-xs text-slate-500">
+          Import a GeoJSON FeatureCollection (Polygon, MultiPolygon or LineString corridors with a speed limit property)
+          or a {"{ zones: [...] }"} JSON file.
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {zones.map((zone) => (
+            <div key={zone.id} className="flex items-center justify-between text-sm text-white">
+              <span className="truncate">
+                {zone.name}
+                <span className="text-slate-400">
+                  {" "}
+                  · {zone.shape.type === "corridor" ? `${zone.shape.width}m corridor` : "area"}
+                </span>
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="font-mono">
+                  {zone.limit} {SPEED_UNITS[zone.unit].label}
+                </span>
+                <button
+                  onClick={() => onZonesChange(zones.filter((z) => z.id !== zone.id))}
+                  className="text-slate-400 hover:text-white"
+                  aria-label={`Remove ${zone.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between pt-2">
+        <div className="text-sm text-slate-400">Violations ({violations.length})</div>
+        {violations.length > 0 && (
+          <Button size="icon" variant="ghost" className="text-red-400" onClick={clearLog}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {violations.slice(0, MAX_LISTED_VIOLATIONS).map((violation) => (
+        <div key={violation.id} className="text-xs text-slate-300 flex justify-between gap-2">
+          <span className="truncate">
+            {violation.zoneName} · {formatDateTime(violation.startedAt)} ·{" "}
+            {formatDuration(violation.endedAt - violation.startedAt)}
+          </span>
+          <span className="font-mono text-red-400 whitespace-nowrap">
+            {violation.peakSpeed.toFixed(0)}/{violation.limit} {SPEED_UNITS[violation.unit].label}
+          </span>
+        </div>
+      ))}
+    </Card>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Captions, FileSpreadsheet } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { downloadBlob } from "@/lib/download"
+import type { RecordingEvidence } from "@/lib/evidence"
+import { serializeTelemetry, type TelemetryFormat } from "@/lib/telemetry"
+import type { SpeedUnit } from "@/lib/units"
+
+const FORMATS: { format: TelemetryFormat; label: string; icon: typeof Captions }[] = [
+  { format: "vtt", label: "VTT", icon: Captions },
+  { format: "srt", label: "SRT", icon: Captions },
+  { format: "csv", label: "CSV", icon: FileSpreadsheet },
+]
+
+interface TelemetryExportButtonsProps {
+  evidence: RecordingEvidence
+  unit: SpeedUnit
+  className?: string
+  buttonClassName?: string
+}
+
+// Subtitle tracks share the video's base name so players pick them up automatically
+export function TelemetryExportButtons({ evidence, unit, className, buttonClassName }: TelemetryExportButtonsProps) {
+  const durationMs = Date.parse(evidence.manifest.recording.endedAt) - evidence.telemetry.recordingStartedAt
+
+  const exportTelemetry = (format: TelemetryFormat) => {
+    const { content, mimeType, extension } = serializeTelemetry(format, evidence.telemetry, unit, durationMs)
+    downloadBlob(new Blob([content], { type: mimeType }), `${evidence.baseName}.${extension}`)
+  }
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      {FORMATS.map(({ format, label, icon: Icon }) => (
+        <Button
+          key={format}
+          onClick={() => exportTelemetry(format)}
+          disabled={evidence.telemetry.entries.length === 0}
+          variant="outline"
+          className={buttonClassName}
+        >
+          <Icon className="w-4 h-4 mr-1" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  )
+}
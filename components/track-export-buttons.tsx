@@ -0,0 +1,46 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { FileDown } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { downloadBlob, fileTimestamp } from "@/lib/download"
+import { serializeTrack, type TrackFormat } from "@/lib/track-export"
+import type { TripSample } from "@/lib/types"
+
+const FORMATS: { format: TrackFormat; label: string }[] = [
+  { format: "gpx", label: "GPX" },
+  { format: "kml", label: "KML" },
+  { format: "geojson", label: "GeoJSON" },
+]
+
+interface TrackExportButtonsProps {
+  samples: TripSample[]
+  name: string
+  className?: string
+  buttonClassName?: string
+}
+
+export function TrackExportButtons({ samples, name, className, buttonClassName }: TrackExportButtonsProps) {
+  const exportTrack = (format: TrackFormat) => {
+    const { content, mimeType, extension } = serializeTrack(format, samples, name)
+    const startedAt = samples.length > 0 ? new Date(samples[0].timestamp) : new Date()
+    downloadBlob(new Blob([content], { type: mimeType }), `speedometer-track-${fileTimestamp(startedAt)}.${extension}`)
+  }
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      {FORMATS.map(({ format, label }) => (
+        <Button
+          key={format}
+          onClick={() => exportTrack(format)}
+          disabled={samples.length < 2}
+          variant="outline"
+          className={buttonClassName}
+        >
+          <FileDown className="w-4 h-4 mr-1" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  )
+}
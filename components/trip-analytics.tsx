@@ -0,0 +1,230 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { cn } from "@/lib/utils"
+import { formatDuration } from "@/lib/format"
+import { analyzeTrip, timeInSpeedBands } from "@/lib/trip-analytics"
+import type { TripSample } from "@/lib/types"
+import {
+  SPEED_UNITS,
+  altitudeLabel,
+  distanceLabel,
+  toDisplayAltitude,
+  toDisplayDistance,
+  toDisplaySpeed,
+  type SpeedUnit,
+} from "@/lib/units"
+
+interface TripAnalyticsProps {
+  samples: TripSample[]
+  unit: SpeedUnit
+}
+
+const BAND_WIDTHS: Record<SpeedUnit, number> = { mph: 10, kmh: 20, knots: 10, mps: 5 }
+
+type ChartId = "time" | "distance" | "elevation" | "bands"
+
+const CHARTS: { id: ChartId; label: string }[] = [
+  { id: "time", label: "Speed/Time" },
+  { id: "distance", label: "Speed/Dist" },
+  { id: "elevation", label: "Elevation" },
+  { id: "bands", label: "Bands" },
+]
+
+const AXIS_PROPS = { stroke: "#94a3b8", fontSize: 10 }
+const TOOLTIP_PROPS = {
+  contentStyle: { background: "#0f172a", border: "1px solid #334155", fontSize: 12 },
+  labelStyle: { color: "#94a3b8" },
+}
+
+export function TripAnalytics({ samples, unit }: TripAnalyticsProps) {
+  const [chart, setChart] = useState<ChartId>("time")
+
+  if (samples.length < 2) {
+    return <div className="text-xs text-slate-500">Analytics appear once at least two GPS fixes are recorded.</div>
+  }
+
+  const analytics = analyzeTrip(samples)
+  const speedLabel = SPEED_UNITS[unit].label
+  const altitudeText = (meters: number) => Math.round(toDisplayAltitude(meters, unit))
+  const data = analytics.series.map((point) => ({
+    time: point.time,
+    distance: Number(toDisplayDistance(point.distance, unit).toFixed(3)),
+    speed: Number(toDisplaySpeed(point.speed, unit).toFixed(1)),
+    altitude: point.altitude !== null ? altitudeText(point.altitude) : null,
+  }))
+  const bands = timeInSpeedBands(samples, unit, BAND_WIDTHS[unit]).map((band) => ({
+    ...band,
+    minutes: Number((band.duration / 60000).toFixed(1)),
+  }))
+
+  const summary = [
+    { label: "Distance", value: `${toDisplayDistance(analytics.distance, unit).toFixed(2)} ${distanceLabel(unit)}` },
+    { label: "Duration", value: formatDuration(analytics.duration) },
+    { label: "Moving", value: formatDuration(analytics.movingTime) },
+    { label: "Stopped", value: formatDuration(analytics.stoppedTime) },
+    {
+      label: "Avg Moving",
+      value: `${toDisplaySpeed(analytics.averageMovingSpeed, unit).toFixed(1)} ${speedLabel}`,
+    },
+    { label: "Max Speed", value: `${toDisplaySpeed(analytics.maxSpeed, unit).toFixed(1)} ${speedLabel}` },
+    ...(analytics.elevation
+      ? [
+          {
+            label: "Climb",
+            value: `+${altitudeText(analytics.elevation.gain)} / −${altitudeText(analytics.elevation.loss)} ${altitudeLabel(unit)}`,
+          },
+          {
+            label: "Elevation",
+            value: `${altitudeText(analytics.elevation.min)}–${altitudeText(analytics.elevation.max)} ${altitudeLabel(unit)}`,
+          },
+        ]
+      : []),
+  ]
+
+  const renderChart = () => {
+    switch (chart) {
+      case "time":
+        return (
+          <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => formatDuration(value * 1000)}
+              {...AXIS_PROPS}
+            />
+            <YAxis {...AXIS_PROPS} />
+            <Tooltip
+              {...TOOLTIP_PROPS}
+              labelFormatter={(value: number) => formatDuration(value * 1000)}
+              formatter={(value: number) => [`${value} ${speedLabel}`, "Speed"]}
+            />
+            <Line type="monotone" dataKey="speed" stroke="#8b5cf6" dot={false} isAnimationActive={false} />
+          </LineChart>
+        )
+      case "distance":
+        return (
+          <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="distance"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => value.toFixed(1)}
+              unit={` ${distanceLabel(unit)}`}
+              {...AXIS_PROPS}
+            />
+            <YAxis {...AXIS_PROPS} />
+            <Tooltip
+              {...TOOLTIP_PROPS}
+              labelFormatter={(value: number) => `${value.toFixed(2)} ${distanceLabel(unit)}`}
+              formatter={(value: number) => [`${value} ${speedLabel}`, "Speed"]}
+            />
+            <Line type="monotone" dataKey="speed" stroke="#22c55e" dot={false} isAnimationActive={false} />
+          </LineChart>
+        )
+      case "elevation":
+        return (
+          <AreaChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -12 }}>
+            <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="distance"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => value.toFixed(1)}
+              unit={` ${distanceLabel(unit)}`}
+              {...AXIS_PROPS}
+            />
+            <YAxis domain={["dataMin", "dataMax"]} {...AXIS_PROPS} />
+            <Tooltip
+              {...TOOLTIP_PROPS}
+              labelFormatter={(value: number) => `${value.toFixed(2)} ${distanceLabel(unit)}`}
+              formatter={(value: number) => [`${value} ${altitudeLabel(unit)}`, "Elevation"]}
+            />
+            <Area
+              type="monotone"
+              dataKey="altitude"
+              stroke="#f59e0b"
+              fill="#f59e0b"
+              fillOpacity={0.2}
+              connectNulls
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        )
+      case "bands":
+        return (
+          <BarChart data={bands} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+            <XAxis dataKey="label" {...AXIS_PROPS} />
+            <YAxis unit="m" {...AXIS_PROPS} />
+            <Tooltip
+              {...TOOLTIP_PROPS}
+              labelFormatter={(label: string) => `${label} ${speedLabel}`}
+              formatter={(_value: number, _name: string, item: { payload?: { duration: number } }) => [
+                formatDuration(item.payload?.duration ?? 0),
+                "Time",
+              ]}
+            />
+            <Bar dataKey="minutes" fill="#8b5cf6" isAnimationActive={false} />
+          </BarChart>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {summary.map((stat) => (
+          <div key={stat.label}>
+            <div className="text-xs text-slate-400">{stat.label}</div>
+            <div className="text-sm font-bold text-white">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        {CHARTS.map(({ id, label }) => (
+          <Button
+            key={id}
+            size="sm"
+            variant="outline"
+            className={cn(
+              "flex-1 px-1 text-xs bg-transparent text-white",
+              chart === id && "border-purple-400 bg-purple-600/30",
+            )}
+            onClick={() => setChart(id)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {chart === "elevation" && !analytics.elevation ? (
+        <div className="text-xs text-slate-500">No altitude was reported for this trip.</div>
+      ) : (
+        <div className="h-44">
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart()}
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
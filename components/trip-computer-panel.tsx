@@ -0,0 +1,175 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Flag, RotateCcw, X } from "lucide-react"
+import { formatDuration } from "@/lib/format"
+import type { LatLng } from "@/lib/geo"
+import {
+  averageSpeeds,
+  createOdometer,
+  estimateArrival,
+  parseCoordinates,
+  type Odometer,
+  type TripComputerState,
+  type TripMeter,
+} from "@/lib/trip-computer"
+import { SPEED_UNITS, distanceLabel, toDisplayDistance, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+interface TripComputerPanelProps {
+  state: TripComputerState
+  onChange: (update: (prev: TripComputerState) => TripComputerState) => void
+  unit: SpeedUnit
+  position: LatLng | null
+}
+
+const METER_LABELS: Record<TripMeter, string> = { tripA: "Trip A", tripB: "Trip B" }
+
+export function TripComputerPanel({ state, onChange, unit, position }: TripComputerPanelProps) {
+  const [destinationInput, setDestinationInput] = useState("")
+  const [destinationName, setDestinationName] = useState("")
+  const [inputError, setInputError] = useState<string | null>(null)
+
+  const formatDistance = (meters: number, digits = 1) =>
+    `${toDisplayDistance(meters, unit).toFixed(digits)} ${distanceLabel(unit)}`
+  const formatSpeed = (mph: number) => `${toDisplaySpeed(mph, unit).toFixed(1)} ${SPEED_UNITS[unit].label}`
+
+  const resetMeter = (meter: TripMeter) => {
+    if (!window.confirm(`Reset ${METER_LABELS[meter]}?`)) return
+    onChange((prev) => ({ ...prev, [meter]: createOdometer() }))
+  }
+
+  const setDestination = () => {
+    const coordinates = parseCoordinates(destinationInput)
+    if (!coordinates) {
+      setInputError("Enter coordinates as latitude, longitude (e.g. 51.5007, -0.1246)")
+      return
+    }
+    setInputError(null)
+    onChange((prev) => ({ ...prev, destination: { ...coordinates, name: destinationName.trim() || "Destination" } }))
+    setDestinationInput("")
+    setDestinationName("")
+  }
+
+  const renderMeter = (meter: TripMeter, odometer: Odometer) => {
+    const averages = averageSpeeds(odometer)
+    const stats = [
+      { label: "Distance", value: formatDistance(odometer.distance, 2) },
+      { label: "Elapsed", value: formatDuration(odometer.elapsedTime) },
+      { label: "Moving", value: formatDuration(odometer.movingTime) },
+      { label: "Avg / Moving Avg", value: `${formatSpeed(averages.overall)} / ${formatSpeed(averages.moving)}` },
+    ]
+
+    return (
+      <div key={meter} className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold text-white">{METER_LABELS[meter]}</div>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-slate-300"
+            onClick={() => resetMeter(meter)}
+            aria-label={`Reset ${METER_LABELS[meter]}`}
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {stats.map((stat) => (
+            <div key={stat.label}>
+              <div className="text-xs text-slate-400">{stat.label}</div>
+              <div className="text-sm font-bold text-white">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const arrival =
+    state.destination && position
+      ? estimateArrival(position, state.destination, averageSpeeds(state.tripA).overall)
+      : null
+
+  return (
+    <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-400">Trip Computer</div>
+        <div className="text-xs text-slate-400">
+          Odometer <span className="font-mono text-white">{formatDistance(state.lifetime)}</span>
+        </div>
+      </div>
+
+      {renderMeter("tripA", state.tripA)}
+      {renderMeter("tripB", state.tripB)}
+
+      <div className="space-y-2">
+        <div className="text-sm font-semibold text-white">Destination</div>
+        {state.destination ? (
+          <>
+            <div className="flex items-center justify-between gap-2 text-sm text-white">
+              <div className="min-w-0">
+                <div className="truncate">{state.destination.name}</div>
+                <div className="text-xs text-slate-400">
+                  {state.destination.latitude.toFixed(5)}, {state.destination.longitude.toFixed(5)}
+                </div>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-slate-400"
+                onClick={() => onChange((prev) => ({ ...prev, destination: null }))}
+                aria-label="Clear destination"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            {arrival ? (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <div className="text-xs text-slate-400">Remaining (straight line)</div>
+                  <div className="text-sm font-bold text-white">{formatDistance(arrival.remaining)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-400">ETA at Trip A average</div>
+                  <div className="text-sm font-bold text-white">
+                    {arrival.arrivesAt !== null && arrival.timeRemaining !== null
+                      ? `${new Date(arrival.arrivesAt).toLocaleTimeString(undefined, { timeStyle: "short" })} (${formatDuration(arrival.timeRemaining)})`
+                      : "--"}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-slate-500">Waiting for a GPS fix…</div>
+            )}
+          </>
+        ) : (
+          <>
+            <Input
+              value={destinationName}
+              onChange={(e) => setDestinationName(e.target.value)}
+              placeholder="Name (optional)"
+              className="h-8 text-white"
+            />
+            <div className="flex gap-2">
+              <Input
+                value={destinationInput}
+                onChange={(e) => setDestinationInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && setDestination()}
+                placeholder="Latitude, longitude"
+                className="h-8 text-white"
+              />
+              <Button size="sm" variant="outline" className="bg-transparent text-white" onClick={setDestination}>
+                <Flag className="w-4 h-4 mr-1" />
+                Set
+              </Button>
+            </div>
+            {inputError && <div className="text-xs text-red-400">{inputError}</div>}
+          </>
+        )}
+      </div>
+    </Card>
+  )
+}
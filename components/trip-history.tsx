@@ -0,0 +1,223 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { TrackExportButtons } from "@/components/track-export-buttons"
+import { TripAnalytics } from "@/components/trip-analytics"
+import { BehaviorEventList, SafetyScoreBadge } from "@/components/driving-events"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { ArrowLeft, Pencil, Trash2, Check, X, Route } from "lucide-react"
+import { listTrips, renameTrip, deleteTrip, isReplayTrip, type Trip } from "@/lib/trips"
+import { formatDateTime, formatDuration } from "@/lib/format"
+import { SPEED_UNITS, toDisplaySpeed, toDisplayDistance, distanceLabel, type SpeedUnit } from "@/lib/units"
+import type { LatLng } from "@/lib/geo"
+import { analyzeDriving, DEFAULT_BEHAVIOR_THRESHOLDS, DRIVING_BEHAVIOR_STORAGE_KEY } from "@/lib/driver-behavior"
+
+interface TripHistoryProps {
+  unit: SpeedUnit
+}
+
+// Markers highlight points along the route, such as where speeding started
+export function TripRoute({ trip, markers = [] }: { trip: Trip; markers?: LatLng[] }) {
+  if (trip.samples.length < 2) return null
+
+  const lats = trip.samples.map((s) => s.latitude)
+  const lons = trip.samples.map((s) => s.longitude)
+  const minLat = Math.min(...lats)
+  const maxLat = Math.max(...lats)
+  const minLon = Math.min(...lons)
+  const maxLon = Math.max(...lons)
+  const span = Math.max(maxLat - minLat, maxLon - minLon) || 1
+
+  // Project into a 100x100 box, flipping latitude so north is up
+  const x = (point: LatLng) => ((point.longitude - minLon) / span) * 90 + 5
+  const y = (point: LatLng) => 95 - ((point.latitude - minLat) / span) * 90
+  const points = trip.samples.map((s) => `${x(s).toFixed(2)},${y(s).toFixed(2)}`).join(" ")
+
+  return (
+    <svg viewBox="0 0 100 100" className="w-full h-48 rounded-lg bg-slate-900/60">
+      <polyline points={points} fill="none" stroke="#8b5cf6" strokeWidth="1.5" strokeLinejoin="round" />
+      {markers.map((marker, index) => (
+        <circle key={index} cx={x(marker)} cy={y(marker)} r="2" fill="#ef4444" stroke="#ffffff" strokeWidth="0.5" />
+      ))}
+    </svg>
+  )
+}
+
+export function TripHistory({ unit }: TripHistoryProps) {
+  const [trips, setTrips] = useState<Trip[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+  const [thresholds] = useStoredState(DRIVING_BEHAVIOR_STORAGE_KEY, DEFAULT_BEHAVIOR_THRESHOLDS)
+  const driving = useMemo(
+    () => (selectedTrip ? analyzeDriving(selectedTrip.samples, thresholds) : null),
+    [selectedTrip, thresholds],
+  )
+
+  const loadTrips = useCallback(async () => {
+    try {
+      setTrips(await listTrips())
+      setError(null)
+    } catch (err) {
+      setError("Unable to load trip history")
+      console.error("Trip history error:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTrips()
+  }, [loadTrips])
+
+  const startRename = (trip: Trip) => {
+    setEditingId(trip.id)
+    setEditingName(trip.name)
+  }
+
+  const commitRename = async () => {
+    if (!editingId) return
+    const name = editingName.trim()
+    if (name) {
+      await renameTrip(editingId, name)
+      setSelectedTrip((prev) => (prev && prev.id === editingId ? { ...prev, name } : prev))
+      await loadTrips()
+    }
+    setEditingId(null)
+  }
+
+  const removeTrip = async (trip: Trip) => {
+    if (!window.confirm(`Delete "${trip.name}"?`)) return
+    await deleteTrip(trip.id)
+    if (selectedTrip?.id === trip.id) setSelectedTrip(null)
+    await loadTrips()
+  }
+
+  const renderName = (trip: Trip) =>
+    editingId === trip.id ? (
+      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+        <Input
+          value={editingName}
+          onChange={(e) => setEditingName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename()
+            if (e.key === "Escape") setEditingId(null)
+          }}
+          className="h-8 text-white"
+          autoFocus
+        />
+        <Button size="icon" variant="ghost" className="text-green-400" onClick={commitRename}>
+          <Check className="w-4 h-4" />
+        </Button>
+        <Button size="icon" variant="ghost" className="text-slate-400" onClick={() => setEditingId(null)}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    ) : (
+      <div className="font-semibold text-white truncate">{trip.name}</div>
+    )
+
+  const renderActions = (trip: Trip) => (
+    <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+      <Button size="icon" variant="ghost" className="text-slate-300" onClick={() => startRename(trip)}>
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <Button size="icon" variant="ghost" className="text-red-400" onClick={() => removeTrip(trip)}>
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+
+  if (selectedTrip) {
+    return (
+      <div className="space-y-4">
+        <Button onClick={() => setSelectedTrip(null)} variant="outline" className="bg-transparent text-white">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          All Trips
+        </Button>
+
+        <Card className="p-4 bg-slate-800/50 border-slate-700 gap-4">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              {renderName(selectedTrip)}
+              <div className="text-xs text-slate-400">
+                {formatDateTime(selectedTrip.startedAt)}
+                {isReplayTrip(selectedTrip) && " · Replay"}
+              </div>
+            </div>
+            {editingId !== selectedTrip.id && renderActions(selectedTrip)}
+          </div>
+
+          <TripRoute trip={selectedTrip} markers={driving?.events} />
+          <TripAnalytics samples={selectedTrip.samples} unit={unit} />
+
+          {driving && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm text-slate-400">Driving events</div>
+                <SafetyScoreBadge score={driving.score} />
+              </div>
+              <BehaviorEventList events={driving.events} unit={unit} />
+            </div>
+          )}
+
+          <div className="text-xs text-slate-500">{selectedTrip.samples.length} GPS fixes recorded</div>
+
+          <TrackExportButtons
+            samples={selectedTrip.samples}
+            name={selectedTrip.name}
+            buttonClassName="flex-1 bg-transparent text-white"
+          />
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {isLoading && <div className="text-sm text-slate-400">Loading trips…</div>}
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {!isLoading && !error && trips.length === 0 && (
+        <Card className="p-6 bg-slate-800/30 border-slate-700/50 items-center text-center">
+          <Route className="w-8 h-8 text-slate-500" />
+          <div className="text-sm text-slate-400">No trips yet. Start and stop tracking to record one.</div>
+        </Card>
+      )}
+
+      {trips.map((trip) => (
+        <Card
+          key={trip.id}
+          className="p-4 bg-slate-800/50 border-slate-700 gap-2 cursor-pointer hover:border-purple-500/50"
+          onClick={() => editingId !== trip.id && setSelectedTrip(trip)}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              {renderName(trip)}
+              <div className="text-xs text-slate-400">
+                {formatDateTime(trip.startedAt)}
+                {isReplayTrip(trip) && " · Replay"}
+              </div>
+            </div>
+            {editingId !== trip.id && renderActions(trip)}
+          </div>
+          <div className="flex gap-4 text-sm text-slate-300">
+            <span>
+              {toDisplayDistance(trip.distance, unit).toFixed(2)} {distanceLabel(unit)}
+            </span>
+            <span>{formatDuration(trip.duration)}</span>
+            <span>
+              max {toDisplaySpeed(trip.maxSpeed, unit).toFixed(1)} {SPEED_UNITS[unit].label}
+            </span>
+          </div>
+        </Card>
+      ))}
+    </div>
+  )
+}
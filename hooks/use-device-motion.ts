@@ -0,0 +1,57 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { MotionSample, Vector3 } from "@/lib/dead-reckoning"
+
+// iOS gates motion sensors behind a permission prompt that must come from a user gesture
+type MotionEventConstructor = typeof DeviceMotionEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">
+}
+
+const toVector = (reading: DeviceMotionEventAcceleration | null): Vector3 | null =>
+  reading && reading.x !== null && reading.y !== null && reading.z !== null
+    ? { x: reading.x, y: reading.y, z: reading.z }
+    : null
+
+// Streams accelerometer readings, stamped with Date.now() so they share a clock with GPS fixes
+export function useDeviceMotion(enabled: boolean, onSample: (sample: MotionSample) => void) {
+  const [permission, setPermission] = useState<"unknown" | "required" | "granted" | "denied" | "unsupported">("unknown")
+  const onSampleRef = useRef(onSample)
+  onSampleRef.current = onSample
+
+  useEffect(() => {
+    if (typeof DeviceMotionEvent === "undefined") {
+      setPermission("unsupported")
+      return
+    }
+    const Motion = DeviceMotionEvent as MotionEventConstructor
+    setPermission(typeof Motion.requestPermission === "function" ? "required" : "granted")
+  }, [])
+
+  const requestPermission = useCallback(async () => {
+    const Motion = DeviceMotionEvent as MotionEventConstructor
+    try {
+      setPermission((await Motion.requestPermission?.()) === "granted" ? "granted" : "denied")
+    } catch (err) {
+      setPermission("denied")
+      console.error("Device motion permission error:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || permission !== "granted") return
+
+    const handle = (event: DeviceMotionEvent) => {
+      onSampleRef.current({
+        timestamp: Date.now(),
+        acceleration: toVector(event.acceleration),
+        accelerationIncludingGravity: toVector(event.accelerationIncludingGravity),
+      })
+    }
+
+    window.addEventListener("devicemotion", handle)
+    return () => window.removeEventListener("devicemotion", handle)
+  }, [enabled, permission])
+
+  return { permission, requestPermission }
+}
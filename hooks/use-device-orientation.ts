@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+
+// iOS exposes a true-north compass heading directly and gates the sensor behind a permission prompt
+type OrientationEvent = DeviceOrientationEvent & { webkitCompassHeading?: number }
+type OrientationEventConstructor = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">
+}
+
+const normalize = (degrees: number) => ((degrees % 360) + 360) % 360
+
+/**
+ * Compass heading in degrees clockwise from north, from the DeviceOrientation API. Used while GPS
+ * course is unavailable, which is whenever the device is not moving.
+ */
+export function useDeviceOrientation(enabled: boolean) {
+  const [heading, setHeading] = useState<number | null>(null)
+  const [permission, setPermission] = useState<"unknown" | "required" | "granted" | "denied">("unknown")
+
+  useEffect(() => {
+    if (typeof DeviceOrientationEvent === "undefined") return
+    const Orientation = DeviceOrientationEvent as OrientationEventConstructor
+    setPermission(typeof Orientation.requestPermission === "function" ? "required" : "granted")
+  }, [])
+
+  const requestPermission = useCallback(async () => {
+    const Orientation = DeviceOrientationEvent as OrientationEventConstructor
+    try {
+      setPermission((await Orientation.requestPermission?.()) === "granted" ? "granted" : "denied")
+    } catch (err) {
+      setPermission("denied")
+      console.error("Device orientation permission error:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || permission !== "granted") return
+
+    const handle = (event: Event) => {
+      const { webkitCompassHeading, alpha, absolute } = event as OrientationEvent
+      if (typeof webkitCompassHeading === "number") {
+        setHeading(webkitCompassHeading)
+        return
+      }
+      // alpha counts counter-clockwise and is only tied to north when the event is absolute
+      if (alpha === null || (!absolute && event.type !== "deviceorientationabsolute")) return
+      const screenAngle = typeof screen !== "undefined" ? (screen.orientation?.angle ?? 0) : 0
+      setHeading(normalize(360 - alpha + screenAngle))
+    }
+
+    // Chrome on Android only reports north-referenced readings through the "absolute" event
+    const eventName = "ondeviceorientationabsolute" in window ? "deviceorientationabsolute" : "deviceorientation"
+    window.addEventListener(eventName, handle)
+    return () => window.removeEventListener(eventName, handle)
+  }, [enabled, permission])
+
+  return { heading, permission, requestPermission }
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+
+/**
+ * Registers /sw.js in production builds and reports when a newer worker is installed and waiting.
+ * `applyUpdate` activates it and reloads once it has taken control.
+ */
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+
+    let registration: ServiceWorkerRegistration | null = null
+
+    // Only an update, not the first install, should prompt: there is already a controller then
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller) setWaitingWorker(worker)
+      })
+    }
+    const onUpdateFound = () => trackInstalling(registration?.installing ?? null)
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then((reg) => {
+        registration = reg
+        if (reg.waiting && navigator.serviceWorker.controller) setWaitingWorker(reg.waiting)
+        trackInstalling(reg.installing)
+        reg.addEventListener("updatefound", onUpdateFound)
+      })
+      .catch((err) => console.error("Service worker registration error:", err))
+
+    return () => registration?.removeEventListener("updatefound", onUpdateFound)
+  }, [])
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return
+    navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true })
+    waitingWorker.postMessage({ type: "SKIP_WAITING" })
+  }, [waitingWorker])
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate }
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, type Settings } from "@/lib/settings"
+
+// App-wide preferences. Like useStoredState, storage is read after mount so server and client
+// render the defaults first; the accent theme is applied to the document from here.
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+
+  useEffect(() => {
+    setSettings(loadSettings())
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = settings.theme
+  }, [settings.theme])
+
+  const update = useCallback((next: Settings | ((prev: Settings) => Settings)) => {
+    setSettings((prev) => {
+      const resolved = typeof next === "function" ? next(prev) : next
+      saveSettings(resolved)
+      return resolved
+    })
+  }, [])
+
+  return [settings, update] as const
+}
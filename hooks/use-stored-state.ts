@@ -0,0 +1,30 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { loadJson, saveJson } from "@/lib/storage"
+
+// useState backed by localStorage. The stored value is read after mount so server and
+// client render the same fallback first.
+export function useStoredState<T>(key: string, fallback: T) {
+  const [value, setValue] = useState<T>(fallback)
+  // Callers pass fresh fallback objects on every render; only a new key should reload
+  const fallbackRef = useRef(fallback)
+  fallbackRef.current = fallback
+
+  useEffect(() => {
+    setValue(loadJson(key, fallbackRef.current))
+  }, [key])
+
+  const update = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      setValue((prev) => {
+        const resolved = typeof next === "function" ? (next as (prev: T) => T)(prev) : next
+        saveJson(key, resolved)
+        return resolved
+      })
+    },
+    [key],
+  )
+
+  return [value, update] as const
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { Settings } from "@/lib/settings"
+import {
+  dismissFailedTripUpload,
+  failedTripUploads,
+  flushTripUploads,
+  pendingTripUploads,
+  queueTripUpload,
+  retryTripUpload,
+  type FailedTripUpload,
+} from "@/lib/trip-upload"
+
+// While trips are waiting, try again this often in case the "online" event never arrives
+const RETRY_INTERVAL_MS = 60000
+
+// Sends saved trips to the fleet server, holding them in a queue until the connection allows
+export function useTripUploads(fleet: Settings["fleet"]) {
+  const [pending, setPending] = useState(0)
+  const [failed, setFailed] = useState<FailedTripUpload[]>([])
+  const [lastError, setLastError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const fleetRef = useRef(fleet)
+  const isUploadingRef = useRef(false)
+  fleetRef.current = fleet
+
+  const flush = useCallback(async () => {
+    if (!fleetRef.current.uploadTrips || isUploadingRef.current || !navigator.onLine) return
+    isUploadingRef.current = true
+    setIsUploading(true)
+    try {
+      const result = await flushTripUploads(fleetRef.current)
+      setPending(result.pending)
+      setFailed(result.failed)
+      setLastError(result.error)
+    } catch (err) {
+      setLastError("Unable to read saved trips")
+      console.error("Trip upload error:", err)
+    } finally {
+      isUploadingRef.current = false
+      setIsUploading(false)
+    }
+  }, [])
+
+  const enqueue = useCallback(
+    (id: string) => {
+      if (!fleetRef.current.uploadTrips) return
+      queueTripUpload(id)
+      setPending(pendingTripUploads().length)
+      flush()
+    },
+    [flush],
+  )
+
+  const retry = useCallback(
+    (id: string) => {
+      retryTripUpload(id)
+      setPending(pendingTripUploads().length)
+      setFailed(failedTripUploads())
+      flush()
+    },
+    [flush],
+  )
+
+  const dismiss = useCallback((id: string) => {
+    dismissFailedTripUpload(id)
+    setFailed(failedTripUploads())
+  }, [])
+
+  useEffect(() => {
+    setPending(pendingTripUploads().length)
+    setFailed(failedTripUploads())
+    if (!fleet.uploadTrips) return
+
+    flush()
+    const timer = setInterval(() => {
+      if (pendingTripUploads().length > 0) flush()
+    }, RETRY_INTERVAL_MS)
+    window.addEventListener("online", flush)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener("online", flush)
+    }
+  }, [fleet.uploadTrips, fleet.serverUrl, fleet.apiToken, flush])
+
+  return { pending, failed, lastError, isUploading, enqueue, flush, retry, dismiss }
+}
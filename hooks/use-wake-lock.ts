@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Screen Wake Lock API; not yet part of the DOM typings this project builds against
+interface WakeLockSentinel {
+  released: boolean
+  release: () => Promise<void>
+}
+
+type WakeLockNavigator = Navigator & {
+  wakeLock: { request: (type: "screen") => Promise<WakeLockSentinel> }
+}
+
+// Keeps the screen on while `active`. Browsers drop the lock whenever the page is hidden, so it
+// is requested again each time the page becomes visible.
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || typeof navigator === "undefined" || !("wakeLock" in navigator)) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const acquire = async () => {
+      if (document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return
+      try {
+        const lock = await (navigator as WakeLockNavigator).wakeLock.request("screen")
+        if (cancelled) {
+          lock.release()
+          return
+        }
+        sentinel = lock
+      } catch (err) {
+        // Denied when the page is not focused or the battery saver is on; the next visibility change retries
+        console.error("Wake lock error:", err)
+      }
+    }
+
+    acquire()
+    document.addEventListener("visibilitychange", acquire)
+
+    return () => {
+      cancelled = true
+      document.removeEventListener("visibilitychange", acquire)
+      sentinel?.release()
+    }
+  }, [active])
+}
@@ -0,0 +1,81 @@
+const DB_NAME = "gps-speedometer"
+const DB_VERSION = 5
+
+export type StoreName = "trips" | "zoneViolations" | "loopSegments" | "eventClips" | "recordings" | "performanceRuns"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not supported by this browser"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains("trips")) {
+        const trips = db.createObjectStore("trips", { keyPath: "id" })
+        trips.createIndex("startedAt", "startedAt")
+      }
+      if (!db.objectStoreNames.contains("zoneViolations")) {
+        const violations = db.createObjectStore("zoneViolations", { keyPath: "id" })
+        violations.createIndex("startedAt", "startedAt")
+      }
+      if (!db.objectStoreNames.contains("loopSegments")) {
+        const segments = db.createObjectStore("loopSegments", { keyPath: "id" })
+        segments.createIndex("startedAt", "startedAt")
+      }
+      if (!db.objectStoreNames.contains("eventClips")) {
+        const clips = db.createObjectStore("eventClips", { keyPath: "id" })
+        clips.createIndex("triggeredAt", "triggeredAt")
+      }
+      if (!db.objectStoreNames.contains("recordings")) {
+        const recordings = db.createObjectStore("recordings", { keyPath: "id" })
+        recordings.createIndex("startedAt", "startedAt")
+      }
+      if (!db.objectStoreNames.contains("performanceRuns")) {
+        const runs = db.createObjectStore("performanceRuns", { keyPath: "id" })
+        runs.createIndex("startedAt", "startedAt")
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Runs a single request against an object store and resolves once the transaction commits
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  const result = requestToPromise(run(transaction.objectStore(storeName)))
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+  return result
+}
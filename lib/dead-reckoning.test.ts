@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import { replaySensorTrace, type SensorTrace, type SensorTraceEvent, type Vector3 } from "@/lib/dead-reckoning"
+
+// Phone tilted in its mount: the car's forward axis and gravity both sit at an angle to the device axes
+const FORWARD: Vector3 = { x: 0.1, y: 0.8, z: 0.59 }
+const GRAVITY: Vector3 = { x: 0.3, y: 6.1, z: -7.67 }
+
+const MOTION_INTERVAL_MS = 20 // 50 Hz, typical for devicemotion
+const FIX_INTERVAL_MS = 1000
+
+// Acceleration in m/s² for each stretch of the drive, in seconds
+const PROFILE: [number, number][] = [
+  [10, 1.5], // 0 → 15 m/s
+  [10, -1], // 15 → 5
+  [10, 1], // 5 → 15
+  [10, 0], // cruise
+  [10, 1], // 15 → 25, where the outages are placed
+  [10, 0],
+]
+
+function accelerationAt(t: number) {
+  let start = 0
+  for (const [duration, acceleration] of PROFILE) {
+    if (t < start + duration) return acceleration
+    start += duration
+  }
+  return 0
+}
+
+/**
+ * A drive as the recorder would store it: motion samples and 1 Hz fixes, with the accelerometer
+ * reading the car's acceleration along the tilted forward axis plus an optional constant bias.
+ */
+function recordDrive({ bias = 0 } = {}): { trace: SensorTrace; speedAt: (timestamp: number) => number } {
+  const events: SensorTraceEvent[] = []
+  const speeds = new Map<number, number>()
+  const duration = PROFILE.reduce((total, [seconds]) => total + seconds, 0) * 1000
+  let speed = 0
+
+  for (let timestamp = 0; timestamp <= duration; timestamp += MOTION_INTERVAL_MS) {
+    const acceleration = accelerationAt(timestamp / 1000)
+    const reading = acceleration + bias
+    const linear = { x: FORWARD.x * reading, y: FORWARD.y * reading, z: FORWARD.z * reading }
+    events.push({
+      type: "motion",
+      timestamp,
+      acceleration: linear,
+      accelerationIncludingGravity: { x: linear.x + GRAVITY.x, y: linear.y + GRAVITY.y, z: linear.z + GRAVITY.z },
+    })
+    if (timestamp % FIX_INTERVAL_MS === 0) events.push({ type: "fix", timestamp, speed })
+    speeds.set(timestamp, speed)
+    speed += (acceleration * MOTION_INTERVAL_MS) / 1000
+  }
+
+  return { trace: { version: 1, recordedAt: 0, events }, speedAt: (timestamp) => speeds.get(timestamp) ?? NaN }
+}
+
+const estimatesWithin = (points: ReturnType<typeof replaySensorTrace>, [start, end]: [number, number]) =>
+  points.filter((point) => !point.measured && point.timestamp > start && point.timestamp < end)
+
+describe("replaySensorTrace", () => {
+  it("makes no estimates until the forward axis is learned", () => {
+    const { trace } = recordDrive()
+    const points = replaySensorTrace(trace)
+    const firstEstimate = points.find((point) => !point.measured)
+    // Five learning intervals of at least 0.4 m/s² are needed
+    expect(firstEstimate?.timestamp).toBeGreaterThanOrEqual(5000)
+  })
+
+  it("carries the speed through a GPS dropout while accelerating", () => {
+    const { trace, speedAt } = recordDrive()
+    const outage: [number, number] = [40500, 52000]
+    const points = replaySensorTrace(trace, { outages: [outage] })
+
+    const during = estimatesWithin(points, outage)
+    expect(during.length).toBeGreaterThan(400)
+    for (const point of during) expect(Math.abs(point.speed - speedAt(point.timestamp))).toBeLessThan(1)
+    // Over the 11 s without fixes the car went from 15 to 25 m/s
+    expect(during.at(-1)!.speed).toBeGreaterThan(23)
+  })
+
+  it("resyncs to the first fix after the dropout", () => {
+    const { trace, speedAt } = recordDrive()
+    const points = replaySensorTrace(trace, { outages: [[40500, 52000]] })
+    const recovery = points.find((point) => point.measured && point.timestamp > 52000)!
+    expect(recovery.timestamp).toBe(53000)
+    expect(recovery.speed).toBe(speedAt(53000))
+
+    const after = estimatesWithin(points, [53000, 54000])
+    for (const point of after) expect(Math.abs(point.speed - speedAt(point.timestamp))).toBeLessThan(0.1)
+  })
+
+  it("stops estimating once the dropout outlasts maxOutageMs", () => {
+    const { trace } = recordDrive()
+    const points = replaySensorTrace(trace, { outages: [[40500, 60000]], maxOutageMs: 5000 })
+    const during = estimatesWithin(points, [40500, 60000])
+    expect(during.length).toBeGreaterThan(0)
+    expect(Math.max(...during.map((point) => point.timestamp))).toBeLessThanOrEqual(45000)
+  })
+
+  it("learns a constant accelerometer bias from the fixes", () => {
+    const { trace, speedAt } = recordDrive({ bias: 0.3 })
+    const outage: [number, number] = [40500, 52000]
+    const points = replaySensorTrace(trace, { outages: [outage] })
+    const during = estimatesWithin(points, outage)
+    // Uncorrected, 0.3 m/s² of bias would be 3.3 m/s off by the end of the dropout
+    expect(Math.abs(during.at(-1)!.speed - speedAt(during.at(-1)!.timestamp))).toBeLessThan(1)
+  })
+})
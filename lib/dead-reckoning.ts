@@ -0,0 +1,235 @@
+// Dead reckoning: integrates the accelerometer between GPS fixes so the dial keeps moving at
+// 1 Hz update rates and through short outages (tunnels, parking garages).
+//
+// The phone can be mounted at any angle, so the vehicle's forward axis is learned in the device
+// frame by correlating accelerometer readings with the change in GPS speed between fixes. The
+// same comparison tracks the accelerometer's bias along that axis. Everything here is pure and
+// clock-agnostic so recorded sensor traces can be replayed through it.
+
+export interface Vector3 {
+  x: number
+  y: number
+  z: number
+}
+
+export interface MotionSample {
+  timestamp: number // ms, same clock as fixes
+  acceleration: Vector3 | null // gravity removed, m/s²
+  accelerationIncludingGravity: Vector3 | null // m/s²
+}
+
+export interface SpeedFix {
+  timestamp: number // ms
+  speed: number // m/s
+}
+
+export interface SpeedEstimate {
+  speed: number // m/s
+  sinceFix: number // ms since the fix the estimate was integrated from
+}
+
+export interface DeadReckoningStatus {
+  calibration: number // 0..1, how settled the forward axis is
+  isCalibrated: boolean
+  bias: number // m/s² along the forward axis
+}
+
+export interface DeadReckonerOptions {
+  maxOutageMs?: number // stop estimating after this long without a fix
+  maxFixIntervalMs?: number // longer gaps are not used to learn the forward axis
+  minCalibrationAccel?: number // m/s² of GPS-measured acceleration needed to learn from an interval
+  calibrationSamples?: number // learning intervals before estimates are trusted
+}
+
+export interface DeadReckoningSettings {
+  enabled: boolean
+}
+
+export const DEAD_RECKONING_STORAGE_KEY = "dead-reckoning"
+
+export const DEFAULT_DEAD_RECKONING_SETTINGS: DeadReckoningSettings = {
+  enabled: false,
+}
+
+// The dial switches to the estimate once a fix is this overdue
+export const ESTIMATE_AFTER_MS = 1200
+
+const GRAVITY_LEARNING_RATE = 0.5
+const AXIS_LEARNING_RATE = 0.2
+const BIAS_LEARNING_RATE = 0.1
+// Samples further apart than this are a paused page or a dropped sensor, not motion
+const MAX_SAMPLE_GAP_MS = 500
+
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z
+const scale = (v: Vector3, k: number): Vector3 => ({ x: v.x * k, y: v.y * k, z: v.z * k })
+const add = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z })
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z })
+const length = (v: Vector3) => Math.sqrt(dot(v, v))
+const ZERO: Vector3 = { x: 0, y: 0, z: 0 }
+
+export function createDeadReckoner({
+  maxOutageMs = 30000,
+  maxFixIntervalMs = 3000,
+  minCalibrationAccel = 0.4,
+  calibrationSamples = 5,
+}: DeadReckonerOptions = {}) {
+  let gravity: Vector3 | null = null
+  let forward: Vector3 | null = null
+  let learned = 0
+  let bias = 0
+
+  let lastFix: SpeedFix | null = null
+  let lastSampleAt: number | null = null
+  let estimate: number | null = null
+
+  // Device-frame readings summed over the current fix interval
+  let intervalSum = ZERO
+  let intervalCount = 0
+  let intervalRawSum = ZERO
+  let intervalRawCount = 0
+
+  const resetInterval = () => {
+    intervalSum = ZERO
+    intervalCount = 0
+    intervalRawSum = ZERO
+    intervalRawCount = 0
+  }
+
+  const linearAcceleration = ({ acceleration, accelerationIncludingGravity }: MotionSample): Vector3 | null => {
+    // Raw readings are kept even when the browser supplies linear acceleration; it is cheap and
+    // keeps the fallback ready if `acceleration` starts coming back null
+    if (accelerationIncludingGravity) {
+      gravity ??= accelerationIncludingGravity
+      intervalRawSum = add(intervalRawSum, accelerationIncludingGravity)
+      intervalRawCount += 1
+    }
+
+    if (acceleration) return acceleration
+    if (accelerationIncludingGravity && gravity) return subtract(accelerationIncludingGravity, gravity)
+    return null
+  }
+
+  const learnFromInterval = (previous: SpeedFix, fix: SpeedFix) => {
+    const duration = fix.timestamp - previous.timestamp
+    if (intervalCount === 0 || duration <= 0 || duration > maxFixIntervalMs) return
+
+    const gpsAcceleration = ((fix.speed - previous.speed) / duration) * 1000
+
+    // A low-pass filter cannot tell gravity from sustained acceleration, so gravity is only
+    // updated once GPS confirms the interval was driven at a steady speed
+    if (gravity && intervalRawCount > 0 && Math.abs(gpsAcceleration) < minCalibrationAccel / 2) {
+      const rawMean = scale(intervalRawSum, 1 / intervalRawCount)
+      gravity = add(scale(gravity, 1 - GRAVITY_LEARNING_RATE), scale(rawMean, GRAVITY_LEARNING_RATE))
+    }
+
+    const mean = scale(intervalSum, 1 / intervalCount)
+
+    if (forward && learned >= calibrationSamples) {
+      // Whatever the axis reads beyond what GPS measured is bias
+      const error = dot(mean, forward) - gpsAcceleration
+      bias += (error - bias) * BIAS_LEARNING_RATE
+    }
+
+    const magnitude = length(mean)
+    if (Math.abs(gpsAcceleration) < minCalibrationAccel || magnitude < minCalibrationAccel / 2) return
+
+    // Braking points the accelerometer backwards, so flip it to vote for the same axis
+    const direction = scale(mean, Math.sign(gpsAcceleration) / magnitude)
+    const blended = forward
+      ? add(scale(forward, 1 - AXIS_LEARNING_RATE), scale(direction, AXIS_LEARNING_RATE))
+      : direction
+    forward = scale(blended, 1 / length(blended))
+    learned += 1
+  }
+
+  return {
+    addMotion(sample: MotionSample) {
+      const dt = lastSampleAt !== null ? sample.timestamp - lastSampleAt : 0
+      lastSampleAt = sample.timestamp
+      if (dt < 0 || dt > MAX_SAMPLE_GAP_MS) return
+
+      const linear = linearAcceleration(sample)
+      if (!linear) return
+
+      intervalSum = add(intervalSum, linear)
+      intervalCount += 1
+
+      if (estimate !== null && forward && learned >= calibrationSamples && dt > 0) {
+        estimate = Math.max(0, estimate + ((dot(linear, forward) - bias) * dt) / 1000)
+      }
+    },
+
+    // Resyncs to a measured speed and uses the interval since the previous fix for calibration
+    addFix(fix: SpeedFix) {
+      if (lastFix) learnFromInterval(lastFix, fix)
+      lastFix = fix
+      estimate = fix.speed
+      resetInterval()
+    },
+
+    // Drops the current speed reference (e.g. after an untrustworthy fix) but keeps calibration
+    invalidate() {
+      lastFix = null
+      estimate = null
+      resetInterval()
+    },
+
+    estimate(now: number): SpeedEstimate | null {
+      if (!lastFix || estimate === null || learned < calibrationSamples) return null
+      const sinceFix = now - lastFix.timestamp
+      if (sinceFix > maxOutageMs) return null
+      return { speed: estimate, sinceFix }
+    },
+
+    getStatus(): DeadReckoningStatus {
+      return {
+        calibration: Math.min(1, learned / calibrationSamples),
+        isCalibrated: learned >= calibrationSamples,
+        bias,
+      }
+    },
+  }
+}
+
+export type DeadReckoner = ReturnType<typeof createDeadReckoner>
+
+// A recorded drive: sensor samples and fixes interleaved in arrival order
+export type SensorTraceEvent = ({ type: "motion" } & MotionSample) | ({ type: "fix" } & SpeedFix)
+
+export interface SensorTrace {
+  version: 1
+  recordedAt: number
+  events: SensorTraceEvent[]
+}
+
+export interface ReplayPoint {
+  timestamp: number
+  speed: number // m/s, measured on fixes and estimated otherwise
+  measured: boolean
+}
+
+/**
+ * Replays a recorded trace through a fresh reckoner, optionally dropping fixes inside the given
+ * windows to simulate outages, and returns the speed the dial would have shown at each event.
+ */
+export function replaySensorTrace(
+  trace: SensorTrace,
+  { outages = [], ...options }: DeadReckonerOptions & { outages?: [number, number][] } = {},
+): ReplayPoint[] {
+  const reckoner = createDeadReckoner(options)
+  const points: ReplayPoint[] = []
+
+  for (const event of trace.events) {
+    if (event.type === "fix") {
+      if (outages.some(([start, end]) => event.timestamp >= start && event.timestamp <= end)) continue
+      reckoner.addFix(event)
+      points.push({ timestamp: event.timestamp, speed: event.speed, measured: true })
+    } else {
+      reckoner.addMotion(event)
+      const estimate = reckoner.estimate(event.timestamp)
+      if (estimate) points.push({ timestamp: event.timestamp, speed: estimate.speed, measured: false })
+    }
+  }
+
+  return points
+}
@@ -0,0 +1,13 @@
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// Timestamp suitable for file names, e.g. 2024-05-01T12-30-00
+export const fileTimestamp = (date = new Date()) => date.toISOString().slice(0, 19).replace(/:/g, "-")
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_BEHAVIOR_THRESHOLDS,
+  analyzeDriving,
+  detectBehaviorEvents,
+  scoreDriving,
+  type BehaviorEvent,
+} from "@/lib/driver-behavior"
+import type { TripSample } from "@/lib/types"
+import { MPS_TO_MPH } from "@/lib/units"
+
+const START = 1_700_000_000_000
+const G = 9.80665
+const METERS_PER_DEGREE = 111195
+
+interface Fix {
+  speed: number // m/s as measured
+  heading?: number
+  accuracy?: number
+}
+
+// A 1 Hz drive heading north, with each fix placed where its speed would have taken the car
+function drive(fixes: Fix[]): TripSample[] {
+  let latitude = 52.5
+  return fixes.map(({ speed, heading = 0, accuracy = 5 }, index) => {
+    if (index > 0) latitude += (fixes[index - 1].speed + speed) / 2 / METERS_PER_DEGREE
+    return {
+      timestamp: START + index * 1000,
+      latitude,
+      longitude: 13.4,
+      speed: speed * MPS_TO_MPH,
+      rawSpeed: speed * MPS_TO_MPH,
+      heading,
+      accuracy,
+    }
+  })
+}
+
+const cruise = (speed: number, seconds: number): Fix[] => Array(seconds).fill({ speed })
+const ramp = (from: number, to: number, seconds: number): Fix[] =>
+  Array.from({ length: seconds }, (_, index) => ({ speed: from + ((to - from) * (index + 1)) / seconds }))
+
+const types = (events: BehaviorEvent[]) => events.map((event) => event.type)
+
+describe("detectBehaviorEvents", () => {
+  it("finds harsh braking and measures it in g", () => {
+    // 5 m/s² for three seconds, about 0.51 g
+    const events = detectBehaviorEvents(drive([...cruise(20, 5), ...ramp(20, 5, 3), ...cruise(5, 5)]))
+    expect(types(events)).toEqual(["harsh-braking"])
+    expect(events[0].peak).toBeCloseTo(5 / G, 2)
+    expect(events[0].severity).toBeCloseTo(5 / G / DEFAULT_BEHAVIOR_THRESHOLDS.harshBraking, 2)
+    expect(events[0].endedAt - events[0].startedAt).toBe(3000)
+  })
+
+  it("lets ordinary braking pass", () => {
+    expect(detectBehaviorEvents(drive([...cruise(20, 5), ...ramp(20, 5, 6), ...cruise(5, 5)]))).toEqual([])
+  })
+
+  it("finds rapid acceleration", () => {
+    const events = detectBehaviorEvents(drive([...cruise(0, 3), ...ramp(0, 16, 4), ...cruise(16, 3)]))
+    expect(types(events)).toEqual(["rapid-acceleration"])
+    expect(events[0].peak).toBeCloseTo(4 / G, 2)
+  })
+
+  it("judges events on the measured speed rather than the smoothed one", () => {
+    const samples = drive([...cruise(20, 5), ...ramp(20, 5, 3), ...cruise(5, 5)])
+    // What a lagging filter would have recorded for the same stop: the change spread over many seconds
+    samples.forEach((sample, index) => {
+      sample.speed = Math.max(5, 20 - (index - 4) * 1.5) * MPS_TO_MPH
+    })
+    expect(types(detectBehaviorEvents(samples))).toEqual(["harsh-braking"])
+
+    // Trips saved before the measured speed was kept are judged on what they have
+    const older = samples.map((sample) => ({ ...sample, rawSpeed: undefined }))
+    expect(detectBehaviorEvents(older)).toEqual([])
+  })
+
+  it("finds sharp cornering from the change of course", () => {
+    // 20°/s at 15 m/s is about 0.53 g sideways
+    const turn = Array.from({ length: 4 }, (_, index) => ({ speed: 15, heading: (index + 1) * 20 }))
+    const events = detectBehaviorEvents(drive([...cruise(15, 3), ...turn, { speed: 15, heading: 80 }]))
+    expect(types(events)).toEqual(["sharp-cornering"])
+    expect(events[0].peak).toBeCloseTo((((20 * Math.PI) / 180) * 15) / G, 2)
+  })
+
+  it("ignores course changes while crawling", () => {
+    const turn = Array.from({ length: 4 }, (_, index) => ({ speed: 3, heading: (index + 1) * 45 }))
+    expect(detectBehaviorEvents(drive([...cruise(3, 3), ...turn]))).toEqual([])
+  })
+
+  it("only counts speeding that lasts", () => {
+    const limit = DEFAULT_BEHAVIOR_THRESHOLDS.speedLimit / MPS_TO_MPH
+    const brief = detectBehaviorEvents(
+      drive([...cruise(limit - 1, 3), ...cruise(limit + 1, 5), ...cruise(limit - 1, 3)]),
+    )
+    expect(brief).toEqual([])
+
+    const sustained = detectBehaviorEvents(
+      drive([...cruise(limit - 1, 3), ...cruise(limit + 1, 15), ...cruise(limit - 1, 3)]),
+    )
+    expect(types(sustained)).toEqual(["speeding"])
+    expect(sustained[0].endedAt - sustained[0].startedAt).toBe(14000)
+    expect(sustained[0].peak).toBeCloseTo((limit + 1) * MPS_TO_MPH, 5)
+  })
+
+  it("does not judge across a poor fix", () => {
+    const fixes = [...cruise(20, 5), { speed: 5, accuracy: 80 }, ...cruise(5, 5)]
+    expect(detectBehaviorEvents(drive(fixes))).toEqual([])
+  })
+})
+
+describe("scoreDriving", () => {
+  const event = (type: BehaviorEvent["type"], severity: number, seconds = 1): BehaviorEvent => ({
+    type,
+    startedAt: START,
+    endedAt: START + seconds * 1000,
+    latitude: 52.5,
+    longitude: 13.4,
+    peak: 0,
+    severity,
+  })
+
+  it("gives a trip without events full marks", () => {
+    expect(scoreDriving([], 5000)).toBe(100)
+  })
+
+  it("charges each event its penalty times its severity, capped at double", () => {
+    expect(scoreDriving([event("harsh-braking", 1.5)], 5000)).toBe(88)
+    expect(scoreDriving([event("harsh-braking", 5)], 5000)).toBe(84)
+    expect(scoreDriving([event("rapid-acceleration", 1), event("sharp-cornering", 1)], 5000)).toBe(89)
+  })
+
+  it("charges speeding for how long it lasted", () => {
+    expect(scoreDriving([event("speeding", 1, 60)], 5000)).toBe(88)
+    // Capped at four shares
+    expect(scoreDriving([event("speeding", 1, 600)], 5000)).toBe(76)
+  })
+
+  it("spreads penalties over every 10 km driven", () => {
+    expect(scoreDriving([event("harsh-braking", 1.5)], 20000)).toBe(94)
+  })
+
+  it("never goes below 0", () => {
+    expect(scoreDriving(Array(20).fill(event("harsh-braking", 2)), 5000)).toBe(0)
+  })
+})
+
+describe("analyzeDriving", () => {
+  it("scores a trip from its own events and distance", () => {
+    const result = analyzeDriving(drive([...cruise(20, 5), ...ramp(20, 5, 3), ...cruise(5, 5)]))
+    expect(result.counts).toEqual({ "harsh-braking": 1, "rapid-acceleration": 0, "sharp-cornering": 0, speeding: 0 })
+    expect(result.score).toBe(scoreDriving(result.events, 0))
+  })
+})
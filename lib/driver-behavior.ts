@@ -0,0 +1,201 @@
+import { haversineDistance, initialBearing } from "@/lib/geo"
+import { POOR_FIX_ACCURACY } from "@/lib/gps-quality"
+import type { TripSample } from "@/lib/types"
+import { MPS_TO_MPH } from "@/lib/units"
+
+export type BehaviorEventType = "harsh-braking" | "rapid-acceleration" | "sharp-cornering" | "speeding"
+
+export const BEHAVIOR_EVENT_LABELS: Record<BehaviorEventType, string> = {
+  "harsh-braking": "Harsh braking",
+  "rapid-acceleration": "Rapid acceleration",
+  "sharp-cornering": "Sharp cornering",
+  speeding: "Speeding",
+}
+
+export interface BehaviorThresholds {
+  harshBraking: number // g of deceleration
+  rapidAcceleration: number // g
+  sharpCornering: number // g of lateral acceleration
+  speedLimit: number // mph
+  speedingMinDuration: number // seconds over the limit before it counts
+}
+
+export const DRIVING_BEHAVIOR_STORAGE_KEY = "driving-behavior"
+
+// In line with what commercial telematics flag; everyday driving stays well under 0.3 g
+export const DEFAULT_BEHAVIOR_THRESHOLDS: BehaviorThresholds = {
+  harshBraking: 0.4,
+  rapidAcceleration: 0.35,
+  sharpCornering: 0.4,
+  speedLimit: 70,
+  speedingMinDuration: 10,
+}
+
+export interface BehaviorEvent {
+  type: BehaviorEventType
+  startedAt: number
+  endedAt: number
+  latitude: number // where the event started
+  longitude: number
+  peak: number // g for acceleration events, mph for speeding
+  severity: number // peak over its threshold, so at least 1
+}
+
+export interface DrivingScore {
+  score: number // 0–100, 100 being a trip without events
+  events: BehaviorEvent[]
+  counts: Record<BehaviorEventType, number>
+}
+
+const G = 9.80665
+// Fixes further apart than this are an outage, not one long, gentle change of speed
+const MAX_INTERVAL_S = 5
+// Below walking pace the GPS course wanders, so turning is only judged above this
+const MIN_CORNERING_SPEED = 5 // m/s
+// Positions closer than this give no usable course when the receiver reports none
+const MIN_COURSE_DISTANCE = 3 // meters
+
+// Score points an event costs at its threshold; going further past it costs up to double
+const PENALTIES: Record<BehaviorEventType, number> = {
+  "harsh-braking": 8,
+  "rapid-acceleration": 5,
+  "sharp-cornering": 6,
+  speeding: 6,
+}
+// Penalties are charged per this much driving, so long trips are not marked down for being long
+const SCORE_DISTANCE = 10000 // meters
+
+// Events measured between consecutive fixes, as opposed to speeding which is measured at each fix
+const INTERVAL_EVENTS: BehaviorEventType[] = ["harsh-braking", "rapid-acceleration", "sharp-cornering"]
+
+const wrapDegrees = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180
+
+// Smoothing lags and flattens the peaks events are judged on, so the measured speed is used where it was kept
+const measuredSpeed = (sample: TripSample) => sample.rawSpeed ?? sample.speed
+
+// The receiver's course when it has one, otherwise the bearing from the previous position
+function courseAt(samples: TripSample[], index: number): number | null {
+  const { heading } = samples[index]
+  if (heading !== null && Number.isFinite(heading)) return heading
+  if (index === 0) return null
+  const previous = samples[index - 1]
+  return haversineDistance(previous, samples[index]) >= MIN_COURSE_DISTANCE
+    ? initialBearing(previous, samples[index])
+    : null
+}
+
+/**
+ * Finds harsh braking, rapid acceleration and sharp cornering from the change between consecutive
+ * fixes, and sustained speeding from runs of fixes over the limit. Consecutive intervals over a
+ * threshold make up one event. Poor fixes and gaps in the trace end any event in progress, as
+ * the speed and course across them cannot be trusted.
+ */
+export function detectBehaviorEvents(
+  samples: TripSample[],
+  thresholds: BehaviorThresholds = DEFAULT_BEHAVIOR_THRESHOLDS,
+): BehaviorEvent[] {
+  const events: BehaviorEvent[] = []
+  const open = new Map<BehaviorEventType, BehaviorEvent>()
+
+  const close = (type: BehaviorEventType) => {
+    const event = open.get(type)
+    if (!event) return
+    open.delete(type)
+    const isSustained = event.endedAt - event.startedAt >= thresholds.speedingMinDuration * 1000
+    if (type !== "speeding" || isSustained) events.push(event)
+  }
+
+  const closeAll = () => [...open.keys()].forEach(close)
+
+  const track = (type: BehaviorEventType, value: number, threshold: number, from: TripSample, to: TripSample) => {
+    if (value < threshold) {
+      close(type)
+      return
+    }
+    const event = open.get(type)
+    if (event) {
+      event.endedAt = to.timestamp
+      event.peak = Math.max(event.peak, value)
+      event.severity = event.peak / threshold
+    } else {
+      open.set(type, {
+        type,
+        startedAt: from.timestamp,
+        endedAt: to.timestamp,
+        latitude: from.latitude,
+        longitude: from.longitude,
+        peak: value,
+        severity: value / threshold,
+      })
+    }
+  }
+
+  samples.forEach((sample, index) => {
+    if (sample.accuracy > POOR_FIX_ACCURACY) {
+      closeAll()
+      return
+    }
+
+    // A speeding run starts and ends at fixes over the limit, rather than spanning intervals
+    track("speeding", measuredSpeed(sample), thresholds.speedLimit, sample, sample)
+    if (index === 0) return
+
+    const previous = samples[index - 1]
+    const dt = (sample.timestamp - previous.timestamp) / 1000
+    if (sample.resumed || dt <= 0 || dt > MAX_INTERVAL_S || previous.accuracy > POOR_FIX_ACCURACY) {
+      INTERVAL_EVENTS.forEach(close)
+      return
+    }
+
+    const acceleration = (measuredSpeed(sample) - measuredSpeed(previous)) / MPS_TO_MPH / dt / G
+    track("harsh-braking", -acceleration, thresholds.harshBraking, previous, sample)
+    track("rapid-acceleration", acceleration, thresholds.rapidAcceleration, previous, sample)
+
+    // Lateral acceleration is the turn rate times the speed
+    const speed = (measuredSpeed(sample) + measuredSpeed(previous)) / 2 / MPS_TO_MPH
+    const fromCourse = courseAt(samples, index - 1)
+    const toCourse = courseAt(samples, index)
+    const lateral =
+      speed >= MIN_CORNERING_SPEED && fromCourse !== null && toCourse !== null
+        ? (Math.abs((wrapDegrees(toCourse - fromCourse) * Math.PI) / 180) / dt) * speed
+        : 0
+    track("sharp-cornering", lateral / G, thresholds.sharpCornering, previous, sample)
+  })
+  closeAll()
+
+  return events.sort((a, b) => a.startedAt - b.startedAt)
+}
+
+export function countEvents(events: BehaviorEvent[]): Record<BehaviorEventType, number> {
+  const counts = { "harsh-braking": 0, "rapid-acceleration": 0, "sharp-cornering": 0, speeding: 0 }
+  events.forEach((event) => counts[event.type]++)
+  return counts
+}
+
+/**
+ * Scores a trip from 100 down. Each event costs its penalty times its severity (capped at double);
+ * speeding also costs one more share per minute over the limit, up to four. The total is charged
+ * per 10 km driven, with shorter trips counted as 10 km.
+ */
+export function scoreDriving(events: BehaviorEvent[], distance: number): number {
+  const penalty = events.reduce((total, event) => {
+    const minutes = (event.endedAt - event.startedAt) / 60000
+    const duration = event.type === "speeding" ? Math.min(1 + minutes, 4) : 1
+    return total + PENALTIES[event.type] * Math.min(event.severity, 2) * duration
+  }, 0)
+  const exposure = Math.max(1, distance / SCORE_DISTANCE)
+  return Math.max(0, Math.min(100, Math.round(100 - penalty / exposure)))
+}
+
+export function analyzeDriving(
+  samples: TripSample[],
+  thresholds: BehaviorThresholds = DEFAULT_BEHAVIOR_THRESHOLDS,
+): DrivingScore {
+  const events = detectBehaviorEvents(samples, thresholds)
+  const distance = samples.reduce(
+    (total, sample, index) =>
+      index > 0 && !sample.resumed ? total + haversineDistance(samples[index - 1], sample) : total,
+    0,
+  )
+  return { score: scoreDriving(events, distance), events, counts: countEvents(events) }
+}
@@ -0,0 +1,80 @@
+import { serializeTelemetryLog, type TelemetryLog } from "@/lib/telemetry"
+
+export interface RecordingManifest {
+  version: 1
+  generatedAt: string
+  recording: {
+    startedAt: string
+    endedAt: string
+  }
+  video: {
+    filename: string
+    mimeType: string
+    size: number
+    sha256: string
+  }
+  telemetry: {
+    filename: string
+    entries: number
+    sha256: string
+  }
+  userAgent: string
+}
+
+export interface RecordingEvidence {
+  baseName: string
+  telemetry: TelemetryLog
+  telemetryJson: string
+  manifest: RecordingManifest
+}
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+/**
+ * Hashes the final video blob and the exact telemetry bytes that will be written next to it, so
+ * either file can later be checked against the manifest with any SHA-256 tool.
+ */
+export async function createRecordingEvidence(
+  video: Blob,
+  videoFilename: string,
+  baseName: string,
+  telemetry: TelemetryLog,
+  endedAt: number,
+): Promise<RecordingEvidence> {
+  const telemetryJson = serializeTelemetryLog(telemetry)
+  const [videoHash, telemetryHash] = await Promise.all([
+    sha256Hex(await video.arrayBuffer()),
+    sha256Hex(new TextEncoder().encode(telemetryJson)),
+  ])
+
+  return {
+    baseName,
+    telemetry,
+    telemetryJson,
+    manifest: {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      recording: {
+        startedAt: new Date(telemetry.recordingStartedAt).toISOString(),
+        endedAt: new Date(endedAt).toISOString(),
+      },
+      video: {
+        filename: videoFilename,
+        mimeType: video.type,
+        size: video.size,
+        sha256: videoHash,
+      },
+      telemetry: {
+        filename: `${baseName}.telemetry.json`,
+        entries: telemetry.entries.length,
+        sha256: telemetryHash,
+      },
+      userAgent: navigator.userAgent,
+    },
+  }
+}
@@ -0,0 +1,41 @@
+import { DEFAULT_BEHAVIOR_THRESHOLDS, type BehaviorThresholds } from "@/lib/driver-behavior"
+
+// Request plumbing shared by the /api/trips route handlers
+
+// The dashboard and uploader may be served from another origin than the fleet server
+export const FLEET_CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+}
+
+// Trips are scored against the default thresholds when they arrive; FLEET_SPEED_LIMIT_MPH sets the
+// speeding limit, the one threshold that really depends on where the fleet drives
+export function fleetThresholds(): BehaviorThresholds {
+  const limit = Number(process.env.FLEET_SPEED_LIMIT_MPH)
+  return {
+    ...DEFAULT_BEHAVIOR_THRESHOLDS,
+    speedLimit: Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_BEHAVIOR_THRESHOLDS.speedLimit,
+  }
+}
+
+export const fleetJson = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...FLEET_CORS_HEADERS, "Content-Type": "application/json" },
+  })
+
+export const fleetError = (status: number, message: string) => fleetJson({ error: message }, status)
+
+export const fleetPreflight = () => new Response(null, { status: 204, headers: FLEET_CORS_HEADERS })
+
+/**
+ * With FLEET_API_TOKEN set every request needs it as a bearer token; without it the API is open,
+ * which is only sensible on a private network.
+ */
+export function checkFleetToken(request: Request): Response | null {
+  const token = process.env.FLEET_API_TOKEN
+  if (!token) return null
+  const provided = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1]
+  return provided === token ? null : fleetError(401, "Missing or invalid API token")
+}
@@ -0,0 +1,150 @@
+import { z } from "zod"
+import {
+  analyzeDriving,
+  countEvents,
+  type BehaviorEvent,
+  type BehaviorEventType,
+  type BehaviorThresholds,
+} from "@/lib/driver-behavior"
+import { summarizeTrip, type Trip } from "@/lib/trips"
+import { MPS_TO_MPH } from "@/lib/units"
+
+// Shapes of the /api/trips fleet API, shared by the server routes, the uploader and the dashboard
+export const FLEET_API_VERSION = 1
+
+// About 14 hours at 1 Hz
+export const MAX_UPLOAD_SAMPLES = 50000
+
+const tripSampleSchema = z.object({
+  timestamp: z.number(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  speed: z.number().nonnegative(), // mph, as everywhere else in the app
+  rawSpeed: z.number().nonnegative().optional(), // mph before smoothing; driving events are judged on it
+  accuracy: z.number().nonnegative(),
+  heading: z.number().nullable(),
+  altitude: z.number().nullable().optional(),
+})
+
+export const tripUploadSchema = z.object({
+  version: z.literal(FLEET_API_VERSION),
+  driver: z.object({ name: z.string().trim().min(1).max(100) }),
+  trip: z.object({
+    id: z.string().uuid(),
+    name: z.string().trim().min(1).max(200),
+    samples: z.array(tripSampleSchema).min(2).max(MAX_UPLOAD_SAMPLES),
+  }),
+})
+
+export type TripUpload = z.infer<typeof tripUploadSchema>
+
+// A trip as the server keeps it. Summary figures and the driving score are worked out from the
+// samples on upload.
+export interface UploadedTrip extends Trip {
+  driverId: string
+  driverName: string
+  uploadedAt: number
+  thresholds: BehaviorThresholds // what the events were measured against
+  safetyScore: number
+  events: BehaviorEvent[]
+}
+
+export type UploadedTripSummary = Omit<UploadedTrip, "samples" | "events" | "thresholds"> & {
+  eventCounts: Record<BehaviorEventType, number>
+}
+
+export interface DriverStats {
+  driverId: string
+  driverName: string
+  trips: number
+  distance: number // meters
+  duration: number // milliseconds
+  averageSpeed: number // mph, distance over time across all trips
+  maxSpeed: number // mph
+  safetyScore: number // trip scores weighted by distance
+  eventCounts: Record<BehaviorEventType, number>
+  lastTripAt: number
+}
+
+export interface TripListResponse {
+  trips: UploadedTripSummary[]
+  drivers: DriverStats[]
+}
+
+export interface TripQuery {
+  driverId?: string
+  from?: number // startedAt bounds, ms since epoch
+  to?: number
+  limit?: number
+}
+
+// Drivers are identified by name, so "Sam " and "sam" are the same person
+export const driverIdFor = (name: string) => name.trim().toLowerCase().replace(/\s+/g, "-")
+
+export function toUploadedTrip(
+  upload: TripUpload,
+  thresholds: BehaviorThresholds,
+  uploadedAt = Date.now(),
+): UploadedTrip {
+  const samples = [...upload.trip.samples].sort((a, b) => a.timestamp - b.timestamp)
+  const { score, events } = analyzeDriving(samples, thresholds)
+  return {
+    id: upload.trip.id,
+    name: upload.trip.name,
+    startedAt: samples[0].timestamp,
+    endedAt: samples[samples.length - 1].timestamp,
+    samples,
+    ...summarizeTrip(samples),
+    driverId: driverIdFor(upload.driver.name),
+    driverName: upload.driver.name,
+    uploadedAt,
+    thresholds,
+    safetyScore: score,
+    events,
+  }
+}
+
+export function summarizeUploadedTrip({ samples, events, thresholds, ...trip }: UploadedTrip): UploadedTripSummary {
+  return { ...trip, eventCounts: countEvents(events) }
+}
+
+export function summarizeDrivers(trips: UploadedTripSummary[]): DriverStats[] {
+  const drivers = new Map<string, DriverStats>()
+  for (const trip of trips) {
+    const stats = drivers.get(trip.driverId) ?? {
+      driverId: trip.driverId,
+      driverName: trip.driverName,
+      trips: 0,
+      distance: 0,
+      duration: 0,
+      averageSpeed: 0,
+      maxSpeed: 0,
+      safetyScore: 0,
+      eventCounts: countEvents([]),
+      lastTripAt: 0,
+    }
+    stats.trips++
+    stats.distance += trip.distance
+    stats.duration += trip.duration
+    stats.maxSpeed = Math.max(stats.maxSpeed, trip.maxSpeed)
+    // Summed here, divided by the distance below
+    stats.safetyScore += trip.safetyScore * trip.distance
+    for (const type of Object.keys(stats.eventCounts) as BehaviorEventType[]) {
+      stats.eventCounts[type] += trip.eventCounts[type]
+    }
+    if (trip.startedAt > stats.lastTripAt) {
+      // The most recent spelling of the name wins
+      stats.lastTripAt = trip.startedAt
+      stats.driverName = trip.driverName
+    }
+    drivers.set(trip.driverId, stats)
+  }
+
+  return [...drivers.values()]
+    .map((stats) => ({
+      ...stats,
+      averageSpeed: stats.duration > 0 ? (stats.distance / (stats.duration / 1000)) * MPS_TO_MPH : 0,
+      safetyScore: stats.distance > 0 ? Math.round(stats.safetyScore / stats.distance) : 100,
+    }))
+    .sort((a, b) => b.lastTripAt - a.lastTripAt)
+}
@@ -0,0 +1,60 @@
+export interface FrameLoop {
+  start: () => void
+  stop: () => void
+}
+
+// A worker that only keeps time. Browsers throttle timers on a hidden page to once a second or
+// less, but leave dedicated workers alone, and their messages still reach the page.
+const TICKER_SOURCE = `
+let timer = null
+onmessage = (event) => {
+  clearInterval(timer)
+  timer = event.data > 0 ? setInterval(() => postMessage(0), event.data) : null
+}
+`
+
+/**
+ * Calls `draw` `fps` times a second, whether or not the page is visible. Canvas recordings and
+ * the picture-in-picture speedometer go through this rather than requestAnimationFrame, which
+ * stops altogether while the tab is in the background (say, behind a navigation app). Falls back
+ * to setInterval, throttled when hidden, where workers are unavailable.
+ */
+export function createFrameLoop(draw: () => void, fps: number): FrameLoop {
+  const interval = Math.max(1, Math.round(1000 / fps))
+  let worker: Worker | null = null
+  let workerUrl: string | null = null
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const stop = () => {
+    if (worker) {
+      worker.terminate()
+      worker = null
+    }
+    if (workerUrl) {
+      URL.revokeObjectURL(workerUrl)
+      workerUrl = null
+    }
+    if (timer !== null) {
+      clearInterval(timer)
+      timer = null
+    }
+  }
+
+  const start = () => {
+    stop()
+    draw()
+    try {
+      workerUrl = URL.createObjectURL(new Blob([TICKER_SOURCE], { type: "text/javascript" }))
+      worker = new Worker(workerUrl)
+      worker.onmessage = () => draw()
+      worker.postMessage(interval)
+    } catch (err) {
+      // A content security policy without blob: workers, or no Worker at all
+      console.warn("Frame loop worker unavailable, using a timer:", err)
+      stop()
+      timer = setInterval(draw, interval)
+    }
+  }
+
+  return { start, stop }
+}
@@ -0,0 +1,86 @@
+export const EARTH_RADIUS_M = 6371e3 // Earth's radius in meters
+
+export interface LatLng {
+  latitude: number
+  longitude: number
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Great-circle distance in meters using the haversine formula
+export function haversineDistance(pos1: LatLng, pos2: LatLng): number {
+  const φ1 = toRadians(pos1.latitude)
+  const φ2 = toRadians(pos2.latitude)
+  const Δφ = toRadians(pos2.latitude - pos1.latitude)
+  const Δλ = toRadians(pos2.longitude - pos1.longitude)
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+
+  return EARTH_RADIUS_M * c
+}
+
+// Initial great-circle bearing from one point towards another, degrees clockwise from north
+export function initialBearing(from: LatLng, to: LatLng): number {
+  const φ1 = toRadians(from.latitude)
+  const φ2 = toRadians(to.latitude)
+  const Δλ = toRadians(to.longitude - from.longitude)
+
+  const y = Math.sin(Δλ) * Math.cos(φ2)
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ)
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+// Ray-casting test against a single ring; the ring may be open or closed
+function pointInRing(point: LatLng, ring: LatLng[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]
+    const b = ring[j]
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    if (crosses) inside = !inside
+  }
+
+  return inside
+}
+
+// The first ring is the outer boundary, any further rings are holes (GeoJSON polygon semantics)
+export function pointInPolygon(point: LatLng, rings: LatLng[][]): boolean {
+  if (rings.length === 0 || !pointInRing(point, rings[0])) return false
+  return !rings.slice(1).some((hole) => pointInRing(point, hole))
+}
+
+// Distance in meters from a point to a polyline, using a local equirectangular projection
+// centred on the point. Accurate to well under a meter at corridor scales.
+export function distanceToPolyline(point: LatLng, path: LatLng[]): number {
+  if (path.length === 0) return Infinity
+  if (path.length === 1) return haversineDistance(point, path[0])
+
+  const cosLat = Math.cos(toRadians(point.latitude))
+  const project = (p: LatLng) => ({
+    x: toRadians(p.longitude - point.longitude) * cosLat * EARTH_RADIUS_M,
+    y: toRadians(p.latitude - point.latitude) * EARTH_RADIUS_M,
+  })
+
+  let minDistance = Infinity
+  for (let i = 1; i < path.length; i++) {
+    const a = project(path[i - 1])
+    const b = project(path[i])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSq = dx * dx + dy * dy
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq))
+    minDistance = Math.min(minDistance, Math.hypot(a.x + t * dx, a.y + t * dy))
+  }
+
+  return minDistance
+}
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"]
+
+export const compassPoint = (heading: number) =>
+  COMPASS_POINTS[Math.round((((heading % 360) + 360) % 360) / 45) % COMPASS_POINTS.length]
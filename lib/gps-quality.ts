@@ -0,0 +1,85 @@
+export type FixQuality = "excellent" | "good" | "fair" | "poor" | "none"
+
+export interface FixRecord {
+  timestamp: number
+  receivedAt: number // Date.now() when the callback ran; fix timestamps can lag or be in device time
+  accuracy: number // meters
+  altitude: number | null
+  altitudeAccuracy: number | null
+  heading: number | null
+}
+
+export interface FixStats {
+  last: FixRecord | null
+  updateRate: number | null // Hz over the recent window
+  accuracyHistory: number[] // oldest first
+}
+
+export interface GpsDiagnosticsSettings {
+  lockSpeedOnPoorFix: boolean
+}
+
+export const GPS_DIAGNOSTICS_STORAGE_KEY = "gps-diagnostics"
+
+export const DEFAULT_GPS_DIAGNOSTICS_SETTINGS: GpsDiagnosticsSettings = {
+  lockSpeedOnPoorFix: true,
+}
+
+export const FIX_QUALITY_LABELS: Record<FixQuality, string> = {
+  excellent: "Excellent",
+  good: "Good",
+  fair: "Fair",
+  poor: "Poor",
+  none: "No fix",
+}
+
+export const FIX_QUALITY_COLORS: Record<FixQuality, string> = {
+  excellent: "#22c55e",
+  good: "#84cc16",
+  fair: "#f59e0b",
+  poor: "#ef4444",
+  none: "#64748b",
+}
+
+// A fix older than this is stale: the receiver has lost lock or the page was throttled
+export const STALE_FIX_MS = 10_000
+
+// Horizontal accuracy in meters beyond which speed is mostly position noise
+export const POOR_FIX_ACCURACY = 40
+
+const QUALITY_BANDS: [number, FixQuality][] = [
+  [5, "excellent"],
+  [15, "good"],
+  [POOR_FIX_ACCURACY, "fair"],
+]
+
+export function rateFix(accuracy: number | null, ageMs: number | null): FixQuality {
+  if (accuracy === null || ageMs === null || ageMs > STALE_FIX_MS) return "none"
+  return QUALITY_BANDS.find(([limit]) => accuracy <= limit)?.[1] ?? "poor"
+}
+
+// Keeps a short rolling history of fixes for the diagnostics panel
+export function createFixMonitor(historySize = 60, rateWindow = 10) {
+  let history: FixRecord[] = []
+
+  return {
+    record(fix: FixRecord) {
+      history = [...history.slice(-(historySize - 1)), fix]
+    },
+    reset() {
+      history = []
+    },
+    getStats(): FixStats {
+      const recent = history.slice(-rateWindow)
+      const span = recent.length > 1 ? recent[recent.length - 1].receivedAt - recent[0].receivedAt : 0
+
+      return {
+        last: history[history.length - 1] ?? null,
+        updateRate: span > 0 ? ((recent.length - 1) / span) * 1000 : null,
+        accuracyHistory: history.map((fix) => fix.accuracy),
+      }
+    },
+  }
+}
+
+export type FixMonitor = ReturnType<typeof createFixMonitor>
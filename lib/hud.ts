@@ -0,0 +1,81 @@
+import type { LatLng } from "@/lib/geo"
+
+export type HudColor = "green" | "white" | "amber"
+
+export interface HudSettings {
+  mirrored: boolean
+  color: HudColor
+  autoDim: boolean
+  showHeading: boolean
+  showAlerts: boolean
+}
+
+export const HUD_STORAGE_KEY = "hud"
+
+export const DEFAULT_HUD_SETTINGS: HudSettings = {
+  mirrored: true,
+  color: "green",
+  autoDim: true,
+  showHeading: true,
+  showAlerts: true,
+}
+
+// Saturated colors reflect best off glass; alert and warning colors stay fixed across themes
+export const HUD_COLORS: Record<HudColor, string> = {
+  green: "#4ade80",
+  white: "#f8fafc",
+  amber: "#fbbf24",
+}
+
+const DEG = Math.PI / 180
+
+// Approximate solar elevation in degrees (NOAA low-accuracy formulae, good to ~1°)
+export function solarElevation(position: LatLng, date: Date): number {
+  const dayOfYear = (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 0)) / 86400000
+  const hours = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600
+  const gamma = ((2 * Math.PI) / 365) * (dayOfYear - 1 + (hours - 12) / 24)
+
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma)
+  const equationOfTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma))
+
+  const solarMinutes = hours * 60 + equationOfTime + 4 * position.longitude
+  const hourAngle = (solarMinutes / 4 - 180) * DEG
+  const latitude = position.latitude * DEG
+
+  const cosZenith =
+    Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  return 90 - Math.acos(Math.min(1, Math.max(-1, cosZenith))) / DEG
+}
+
+const MIN_BRIGHTNESS = 0.35
+
+/**
+ * Display brightness for the HUD: full in daylight, dimmed at night so the reflection does not
+ * dazzle. Uses the sun's elevation when a fix is available, otherwise the local clock.
+ */
+export function hudBrightness(position: LatLng | null, date = new Date()): number {
+  if (position) {
+    // Fade across civil twilight, from 6° above to 6° below the horizon
+    const elevation = solarElevation(position, date)
+    const t = Math.min(1, Math.max(0, (elevation + 6) / 12))
+    return MIN_BRIGHTNESS + (1 - MIN_BRIGHTNESS) * t
+  }
+
+  const hour = date.getHours()
+  if (hour >= 21 || hour < 6) return MIN_BRIGHTNESS
+  if (hour >= 19 || hour < 8) return (1 + MIN_BRIGHTNESS) / 2
+  return 1
+}
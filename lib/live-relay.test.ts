@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST as createSession } from "@/app/api/live/route"
+import { DELETE as endSession, POST as publishFixes } from "@/app/api/live/[id]/route"
+import { GET as followSession } from "@/app/api/live/[id]/events/route"
+import { createLiveRelay, type RelaySubscriber } from "@/lib/live-relay"
+import { LIVE_SHARE_PROTOCOL_VERSION, type CreateSessionResponse, type LiveFix } from "@/lib/live-share-protocol"
+
+const START = 1_700_000_000_000
+
+const fix = (seq: number): LiveFix => ({
+  seq,
+  timestamp: START + seq * 1000,
+  latitude: 52.52,
+  longitude: 13.405,
+  speed: 12,
+  heading: 90,
+  accuracy: 5,
+  altitude: null,
+})
+
+// Records what a viewer was sent, as [event, seq or reason]
+function recorder() {
+  const received: [string, unknown][] = []
+  const subscriber: RelaySubscriber = (event, data) => {
+    const detail = "seq" in data ? data.seq : "reason" in data ? data.reason : data.id
+    received.push([event, detail])
+  }
+  return { received, subscriber }
+}
+
+describe("createLiveRelay", () => {
+  it("only lets the token holder publish or end a session", () => {
+    const relay = createLiveRelay()
+    const created = relay.create(600)
+    if (!created.ok) throw new Error(created.error)
+    const { id, publishToken } = created.value
+
+    expect(relay.publish(id, null, [fix(0)])).toEqual({ ok: false, error: "unauthorized" })
+    expect(relay.publish(id, "wrong", [fix(0)])).toEqual({ ok: false, error: "unauthorized" })
+    expect(relay.end(id, "wrong")).toEqual({ ok: false, error: "unauthorized" })
+    expect(relay.publish(id, publishToken, [fix(0)])).toEqual({ ok: true, value: { accepted: 1, lastSeq: 0 } })
+    expect(relay.publish("unknown", publishToken, [fix(1)])).toEqual({ ok: false, error: "not_found" })
+  })
+
+  it("drops repeated fixes and sends the rest in seq order", () => {
+    const relay = createLiveRelay()
+    const created = relay.create(600)
+    if (!created.ok) throw new Error(created.error)
+    const { id, publishToken } = created.value
+    const viewer = recorder()
+    relay.subscribe(id, -1, viewer.subscriber)
+
+    relay.publish(id, publishToken, [fix(0), fix(1)])
+    // A resend of an unacknowledged batch, plus newer fixes out of order
+    const result = relay.publish(id, publishToken, [fix(3), fix(1), fix(2)])
+
+    expect(result).toEqual({ ok: true, value: { accepted: 2, lastSeq: 3 } })
+    expect(viewer.received).toEqual([
+      ["hello", id],
+      ["fix", 0],
+      ["fix", 1],
+      ["fix", 2],
+      ["fix", 3],
+    ])
+  })
+
+  it("replays buffered fixes newer than the viewer's last seq", () => {
+    const relay = createLiveRelay({ bufferSize: 3 })
+    const created = relay.create(600)
+    if (!created.ok) throw new Error(created.error)
+    const { id, publishToken } = created.value
+    relay.publish(id, publishToken, [0, 1, 2, 3, 4].map(fix))
+
+    const rejoining = recorder()
+    relay.subscribe(id, 3, rejoining.subscriber)
+    expect(rejoining.received).toEqual([
+      ["hello", id],
+      ["fix", 4],
+    ])
+
+    // Only the last bufferSize fixes are kept for new viewers
+    const joining = recorder()
+    relay.subscribe(id, -1, joining.subscriber)
+    expect(joining.received.slice(1)).toEqual([
+      ["fix", 2],
+      ["fix", 3],
+      ["fix", 4],
+    ])
+  })
+
+  it("tells viewers when the session is stopped and forgets it", () => {
+    const relay = createLiveRelay()
+    const created = relay.create(600)
+    if (!created.ok) throw new Error(created.error)
+    const { id, publishToken } = created.value
+    const viewer = recorder()
+    relay.subscribe(id, -1, viewer.subscriber)
+
+    expect(relay.end(id, publishToken)).toEqual({ ok: true, value: null })
+    expect(viewer.received.at(-1)).toEqual(["end", "stopped"])
+    expect(relay.sessionCount()).toBe(0)
+    expect(relay.subscribe(id, -1, recorder().subscriber)).toEqual({ ok: false, error: "not_found" })
+  })
+
+  it("expires sessions once their ttl has passed", () => {
+    let now = START
+    const relay = createLiveRelay({ now: () => now })
+    const created = relay.create(600)
+    if (!created.ok) throw new Error(created.error)
+    const { id, publishToken } = created.value
+    const viewer = recorder()
+    relay.subscribe(id, -1, viewer.subscriber)
+
+    now += 600 * 1000
+    expect(relay.publish(id, publishToken, [fix(0)])).toEqual({ ok: false, error: "expired" })
+    expect(viewer.received.at(-1)).toEqual(["end", "expired"])
+    expect(relay.sessionCount()).toBe(0)
+  })
+
+  it("refuses new sessions at the cap until one closes", () => {
+    const relay = createLiveRelay({ maxSessions: 2 })
+    const first = relay.create(600)
+    relay.create(600)
+    expect(relay.create(600)).toEqual({ ok: false, error: "too_many_sessions" })
+
+    if (!first.ok) throw new Error(first.error)
+    relay.end(first.value.id, first.value.publishToken)
+    expect(relay.create(600).ok).toBe(true)
+  })
+})
+
+describe("route handlers", () => {
+  const context = (id: string) => ({ params: Promise.resolve({ id }) })
+
+  const post = (url: string, body: unknown, token?: string) =>
+    new Request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(token && { Authorization: `Bearer ${token}` }) },
+      body: JSON.stringify(body),
+    })
+
+  async function startSession(): Promise<CreateSessionResponse> {
+    const response = await createSession(post("http://relay.test/api/live", { version: 1, ttl: 600 }))
+    expect(response.status).toBe(201)
+    return response.json()
+  }
+
+  const publish = (session: CreateSessionResponse, fixes: LiveFix[]) =>
+    publishFixes(
+      post(
+        `http://relay.test/api/live/${session.id}`,
+        { version: LIVE_SHARE_PROTOCOL_VERSION, fixes },
+        session.publishToken,
+      ),
+      context(session.id),
+    )
+
+  const end = (session: CreateSessionResponse) =>
+    endSession(
+      new Request(`http://relay.test/api/live/${session.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${session.publishToken}` },
+      }),
+      context(session.id),
+    )
+
+  async function follow(id: string, headers: Record<string, string> = {}) {
+    const response = await followSession(
+      new Request(`http://relay.test/api/live/${id}/events`, { headers }),
+      context(id),
+    )
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    // Each event is enqueued as one chunk, so reading chunk by chunk gives one event at a time
+    const next = async () => {
+      const { value } = await reader.read()
+      const text = decoder.decode(value)
+      return {
+        event: text.match(/^event: (.+)$/m)?.[1],
+        id: text.match(/^id: (.+)$/m)?.[1],
+        data: JSON.parse(text.match(/^data: (.+)$/m)![1]),
+      }
+    }
+    return { response, reader, next }
+  }
+
+  beforeEach(() => {
+    delete (globalThis as { __liveRelay?: unknown }).__liveRelay
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("rejects a session request for another protocol version", async () => {
+    const response = await createSession(post("http://relay.test/api/live", { version: 2, ttl: 600 }))
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ error: "unsupported_version" })
+  })
+
+  it("publishes fixes and rejects a wrong token", async () => {
+    const session = await startSession()
+    const response = await publish(session, [fix(0), fix(1)])
+    expect(await response.json()).toEqual({ accepted: 2, lastSeq: 1 })
+
+    const forged = await publishFixes(
+      post(`http://relay.test/api/live/${session.id}`, { version: 1, fixes: [fix(2)] }, "forged"),
+      context(session.id),
+    )
+    expect(forged.status).toBe(401)
+  })
+
+  it("streams the buffered trail, live fixes and the end of the session", async () => {
+    const session = await startSession()
+    await publish(session, [fix(0), fix(1)])
+    const viewer = await follow(session.id, { "Last-Event-ID": "0" })
+    expect(viewer.response.headers.get("Content-Type")).toBe("text/event-stream")
+
+    expect(await viewer.next()).toMatchObject({ event: "hello", data: { id: session.id } })
+    expect(await viewer.next()).toMatchObject({ event: "fix", id: "1", data: { seq: 1 } })
+
+    await publish(session, [fix(2)])
+    expect(await viewer.next()).toMatchObject({ event: "fix", id: "2" })
+
+    expect((await end(session)).status).toBe(204)
+    expect(await viewer.next()).toMatchObject({ event: "end", data: { reason: "stopped" } })
+    expect((await viewer.reader.read()).done).toBe(true)
+    expect((await end(session)).status).toBe(404)
+  })
+
+  it("answers 404 for a viewer of an unknown session", async () => {
+    const response = await followSession(new Request("http://relay.test/api/live/nope/events"), context("nope"))
+    expect(response.status).toBe(404)
+  })
+
+  it("drops a viewer whose stream has closed without affecting the others", async () => {
+    const session = await startSession()
+    const gone = await follow(session.id)
+    const watching = await follow(session.id)
+    await gone.next()
+    await watching.next()
+
+    // The first viewer's stream fails as if its connection closed without a cancel
+    const enqueue = vi.spyOn(ReadableStreamDefaultController.prototype, "enqueue").mockImplementationOnce(() => {
+      throw new TypeError("Invalid state: Controller is already closed")
+    })
+    expect((await publish(session, [fix(0)])).status).toBe(200)
+    expect(await watching.next()).toMatchObject({ event: "fix", id: "0" })
+
+    enqueue.mockClear()
+    expect((await publish(session, [fix(1)])).status).toBe(200)
+    expect(enqueue).toHaveBeenCalledOnce()
+
+    expect((await end(session)).status).toBe(204)
+    await watching.next()
+    expect(await watching.next()).toMatchObject({ event: "end" })
+  })
+})
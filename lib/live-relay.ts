@@ -0,0 +1,214 @@
+import type { z } from "zod"
+import {
+  LIVE_SHARE_PROTOCOL_VERSION,
+  type CreateSessionResponse,
+  type LiveFix,
+  type LiveShareError,
+  type LiveShareErrorCode,
+  type LiveShareEventName,
+  type LiveShareEvents,
+  type PublishResponse,
+} from "@/lib/live-share-protocol"
+
+/**
+ * In-memory relay behind the /api/live route handlers. It uses only web-standard APIs, no Next.js
+ * ones, so it can be driven directly from a script or test. State lives in this process only: self-host it with
+ * `next start` (one instance), not on serverless platforms that spread requests across instances.
+ */
+
+export type RelaySubscriber = <E extends LiveShareEventName>(event: E, data: LiveShareEvents[E]) => void
+
+export type RelayResult<T> = { ok: true; value: T } | { ok: false; error: LiveShareErrorCode }
+
+interface RelaySession {
+  id: string
+  publishToken: string
+  expiresAt: number
+  fixes: LiveFix[] // the most recent fixes, replayed to viewers that join or reconnect
+  lastSeq: number
+  subscribers: Set<RelaySubscriber>
+  expiryTimer: ReturnType<typeof setTimeout>
+}
+
+export interface LiveRelayOptions {
+  bufferSize?: number
+  // Sessions open at once; anyone can create one, so this bounds the memory a flood of requests can take
+  maxSessions?: number
+  now?: () => number
+}
+
+export interface LiveRelay {
+  create(ttlSeconds: number): RelayResult<CreateSessionResponse>
+  publish(id: string, token: string | null, fixes: LiveFix[]): RelayResult<PublishResponse>
+  end(id: string, token: string | null): RelayResult<null>
+  // Replays buffered fixes newer than afterSeq, then streams live ones until unsubscribed
+  subscribe(id: string, afterSeq: number, subscriber: RelaySubscriber): RelayResult<() => void>
+  sessionCount(): number
+}
+
+const randomId = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, "0")).join("")
+
+export function createLiveRelay({
+  bufferSize = 300,
+  maxSessions = 500,
+  now = Date.now,
+}: LiveRelayOptions = {}): LiveRelay {
+  const sessions = new Map<string, RelaySession>()
+
+  const close = (session: RelaySession, reason: LiveShareEvents["end"]["reason"]) => {
+    clearTimeout(session.expiryTimer)
+    sessions.delete(session.id)
+    session.subscribers.forEach((subscriber) => subscriber("end", { reason }))
+    session.subscribers.clear()
+  }
+
+  // Timers do the expiring; the clock check covers a timer that has not fired yet
+  const find = (id: string): RelayResult<RelaySession> => {
+    const session = sessions.get(id)
+    if (!session) return { ok: false, error: "not_found" }
+    if (now() >= session.expiresAt) {
+      close(session, "expired")
+      return { ok: false, error: "expired" }
+    }
+    return { ok: true, value: session }
+  }
+
+  const authorize = (id: string, token: string | null): RelayResult<RelaySession> => {
+    const found = find(id)
+    if (found.ok && found.value.publishToken !== token) return { ok: false, error: "unauthorized" }
+    return found
+  }
+
+  return {
+    create(ttlSeconds) {
+      if (sessions.size >= maxSessions) return { ok: false, error: "too_many_sessions" }
+
+      const id = randomId(9)
+      const expiresAt = now() + ttlSeconds * 1000
+      const expiryTimer = setTimeout(() => {
+        const session = sessions.get(id)
+        if (session) close(session, "expired")
+      }, ttlSeconds * 1000)
+      // Never keep a script or test process alive just to expire a session
+      if (typeof expiryTimer === "object" && "unref" in expiryTimer) expiryTimer.unref()
+
+      const session: RelaySession = {
+        id,
+        publishToken: randomId(24),
+        expiresAt,
+        fixes: [],
+        lastSeq: -1,
+        subscribers: new Set(),
+        expiryTimer,
+      }
+      sessions.set(id, session)
+      return {
+        ok: true,
+        value: { version: LIVE_SHARE_PROTOCOL_VERSION, id, publishToken: session.publishToken, expiresAt },
+      }
+    },
+
+    publish(id, token, fixes) {
+      const found = authorize(id, token)
+      if (!found.ok) return found
+      const session = found.value
+
+      // Publishers resend whatever was not acknowledged, so anything already seen is a repeat
+      const fresh = fixes.filter((fix) => fix.seq > session.lastSeq).sort((a, b) => a.seq - b.seq)
+      for (const fix of fresh) {
+        session.lastSeq = fix.seq
+        session.fixes.push(fix)
+        session.subscribers.forEach((subscriber) => subscriber("fix", fix))
+      }
+      if (session.fixes.length > bufferSize) session.fixes.splice(0, session.fixes.length - bufferSize)
+      return { ok: true, value: { accepted: fresh.length, lastSeq: session.lastSeq } }
+    },
+
+    end(id, token) {
+      const found = authorize(id, token)
+      if (!found.ok) return found
+      close(found.value, "stopped")
+      return { ok: true, value: null }
+    },
+
+    subscribe(id, afterSeq, subscriber) {
+      const found = find(id)
+      if (!found.ok) return found
+      const session = found.value
+
+      subscriber("hello", { version: LIVE_SHARE_PROTOCOL_VERSION, id, expiresAt: session.expiresAt })
+      session.fixes.filter((fix) => fix.seq > afterSeq).forEach((fix) => subscriber("fix", fix))
+      session.subscribers.add(subscriber)
+      return { ok: true, value: () => session.subscribers.delete(subscriber) }
+    },
+
+    sessionCount: () => sessions.size,
+  }
+}
+
+// Next.js may evaluate route modules more than once (dev reloads, separate route bundles), so the
+// relay is shared through globalThis rather than a module-level variable
+const globalRelay = globalThis as typeof globalThis & { __liveRelay?: LiveRelay }
+
+export function getLiveRelay(): LiveRelay {
+  globalRelay.__liveRelay ??= createLiveRelay()
+  return globalRelay.__liveRelay
+}
+
+const ERROR_STATUS: Record<LiveShareErrorCode, number> = {
+  invalid_request: 400,
+  unsupported_version: 400,
+  unauthorized: 401,
+  not_found: 404,
+  expired: 410,
+  too_many_sessions: 503,
+}
+
+// A relay can serve publishers and viewers hosted elsewhere; the publish token is the access control
+export const RELAY_CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type, Last-Event-ID",
+}
+
+export const relayJson = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...RELAY_CORS_HEADERS, "Content-Type": "application/json" },
+  })
+
+export const relayError = (error: LiveShareErrorCode, message: string = error.replaceAll("_", " ")) =>
+  relayJson({ error, message } satisfies LiveShareError, ERROR_STATUS[error])
+
+/**
+ * Parses a request body against one of the protocol schemas, answering with the matching protocol
+ * error when it does not fit.
+ */
+export async function parseRelayRequest<T>(
+  request: Request,
+  schema: z.ZodType<T>,
+): Promise<{ ok: true; value: T } | { ok: false; response: Response }> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { ok: false, response: relayError("invalid_request", "Body must be JSON") }
+  }
+  const version = (body as { version?: unknown } | null)?.version
+  if (version !== LIVE_SHARE_PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      response: relayError("unsupported_version", `Protocol version ${LIVE_SHARE_PROTOCOL_VERSION} is required`),
+    }
+  }
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { ok: false, response: relayError("invalid_request", `${issue.path.join(".") || "body"}: ${issue.message}`) }
+  }
+  return { ok: true, value: parsed.data }
+}
+
+export const bearerToken = (request: Request) =>
+  request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1] ?? null
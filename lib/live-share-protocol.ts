@@ -0,0 +1,76 @@
+import { z } from "zod"
+
+/**
+ * Wire format shared by the live-share publisher, the relay and the viewer. See
+ * docs/live-share-protocol.md; bump the version for any change an older peer would misread.
+ */
+export const LIVE_SHARE_PROTOCOL_VERSION = 1
+
+// Share links last between five minutes and a day
+export const MIN_SHARE_TTL_SECONDS = 5 * 60
+export const MAX_SHARE_TTL_SECONDS = 24 * 60 * 60
+export const MAX_FIXES_PER_REQUEST = 100
+
+export const SHARE_DURATIONS = [
+  { seconds: 15 * 60, label: "15 min" },
+  { seconds: 60 * 60, label: "1 hour" },
+  { seconds: 4 * 60 * 60, label: "4 hours" },
+  { seconds: MAX_SHARE_TTL_SECONDS, label: "24 hours" },
+]
+
+export const liveFixSchema = z.object({
+  seq: z.number().int().nonnegative(), // per session, increasing; the relay drops repeats
+  timestamp: z.number(), // GPS fix time, ms since epoch
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  speed: z.number().nonnegative(), // m/s, after the publisher's smoothing
+  heading: z.number().min(0).max(360).nullable(),
+  accuracy: z.number().nonnegative(),
+  altitude: z.number().nullable(),
+})
+
+export type LiveFix = z.infer<typeof liveFixSchema>
+
+export const createSessionRequestSchema = z.object({
+  version: z.literal(LIVE_SHARE_PROTOCOL_VERSION),
+  ttl: z.number().int().min(MIN_SHARE_TTL_SECONDS).max(MAX_SHARE_TTL_SECONDS),
+})
+
+export type CreateSessionRequest = z.infer<typeof createSessionRequestSchema>
+
+export interface CreateSessionResponse {
+  version: number
+  id: string
+  publishToken: string // secret; only the publisher may post fixes or end the session
+  expiresAt: number
+}
+
+export const publishRequestSchema = z.object({
+  version: z.literal(LIVE_SHARE_PROTOCOL_VERSION),
+  fixes: z.array(liveFixSchema).min(1).max(MAX_FIXES_PER_REQUEST),
+})
+
+export type PublishRequest = z.infer<typeof publishRequestSchema>
+
+export interface PublishResponse {
+  accepted: number
+  lastSeq: number // highest seq the relay holds, so a publisher can drop everything up to it
+}
+
+// Payloads of the server-sent events on /api/live/{id}/events, keyed by event name
+export interface LiveShareEvents {
+  hello: { version: number; id: string; expiresAt: number }
+  fix: LiveFix
+  end: { reason: "stopped" | "expired" }
+}
+
+export type LiveShareEventName = keyof LiveShareEvents
+
+// Errors carry a machine-readable code so clients need not parse messages
+export type LiveShareErrorCode =
+  "invalid_request" | "unsupported_version" | "unauthorized" | "not_found" | "expired" | "too_many_sessions"
+
+export interface LiveShareError {
+  error: LiveShareErrorCode
+  message: string
+}
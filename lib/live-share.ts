@@ -0,0 +1,272 @@
+import {
+  LIVE_SHARE_PROTOCOL_VERSION,
+  MAX_FIXES_PER_REQUEST,
+  type CreateSessionResponse,
+  type LiveFix,
+  type LiveShareEvents,
+  type PublishResponse,
+} from "@/lib/live-share-protocol"
+
+export const LIVE_SHARE_STORAGE_KEY = "live-share"
+
+export interface LiveShareSettings {
+  ttl: number // seconds
+}
+
+export const DEFAULT_LIVE_SHARE_SETTINGS: LiveShareSettings = { ttl: 60 * 60 }
+
+export type LiveShareStatus = "idle" | "connecting" | "live" | "buffering" | "expired" | "error"
+
+export interface LiveShareState {
+  status: LiveShareStatus
+  id: string | null
+  viewerUrl: string | null
+  expiresAt: number | null
+  buffered: number // fixes waiting for the relay
+  error: string | null
+}
+
+export const IDLE_LIVE_SHARE_STATE: LiveShareState = {
+  status: "idle",
+  id: null,
+  viewerUrl: null,
+  expiresAt: null,
+  buffered: 0,
+  error: null,
+}
+
+// An empty relay URL means the relay built into this app
+export const relayEndpoint = (relayUrl: string, path = "") => `${relayUrl.trim().replace(/\/+$/, "")}/api/live${path}`
+
+export function viewerUrl(origin: string, relayUrl: string, id: string) {
+  const url = new URL(`/live/${id}`, origin)
+  if (relayUrl.trim()) url.searchParams.set("relay", relayUrl.trim())
+  return url.toString()
+}
+
+// Roughly 15 minutes of 1 Hz fixes; the oldest go first if an outage lasts longer
+const MAX_BUFFERED_FIXES = 900
+const MIN_RETRY_MS = 1000
+const MAX_RETRY_MS = 30000
+
+export interface LiveSharePublisherOptions {
+  relayUrl: string
+  origin: string // where viewer links should point
+  onChange: (state: LiveShareState) => void
+}
+
+export interface LiveSharePublisher {
+  start(ttlSeconds: number): Promise<void>
+  push(fix: Omit<LiveFix, "seq">): void
+  stop(): Promise<void>
+}
+
+/**
+ * Publishes fixes to a relay session. Fixes queue locally and are sent in order in batches; a batch
+ * that fails stays queued and is retried with backoff, so a dropped connection delays fixes
+ * rather than losing them. The relay ignores repeated seqs, which makes resending safe.
+ */
+export function createLiveSharePublisher({
+  relayUrl,
+  origin,
+  onChange,
+}: LiveSharePublisherOptions): LiveSharePublisher {
+  let state = IDLE_LIVE_SHARE_STATE
+  let session: CreateSessionResponse | null = null
+  let queue: LiveFix[] = []
+  let nextSeq = 0
+  let isSending = false
+  // Set by stop() so a start() still waiting on the relay knows to close the session it gets
+  let isStopped = false
+  let retryDelay = MIN_RETRY_MS
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null
+
+  const update = (changes: Partial<LiveShareState>) => {
+    state = { ...state, ...changes, buffered: queue.length }
+    onChange(state)
+  }
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer)
+    if (expiryTimer) clearTimeout(expiryTimer)
+    retryTimer = expiryTimer = null
+  }
+
+  const finish = (status: LiveShareStatus, error: string | null = null) => {
+    clearTimers()
+    if (typeof window !== "undefined") window.removeEventListener("online", retryNow)
+    session = null
+    queue = []
+    update({ ...IDLE_LIVE_SHARE_STATE, status, error })
+  }
+
+  const scheduleRetry = () => {
+    if (retryTimer) return
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      send()
+    }, retryDelay)
+    retryDelay = Math.min(MAX_RETRY_MS, retryDelay * 2)
+  }
+
+  function retryNow() {
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
+    retryDelay = MIN_RETRY_MS
+    send()
+  }
+
+  async function send() {
+    if (!session || isSending || queue.length === 0) return
+    const current = session
+    const batch = queue.slice(0, MAX_FIXES_PER_REQUEST)
+    isSending = true
+    try {
+      const response = await fetch(relayEndpoint(relayUrl, `/${current.id}`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${current.publishToken}` },
+        body: JSON.stringify({ version: LIVE_SHARE_PROTOCOL_VERSION, fixes: batch }),
+      })
+      if (session !== current) return
+
+      if (response.status === 404 || response.status === 410) {
+        finish("expired")
+        return
+      }
+      if (!response.ok) {
+        // Server trouble is worth retrying; a rejected request will be rejected again
+        if (response.status >= 500) throw new Error(`Relay responded ${response.status}`)
+        const body = await response.json().catch(() => null)
+        finish("error", body?.message ?? `Relay rejected the fixes (${response.status})`)
+        return
+      }
+
+      const { lastSeq } = (await response.json()) as PublishResponse
+      queue = queue.filter((fix) => fix.seq > lastSeq)
+      retryDelay = MIN_RETRY_MS
+      update({ status: "live", error: null })
+    } catch (err) {
+      if (session !== current) return
+      // Log the outage once, not every retry
+      if (state.status !== "buffering") console.error("Live share error:", err)
+      update({ status: "buffering" })
+      scheduleRetry()
+      return
+    } finally {
+      isSending = false
+    }
+    send()
+  }
+
+  const endSession = async (current: CreateSessionResponse) => {
+    try {
+      await fetch(relayEndpoint(relayUrl, `/${current.id}`), {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${current.publishToken}` },
+      })
+    } catch (err) {
+      // The session still expires on its own
+      console.error("Live share error:", err)
+    }
+  }
+
+  return {
+    async start(ttlSeconds) {
+      isStopped = false
+      clearTimers()
+      queue = []
+      nextSeq = 0
+      update({ ...IDLE_LIVE_SHARE_STATE, status: "connecting" })
+      try {
+        const response = await fetch(relayEndpoint(relayUrl), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ version: LIVE_SHARE_PROTOCOL_VERSION, ttl: ttlSeconds }),
+        })
+        const body = await response.json()
+        if (!response.ok) throw new Error(body?.message ?? `Relay responded ${response.status}`)
+        if (isStopped) {
+          // Stopped while the session was being created; nobody is going to publish to it
+          await endSession(body as CreateSessionResponse)
+          return
+        }
+        session = body as CreateSessionResponse
+      } catch (err) {
+        if (isStopped) return
+        finish("error", "Unable to reach the live share relay")
+        console.error("Live share error:", err)
+        return
+      }
+
+      const current = session
+      expiryTimer = setTimeout(() => session === current && finish("expired"), current.expiresAt - Date.now())
+      if (typeof window !== "undefined") window.addEventListener("online", retryNow)
+      update({
+        status: "live",
+        id: current.id,
+        viewerUrl: viewerUrl(origin, relayUrl, current.id),
+        expiresAt: current.expiresAt,
+      })
+      send()
+    },
+
+    push(fix) {
+      if (!session) return
+      queue.push({ ...fix, seq: nextSeq++ })
+      if (queue.length > MAX_BUFFERED_FIXES) queue.splice(0, queue.length - MAX_BUFFERED_FIXES)
+      update({})
+      // While backing off the queued fixes wait for the retry rather than hammering a dead relay
+      if (!retryTimer) send()
+    },
+
+    async stop() {
+      isStopped = true
+      const current = session
+      finish("idle")
+      if (current) await endSession(current)
+    },
+  }
+}
+
+export type LiveViewerStatus = "connecting" | "live" | "reconnecting" | "ended" | "unavailable"
+
+export interface LiveViewerHandlers {
+  onHello: (hello: LiveShareEvents["hello"]) => void
+  onFix: (fix: LiveFix) => void
+  onStatus: (status: LiveViewerStatus) => void
+}
+
+/**
+ * Follows a session as a viewer. EventSource reconnects by itself and resumes after the last fix it
+ * saw; a refused connection (unknown or expired session) is final.
+ */
+export function subscribeToLiveShare(relayUrl: string, id: string, handlers: LiveViewerHandlers): () => void {
+  const source = new EventSource(relayEndpoint(relayUrl, `/${id}/events`))
+  let isEnded = false
+  handlers.onStatus("connecting")
+
+  source.addEventListener("hello", (event) => {
+    const hello = JSON.parse((event as MessageEvent).data) as LiveShareEvents["hello"]
+    if (hello.version !== LIVE_SHARE_PROTOCOL_VERSION) {
+      isEnded = true
+      source.close()
+      handlers.onStatus("unavailable")
+      return
+    }
+    handlers.onHello(hello)
+    handlers.onStatus("live")
+  })
+  source.addEventListener("fix", (event) => handlers.onFix(JSON.parse((event as MessageEvent).data) as LiveFix))
+  source.addEventListener("end", () => {
+    isEnded = true
+    source.close()
+    handlers.onStatus("ended")
+  })
+  source.onerror = () => {
+    if (isEnded) return
+    handlers.onStatus(source.readyState === EventSource.CLOSED ? "unavailable" : "reconnecting")
+  }
+
+  return () => source.close()
+}
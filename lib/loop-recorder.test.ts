@@ -0,0 +1,195 @@
+import "fake-indexeddb/auto"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { withStore } from "@/lib/db"
+import {
+  SEGMENT_SECONDS,
+  createDecelerationTrigger,
+  createLoopRecorder,
+  listEventClips,
+  listSegments,
+} from "@/lib/loop-recorder"
+
+// Hands over one small chunk when stopped, as a real recorder does with its buffered data
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = []
+  static failNext = false
+  state: "inactive" | "recording" = "inactive"
+  ondataavailable: ((event: { data: Blob }) => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+  onstop: (() => void) | null = null
+
+  constructor() {
+    if (FakeMediaRecorder.failNext) throw new DOMException("Track ended", "NotSupportedError")
+    FakeMediaRecorder.instances.push(this)
+  }
+
+  start() {
+    this.state = "recording"
+  }
+
+  stop() {
+    this.state = "inactive"
+    this.ondataavailable?.({ data: new Blob(["frame"], { type: "video/webm" }) })
+    this.onstop?.()
+  }
+}
+
+const SEGMENT_MS = SEGMENT_SECONDS * 1000
+
+// Segments are stored asynchronously after each rotation; wait on the real event loop until done
+async function until(check: () => boolean) {
+  for (let attempt = 0; attempt < 500; attempt++) {
+    if (check()) return
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+  throw new Error("Timed out waiting for the loop recorder")
+}
+
+describe("createLoopRecorder", () => {
+  beforeEach(async () => {
+    // fake-indexeddb schedules its work with setImmediate, so only the rotation timers and the clock are faked
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"], now: 0 })
+    vi.stubGlobal("MediaRecorder", FakeMediaRecorder)
+    FakeMediaRecorder.instances = []
+    FakeMediaRecorder.failNext = false
+    await withStore("loopSegments", "readwrite", (store) => store.clear())
+    await withStore("eventClips", "readwrite", (store) => store.clear())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  const create = ({ onError = vi.fn(), onChange = vi.fn() } = {}) =>
+    createLoopRecorder({
+      stream: {} as MediaStream,
+      mimeType: "video/webm",
+      minutes: 1,
+      onChange,
+      onError,
+    })
+
+  it("starts a new recorder for every segment", () => {
+    const recorder = create()
+    recorder.start()
+    vi.advanceTimersByTime(SEGMENT_MS * 2)
+    expect(FakeMediaRecorder.instances).toHaveLength(3)
+    expect(FakeMediaRecorder.instances.map((r) => r.state)).toEqual(["inactive", "inactive", "recording"])
+    recorder.stop()
+  })
+
+  it("reports a segment that cannot start and stops cleanly", () => {
+    const onError = vi.fn()
+    const recorder = create({ onError })
+    recorder.start()
+
+    FakeMediaRecorder.failNext = true
+    expect(() => vi.advanceTimersByTime(SEGMENT_MS)).not.toThrow()
+
+    expect(onError).toHaveBeenCalledExactlyOnceWith(expect.any(DOMException), "segment-start")
+    expect(recorder.isRunning()).toBe(false)
+    // The segment that was recording is finished rather than left running
+    expect(FakeMediaRecorder.instances[0].state).toBe("inactive")
+    // No further rotation is scheduled
+    FakeMediaRecorder.failNext = false
+    vi.advanceTimersByTime(SEGMENT_MS * 3)
+    expect(FakeMediaRecorder.instances).toHaveLength(1)
+  })
+
+  it("reports a failing recorder as a recorder error", () => {
+    const onError = vi.fn()
+    create({ onError }).start()
+    FakeMediaRecorder.instances[0].onerror?.(new Event("error"))
+    expect(onError).toHaveBeenCalledExactlyOnceWith(expect.any(Event), "recorder")
+  })
+
+  it("keeps only the newest `minutes` of footage", async () => {
+    const onChange = vi.fn()
+    const recorder = create({ onChange })
+    recorder.start()
+    vi.advanceTimersByTime(SEGMENT_MS * 5)
+    await until(() => onChange.mock.calls.length === 5)
+
+    // One minute is two 30 s segments
+    const segments = await listSegments()
+    expect(segments.map((segment) => segment.startedAt)).toEqual([SEGMENT_MS * 3, SEGMENT_MS * 4])
+
+    recorder.stop()
+    await until(() => onChange.mock.calls.length === 6)
+    expect((await listSegments()).map((segment) => segment.startedAt)).toEqual([SEGMENT_MS * 4, SEGMENT_MS * 5])
+  })
+
+  it("keeps each fix with the segment it was recorded in", async () => {
+    const onChange = vi.fn()
+    const recorder = create({ onChange })
+    const fix = (timestamp: number) => ({
+      timestamp,
+      latitude: 52.52,
+      longitude: 13.405,
+      speed: 30,
+      heading: null,
+      accuracy: 5,
+      altitude: null,
+    })
+    recorder.start()
+    vi.advanceTimersByTime(10000)
+    recorder.addTelemetry(fix(1))
+    vi.advanceTimersByTime(SEGMENT_MS)
+    recorder.addTelemetry(fix(2))
+    recorder.stop()
+    recorder.addTelemetry(fix(3))
+    await until(() => onChange.mock.calls.length === 2)
+
+    const segments = await listSegments()
+    expect(segments.map((segment) => segment.telemetry.map(({ timestamp, offset }) => [timestamp, offset]))).toEqual([
+      [[1, 10000]],
+      [[2, 10000]],
+    ])
+  })
+
+  it("locks every segment around an event and never prunes them", async () => {
+    const onChange = vi.fn()
+    const recorder = create({ onChange })
+    recorder.start()
+    vi.advanceTimersByTime(SEGMENT_MS * 2.5)
+    await until(() => onChange.mock.calls.length === 2)
+
+    // At 75 s: the window runs from 45 s to 105 s, and saving the clip counts as a change
+    const clip = await recorder.triggerEvent("manual")
+    expect(recorder.isEventOpen()).toBe(true)
+
+    // The post-event window ends during the fourth segment; keep going until pruning has had plenty to do
+    vi.advanceTimersByTime(SEGMENT_MS * 6)
+    await until(() => onChange.mock.calls.length === 9)
+    recorder.stop()
+    await until(() => onChange.mock.calls.length === 10)
+
+    const segments = await listSegments()
+    const locked = segments.filter((segment) => segment.locked)
+    // 30–60 s was already stored, 60–90 s was recording and 90–120 s covers the rest of the window
+    expect(locked.map((segment) => segment.startedAt)).toEqual([SEGMENT_MS, SEGMENT_MS * 2, SEGMENT_MS * 3])
+    // The unlocked ring still holds one minute on top of the locked footage
+    expect(segments.filter((segment) => !segment.locked).map((segment) => segment.startedAt)).toEqual([
+      SEGMENT_MS * 7,
+      SEGMENT_MS * 8,
+    ])
+
+    const [stored] = await listEventClips()
+    expect(stored.id).toBe(clip.id)
+    expect(stored.status).toBe("complete")
+    expect(stored.segmentIds).toEqual(locked.map((segment) => segment.id))
+    expect(recorder.isEventOpen()).toBe(false)
+  })
+})
+
+describe("createDecelerationTrigger", () => {
+  it("fires on a hard stop and then stays quiet for the cooldown", () => {
+    const trigger = createDecelerationTrigger(5.9, 30000)
+    expect(trigger(25, 0)).toBe(false)
+    expect(trigger(18, 1000)).toBe(true)
+    expect(trigger(10, 2000)).toBe(false)
+    expect(trigger(30, 40000)).toBe(false)
+    expect(trigger(20, 41000)).toBe(true)
+  })
+})
@@ -0,0 +1,290 @@
+import { withStore } from "@/lib/db"
+import type { TelemetryEntry, TelemetryLog } from "@/lib/telemetry"
+
+export interface LoopSegment {
+  id: string
+  startedAt: number
+  endedAt: number
+  mimeType: string
+  blob: Blob
+  locked: boolean
+  telemetry: TelemetryEntry[] // offsets from startedAt
+}
+
+export type EventTrigger = "manual" | "deceleration"
+
+export interface EventClip {
+  id: string
+  triggeredAt: number
+  trigger: EventTrigger
+  windowStart: number
+  windowEnd: number
+  segmentIds: string[]
+  status: "recording" | "complete"
+}
+
+export interface LoopRecordingSettings {
+  enabled: boolean
+  minutes: number
+  autoEvent: boolean
+}
+
+export const LOOP_RECORDING_STORAGE_KEY = "loop-recording"
+export const LOOP_MINUTE_OPTIONS = [1, 3, 5, 10] as const
+
+export const DEFAULT_LOOP_RECORDING_SETTINGS: LoopRecordingSettings = {
+  enabled: false,
+  minutes: 5,
+  autoEvent: true,
+}
+
+export const SEGMENT_SECONDS = 30
+export const PRE_EVENT_SECONDS = 30
+export const POST_EVENT_SECONDS = 30
+// ~0.6 g; hard enough to exclude normal braking while catching emergency stops
+export const HARD_DECELERATION = 5.9
+
+export async function listSegments(): Promise<LoopSegment[]> {
+  return withStore<LoopSegment[]>("loopSegments", "readonly", (store) => store.index("startedAt").getAll())
+}
+
+export async function getSegment(id: string): Promise<LoopSegment | undefined> {
+  return withStore<LoopSegment | undefined>("loopSegments", "readonly", (store) => store.get(id))
+}
+
+async function saveSegment(segment: LoopSegment): Promise<void> {
+  await withStore("loopSegments", "readwrite", (store) => store.put(segment))
+}
+
+async function deleteSegment(id: string): Promise<void> {
+  await withStore("loopSegments", "readwrite", (store) => store.delete(id))
+}
+
+// Each segment is its own recording, so it carries its own telemetry log for sidecars and subtitles
+export const segmentTelemetryLog = (segment: LoopSegment): TelemetryLog => ({
+  version: 1,
+  recordingStartedAt: segment.startedAt,
+  speedUnit: "mph",
+  entries: segment.telemetry,
+})
+
+export async function listEventClips(): Promise<EventClip[]> {
+  const clips = await withStore<EventClip[]>("eventClips", "readonly", (store) => store.index("triggeredAt").getAll())
+  return clips.reverse()
+}
+
+async function saveEventClip(clip: EventClip): Promise<void> {
+  await withStore("eventClips", "readwrite", (store) => store.put(clip))
+}
+
+// Deleting a clip unlocks its segments; they are removed with the next rotation
+export async function deleteEventClip(clip: EventClip): Promise<void> {
+  const clips = await listEventClips()
+  const stillLocked = new Set(clips.filter((c) => c.id !== clip.id).flatMap((c) => c.segmentIds))
+
+  for (const id of clip.segmentIds) {
+    if (stillLocked.has(id)) continue
+    const segment = await getSegment(id)
+    if (segment) await saveSegment({ ...segment, locked: false })
+  }
+  await withStore("eventClips", "readwrite", (store) => store.delete(clip.id))
+  await pruneSegments(0)
+}
+
+// Drops the oldest unlocked segments so at most `keep` unlocked segments remain
+async function pruneSegments(keep: number): Promise<void> {
+  const unlocked = (await listSegments()).filter((segment) => !segment.locked)
+  const excess = unlocked.slice(0, Math.max(0, unlocked.length - keep))
+  for (const segment of excess) {
+    await deleteSegment(segment.id)
+  }
+}
+
+const overlaps = (segment: LoopSegment, clip: EventClip) =>
+  segment.endedAt >= clip.windowStart && segment.startedAt <= clip.windowEnd
+
+// What went wrong: a new segment could not be started (the recorder has then stopped itself), the
+// MediaRecorder of the segment in progress failed, or a segment or clip could not be saved
+export type LoopRecorderErrorKind = "segment-start" | "recorder" | "storage"
+
+export interface LoopRecorderOptions {
+  stream: MediaStream
+  mimeType: string
+  videoBitsPerSecond?: number
+  minutes: number
+  onChange: () => void
+  onError: (error: unknown, kind: LoopRecorderErrorKind) => void
+}
+
+/**
+ * Continuous dashcam recording as a ring of short, independently playable segments stored in
+ * IndexedDB. A fresh MediaRecorder is started for every segment (WebM chunks from one recorder
+ * cannot be played on their own), and only the newest `minutes` worth of unlocked segments are
+ * kept. Events lock every segment overlapping the window around them. Fixes passed to
+ * addTelemetry are stored with the segment being recorded.
+ */
+export function createLoopRecorder({
+  stream,
+  mimeType,
+  videoBitsPerSecond,
+  minutes,
+  onChange,
+  onError,
+}: LoopRecorderOptions) {
+  const maxSegments = Math.max(1, Math.ceil((minutes * 60) / SEGMENT_SECONDS))
+  const openClips: EventClip[] = []
+  let recorder: MediaRecorder | null = null
+  let rotateTimer: ReturnType<typeof setTimeout> | null = null
+  let isRunning = false
+  // Fixes go to the segment being recorded
+  let addToSegment: ((entry: Omit<TelemetryEntry, "offset">) => void) | null = null
+  // Segment saves are chained so rotation, locking and pruning never interleave
+  let queue: Promise<void> = Promise.resolve()
+
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((err) => onError(err, "storage"))
+    return queue
+  }
+
+  const storeSegment = async (segment: LoopSegment) => {
+    for (const clip of openClips) {
+      if (!overlaps(segment, clip)) continue
+      segment.locked = true
+      clip.segmentIds.push(segment.id)
+    }
+    await saveSegment(segment)
+
+    // Clips whose window has fully elapsed are finished
+    for (const clip of [...openClips]) {
+      if (segment.endedAt >= clip.windowEnd || !isRunning) {
+        clip.status = "complete"
+        openClips.splice(openClips.indexOf(clip), 1)
+      }
+      await saveEventClip(clip)
+    }
+
+    await pruneSegments(maxSegments)
+    onChange()
+  }
+
+  const startSegment = () => {
+    const segmentRecorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond })
+    const chunks: Blob[] = []
+    const telemetry: TelemetryEntry[] = []
+    const startedAt = Date.now()
+
+    segmentRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    segmentRecorder.onerror = (event) => onError(event, "recorder")
+    segmentRecorder.onstop = () => {
+      if (chunks.length === 0) return
+      const segment: LoopSegment = {
+        id: crypto.randomUUID(),
+        startedAt,
+        endedAt: Date.now(),
+        mimeType,
+        blob: new Blob(chunks, { type: mimeType }),
+        locked: false,
+        telemetry,
+      }
+      enqueue(() => storeSegment(segment))
+    }
+
+    segmentRecorder.start()
+    recorder = segmentRecorder
+    addToSegment = (entry) => telemetry.push({ ...entry, offset: Date.now() - startedAt })
+    rotateTimer = setTimeout(rotate, SEGMENT_SECONDS * 1000)
+  }
+
+  const rotate = () => {
+    const previous = recorder
+    rotateTimer = null
+    // Start the next segment before stopping the last one to keep the gap minimal
+    try {
+      startSegment()
+    } catch (err) {
+      // Typically the camera track has ended; keep what was recorded and stop here
+      isRunning = false
+      recorder = null
+      addToSegment = null
+      previous?.stop()
+      onError(err, "segment-start")
+      return
+    }
+    previous?.stop()
+  }
+
+  return {
+    start() {
+      if (isRunning) return
+      isRunning = true
+      startSegment()
+    },
+    stop() {
+      if (!isRunning) return
+      isRunning = false
+      if (rotateTimer !== null) clearTimeout(rotateTimer)
+      rotateTimer = null
+      recorder?.stop()
+      recorder = null
+      addToSegment = null
+    },
+    addTelemetry(entry: Omit<TelemetryEntry, "offset">) {
+      addToSegment?.(entry)
+    },
+    async triggerEvent(trigger: EventTrigger): Promise<EventClip> {
+      const triggeredAt = Date.now()
+      const clip: EventClip = {
+        id: crypto.randomUUID(),
+        triggeredAt,
+        trigger,
+        windowStart: triggeredAt - PRE_EVENT_SECONDS * 1000,
+        windowEnd: triggeredAt + POST_EVENT_SECONDS * 1000,
+        segmentIds: [],
+        status: "recording",
+      }
+      openClips.push(clip)
+
+      await enqueue(async () => {
+        for (const segment of await listSegments()) {
+          if (!overlaps(segment, clip)) continue
+          if (!segment.locked) await saveSegment({ ...segment, locked: true })
+          clip.segmentIds.push(segment.id)
+        }
+        await saveEventClip(clip)
+        onChange()
+      })
+
+      return clip
+    },
+    isEventOpen: () => openClips.length > 0,
+    isRunning: () => isRunning,
+  }
+}
+
+export type LoopRecorder = ReturnType<typeof createLoopRecorder>
+
+/**
+ * Flags sudden deceleration between consecutive speed samples. After firing it stays quiet for
+ * the post-event window so one stop does not open several clips.
+ */
+export function createDecelerationTrigger(threshold = HARD_DECELERATION, cooldownMs = POST_EVENT_SECONDS * 1000) {
+  let last: { speed: number; timestamp: number } | null = null
+  let lastFiredAt = -Infinity
+
+  return (speed: number, timestamp: number): boolean => {
+    const previous = last
+    last = { speed, timestamp }
+    if (!previous) return false
+
+    const dt = (timestamp - previous.timestamp) / 1000
+    if (dt <= 0 || dt > 5) return false
+
+    const deceleration = (previous.speed - speed) / dt
+    if (deceleration < threshold || timestamp - lastFiredAt < cooldownMs) return false
+
+    lastFiredAt = timestamp
+    return true
+  }
+}
@@ -0,0 +1,57 @@
+import type { LatLng } from "@/lib/geo"
+
+// Web Mercator ("slippy map") tile math, as used by OpenStreetMap and most tile servers
+
+export const TILE_SIZE = 256
+export const MIN_ZOOM = 3
+export const MAX_ZOOM = 19
+
+export interface WorldPoint {
+  x: number // pixels from the antimeridian at the given zoom
+  y: number // pixels from the top edge (85.05°N) at the given zoom
+}
+
+const MAX_LATITUDE = 85.0511287798
+
+export function project({ latitude, longitude }: LatLng, zoom: number): WorldPoint {
+  const scale = TILE_SIZE * 2 ** zoom
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * (Math.PI / 180)
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * scale,
+  }
+}
+
+export function unproject({ x, y }: WorldPoint, zoom: number): LatLng {
+  const scale = TILE_SIZE * 2 ** zoom
+  const n = Math.PI - (2 * Math.PI * y) / scale
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / scale) * 360 - 180,
+  }
+}
+
+const SUBDOMAINS = ["a", "b", "c"]
+
+// Fills a template such as https://{s}.tile.example.org/{z}/{x}/{y}.png; x wraps around the globe
+export function tileUrl(template: string, zoom: number, x: number, y: number): string {
+  const count = 2 ** zoom
+  const wrappedX = ((x % count) + count) % count
+  return template
+    .replace("{s}", SUBDOMAINS[(wrappedX + y) % SUBDOMAINS.length])
+    .replace("{z}", String(zoom))
+    .replace("{x}", String(wrappedX))
+    .replace("{y}", String(y))
+}
+
+export const isValidTileTemplate = (template: string) =>
+  /^(https?:\/\/|\/)/.test(template) && ["{z}", "{x}", "{y}"].every((token) => template.includes(token))
+
+/**
+ * Breadcrumb color for a speed as a fraction of the dial range: green when slow through yellow
+ * to red at full scale.
+ */
+export function speedColor(fraction: number): string {
+  const hue = 120 * (1 - Math.max(0, Math.min(1, fraction)))
+  return `hsl(${hue.toFixed(0)}, 90%, 50%)`
+}
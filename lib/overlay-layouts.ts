@@ -0,0 +1,140 @@
+export type OverlayPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right" | "top-center" | "bottom-center"
+
+export type OverlayStyle = "analog" | "digital"
+
+export type OverlayField =
+  "timestamp" | "coordinates" | "heading" | "altitude" | "accuracy" | "maxSpeed" | "tripDistance"
+
+export interface OverlayTheme {
+  id: string
+  name: string
+  fontFamily: string
+  background: string // rgb triple, alpha is applied by the renderer
+  ring: string
+  text: string
+  muted: string
+  normal: string
+  warning: string
+  alert: string
+}
+
+export interface OverlayLayout {
+  id: string
+  name: string
+  position: OverlayPosition
+  scale: number // fraction of the shorter canvas side
+  opacity: number // 0–1, applied to the whole overlay
+  themeId: string
+  style: OverlayStyle
+  fields: OverlayField[]
+}
+
+export interface OverlayLayoutState {
+  activeId: string
+  presets: OverlayLayout[]
+}
+
+export const OVERLAY_LAYOUTS_STORAGE_KEY = "overlay-layouts"
+
+export const OVERLAY_POSITIONS: { value: OverlayPosition; label: string }[] = [
+  { value: "top-left", label: "Top left" },
+  { value: "top-center", label: "Top center" },
+  { value: "top-right", label: "Top right" },
+  { value: "bottom-left", label: "Bottom left" },
+  { value: "bottom-center", label: "Bottom center" },
+  { value: "bottom-right", label: "Bottom right" },
+]
+
+export const OVERLAY_FIELDS: { value: OverlayField; label: string }[] = [
+  { value: "timestamp", label: "Timestamp" },
+  { value: "coordinates", label: "Lat / Lon" },
+  { value: "heading", label: "Heading" },
+  { value: "altitude", label: "Altitude" },
+  { value: "accuracy", label: "Accuracy" },
+  { value: "maxSpeed", label: "Max speed" },
+  { value: "tripDistance", label: "Trip distance" },
+]
+
+export const OVERLAY_THEMES: OverlayTheme[] = [
+  {
+    id: "violet",
+    name: "Violet",
+    fontFamily: "system-ui, sans-serif",
+    background: "0, 0, 0",
+    ring: "#8b5cf6",
+    text: "#ffffff",
+    muted: "#c4b5fd",
+    normal: "#10b981",
+    warning: "#f59e0b",
+    alert: "#ef4444",
+  },
+  {
+    id: "mono",
+    name: "Mono",
+    fontFamily: "ui-monospace, monospace",
+    background: "0, 0, 0",
+    ring: "#e5e7eb",
+    text: "#ffffff",
+    muted: "#9ca3af",
+    normal: "#ffffff",
+    warning: "#fbbf24",
+    alert: "#f87171",
+  },
+  {
+    id: "amber",
+    name: "Amber",
+    fontFamily: "ui-monospace, monospace",
+    background: "20, 12, 0",
+    ring: "#f59e0b",
+    text: "#fde68a",
+    muted: "#d97706",
+    normal: "#fbbf24",
+    warning: "#fb923c",
+    alert: "#ef4444",
+  },
+  {
+    id: "ocean",
+    name: "Ocean",
+    fontFamily: "system-ui, sans-serif",
+    background: "2, 6, 23",
+    ring: "#0ea5e9",
+    text: "#f0f9ff",
+    muted: "#7dd3fc",
+    normal: "#22d3ee",
+    warning: "#facc15",
+    alert: "#f43f5e",
+  },
+]
+
+export const DEFAULT_OVERLAY_LAYOUT: OverlayLayout = {
+  id: "classic",
+  name: "Classic",
+  position: "top-right",
+  scale: 0.25,
+  opacity: 1,
+  themeId: "violet",
+  style: "analog",
+  fields: [],
+}
+
+export const DEFAULT_OVERLAY_LAYOUT_STATE: OverlayLayoutState = {
+  activeId: DEFAULT_OVERLAY_LAYOUT.id,
+  presets: [
+    DEFAULT_OVERLAY_LAYOUT,
+    {
+      id: "dashcam",
+      name: "Dashcam",
+      position: "bottom-left",
+      scale: 0.22,
+      opacity: 0.9,
+      themeId: "mono",
+      style: "digital",
+      fields: ["timestamp", "coordinates", "heading"],
+    },
+  ],
+}
+
+export const getTheme = (themeId: string) => OVERLAY_THEMES.find((t) => t.id === themeId) ?? OVERLAY_THEMES[0]
+
+export const getActiveLayout = (state: OverlayLayoutState) =>
+  state.presets.find((p) => p.id === state.activeId) ?? state.presets[0] ?? DEFAULT_OVERLAY_LAYOUT
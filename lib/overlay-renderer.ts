@@ -0,0 +1,247 @@
+import { compassPoint } from "@/lib/geo"
+import { getTheme, type OverlayField, type OverlayLayout, type OverlayTheme } from "@/lib/overlay-layouts"
+import {
+  SPEED_UNITS,
+  altitudeLabel,
+  distanceLabel,
+  toDisplayAltitude,
+  toDisplayDistance,
+  type SpeedUnit,
+} from "@/lib/units"
+
+export interface OverlayData {
+  speed: number // in `unit`
+  maxSpeed: number // in `unit`
+  maxDisplaySpeed: number // full-scale dial value in `unit`
+  unit: SpeedUnit
+  isConnected: boolean
+  isAlertActive: boolean
+  isApproachingLimit: boolean
+  zone: { name: string; limit: number; isOver: boolean } | null
+  timestamp: number | null
+  latitude: number | null
+  longitude: number | null
+  heading: number | null
+  altitude: number | null // meters
+  accuracy: number | null // meters
+  tripDistance: number // meters
+}
+
+function formatField(field: OverlayField, data: OverlayData): string | null {
+  switch (field) {
+    case "timestamp":
+      return data.timestamp !== null ? new Date(data.timestamp).toLocaleString() : null
+    case "coordinates":
+      return data.latitude !== null && data.longitude !== null
+        ? `${data.latitude.toFixed(5)}, ${data.longitude.toFixed(5)}`
+        : null
+    case "heading":
+      return data.heading !== null ? `${Math.round(data.heading)}° ${compassPoint(data.heading)}` : null
+    case "altitude":
+      if (data.altitude === null) return null
+      return `ALT ${Math.round(toDisplayAltitude(data.altitude, data.unit))} ${altitudeLabel(data.unit)}`
+    case "accuracy":
+      return data.accuracy !== null ? `±${Math.round(data.accuracy)} m` : null
+    case "maxSpeed":
+      return `MAX ${data.maxSpeed.toFixed(1)} ${SPEED_UNITS[data.unit].label}`
+    case "tripDistance":
+      return `TRIP ${toDisplayDistance(data.tripDistance, data.unit).toFixed(2)} ${distanceLabel(data.unit)}`
+  }
+}
+
+function speedColor(theme: OverlayTheme, data: OverlayData, now: number) {
+  if (data.isAlertActive) {
+    // Flash between the alert color and the text color twice a second
+    return Math.floor(now / 250) % 2 === 0 ? theme.alert : theme.text
+  }
+  return data.isApproachingLimit ? theme.warning : theme.normal
+}
+
+function drawHeadingArrow(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, heading: number) {
+  ctx.save()
+  ctx.translate(x, y)
+  ctx.rotate((heading * Math.PI) / 180)
+  ctx.beginPath()
+  ctx.moveTo(0, -size)
+  ctx.lineTo(size * 0.6, size)
+  ctx.lineTo(0, size * 0.5)
+  ctx.lineTo(-size * 0.6, size)
+  ctx.closePath()
+  ctx.fill()
+  ctx.restore()
+}
+
+/**
+ * Draws the speed overlay for a layout onto an already-painted frame. Used by the camera canvas
+ * (and therefore the recording) as well as the layout editor preview, so both always match.
+ */
+export function drawOverlay(
+  ctx: CanvasRenderingContext2D,
+  canvasWidth: number,
+  canvasHeight: number,
+  layout: OverlayLayout,
+  data: OverlayData,
+  { now = Date.now(), bottomInset = 0 }: { now?: number; bottomInset?: number } = {},
+) {
+  const theme = getTheme(layout.themeId)
+  const size = Math.min(canvasWidth, canvasHeight) * layout.scale
+  const margin = Math.max(8, size * 0.08)
+  const padding = size * 0.04
+  const font = (weight: string, scale: number) => `${weight} ${size * scale}px ${theme.fontFamily}`
+
+  const lines = layout.fields.map((field) => formatField(field, data)).filter((line): line is string => line !== null)
+  const lineHeight = size * 0.085
+  const dialHeight = layout.style === "analog" ? size : size * 0.55
+  const boxWidth = size + padding * 2
+  const boxHeight = dialHeight + lines.length * lineHeight + padding * 2
+
+  const [vertical, horizontal] = layout.position.split("-")
+  const boxX =
+    horizontal === "left"
+      ? margin
+      : horizontal === "right"
+        ? canvasWidth - boxWidth - margin
+        : (canvasWidth - boxWidth) / 2
+  const boxY = vertical === "top" ? margin : canvasHeight - bottomInset - boxHeight - margin
+
+  ctx.save()
+  ctx.globalAlpha = layout.opacity
+
+  // Semi-transparent background
+  ctx.fillStyle = `rgba(${theme.background}, 0.7)`
+  ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
+
+  const centerX = boxX + boxWidth / 2
+  const accent = speedColor(theme, data, now)
+  const speedPercentage = Math.min(data.speed / data.maxDisplaySpeed, 1)
+  ctx.textAlign = "center"
+
+  if (layout.style === "analog") {
+    const centerY = boxY + padding + size / 2
+    const radius = size / 2 - size * 0.08
+
+    // Outer circle
+    ctx.strokeStyle = theme.ring
+    ctx.lineWidth = Math.max(2, size * 0.012)
+    ctx.beginPath()
+    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI)
+    ctx.stroke()
+
+    // Speed arc
+    const startAngle = -Math.PI / 2
+    ctx.strokeStyle = accent
+    ctx.lineWidth = Math.max(4, size * 0.032)
+    ctx.beginPath()
+    ctx.arc(centerX, centerY, radius - size * 0.04, startAngle, startAngle + speedPercentage * 2 * Math.PI)
+    ctx.stroke()
+
+    // Speed text
+    ctx.fillStyle = theme.text
+    ctx.font = font("bold", 0.15)
+    ctx.fillText(data.speed.toFixed(1), centerX, centerY - size * 0.04)
+
+    ctx.fillStyle = theme.muted
+    ctx.font = font("", 0.08)
+    ctx.fillText(SPEED_UNITS[data.unit].label, centerX, centerY + size * 0.08)
+
+    // GPS status
+    ctx.font = font("", 0.06)
+    ctx.fillStyle = data.isConnected ? theme.normal : theme.alert
+    ctx.fillText(data.isConnected ? "GPS Connected" : "GPS Disconnected", centerX, centerY + size * 0.16)
+
+    // Active speed zone
+    if (data.zone) {
+      ctx.fillStyle = data.zone.isOver ? theme.alert : theme.warning
+      ctx.fillText(
+        `${data.zone.name}: ${data.zone.limit} ${SPEED_UNITS[data.unit].label}`,
+        centerX,
+        centerY + size * 0.23,
+      )
+    }
+
+    if (data.heading !== null && layout.fields.includes("heading")) {
+      ctx.fillStyle = theme.ring
+      drawHeadingArrow(ctx, centerX, centerY - radius * 0.62, size * 0.05, data.heading)
+    }
+  } else {
+    const top = boxY + padding
+
+    // Speed bar along the top edge of the readout
+    ctx.fillStyle = `${theme.ring}55`
+    ctx.fillRect(boxX + padding, top, size, size * 0.03)
+    ctx.fillStyle = accent
+    ctx.fillRect(boxX + padding, top, size * speedPercentage, size * 0.03)
+
+    ctx.fillStyle = data.isAlertActive ? accent : theme.text
+    ctx.font = font("bold", 0.3)
+    ctx.fillText(data.speed.toFixed(0), centerX, top + size * 0.33)
+
+    ctx.fillStyle = theme.muted
+    ctx.font = font("", 0.07)
+    const zoneText = data.zone ? ` · ${data.zone.name} ${data.zone.limit}` : ""
+    ctx.fillText(`${SPEED_UNITS[data.unit].label}${zoneText}`, centerX, top + size * 0.43)
+
+    // GPS status dot
+    ctx.fillStyle = data.isConnected ? theme.normal : theme.alert
+    ctx.beginPath()
+    ctx.arc(boxX + padding + size * 0.04, top + size * 0.1, size * 0.025, 0, 2 * Math.PI)
+    ctx.fill()
+  }
+
+  // Optional data fields
+  ctx.fillStyle = theme.text
+  ctx.font = font("", 0.06)
+  lines.forEach((line, index) => {
+    ctx.fillText(line, centerX, boxY + padding + dialHeight + lineHeight * (index + 0.75), boxWidth - padding * 2)
+  })
+
+  ctx.restore()
+}
+
+const pad2 = (n: number) => n.toString().padStart(2, "0")
+
+const formatUtc = (timestamp: number) => {
+  const d = new Date(timestamp)
+  return (
+    `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}-${pad2(d.getUTCDate())} ` +
+    `${pad2(d.getUTCHours())}:${pad2(d.getUTCMinutes())}:${pad2(d.getUTCSeconds())} UTC`
+  )
+}
+
+export const captionStripHeight = (canvasHeight: number) => Math.round(Math.max(24, canvasHeight * 0.045))
+
+/**
+ * Full-width data strip burned into the bottom of every frame: fix time (UTC and local),
+ * coordinates, speed and heading. Redrawn each frame so it cannot drift from the footage.
+ */
+export function drawCaptionStrip(
+  ctx: CanvasRenderingContext2D,
+  canvasWidth: number,
+  canvasHeight: number,
+  data: OverlayData,
+) {
+  const height = captionStripHeight(canvasHeight)
+  const top = canvasHeight - height
+
+  const parts =
+    data.timestamp !== null && data.latitude !== null && data.longitude !== null
+      ? [
+          formatUtc(data.timestamp),
+          new Date(data.timestamp).toLocaleString(undefined, { timeZoneName: "short" }),
+          `${data.latitude.toFixed(6)}, ${data.longitude.toFixed(6)}`,
+          `${data.speed.toFixed(1)} ${SPEED_UNITS[data.unit].label}`,
+          data.heading !== null ? `${Math.round(data.heading)}° ${compassPoint(data.heading)}` : "---°",
+        ]
+      : [formatUtc(Date.now()), "NO GPS FIX"]
+
+  ctx.save()
+  ctx.fillStyle = "rgba(0, 0, 0, 0.75)"
+  ctx.fillRect(0, top, canvasWidth, height)
+
+  ctx.fillStyle = "#ffffff"
+  ctx.font = `${Math.round(height * 0.55)}px ui-monospace, monospace`
+  ctx.textAlign = "left"
+  ctx.textBaseline = "middle"
+  ctx.fillText(parts.join("  |  "), height * 0.4, top + height / 2, canvasWidth - height * 0.8)
+  ctx.restore()
+}
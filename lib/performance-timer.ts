@@ -0,0 +1,246 @@
+import { withStore } from "@/lib/db"
+import { haversineDistance, type LatLng } from "@/lib/geo"
+import { STATIONARY_SPEED } from "@/lib/speed-estimator"
+import { METERS_PER_MILE, MPH_TO_KMH, MPS_TO_MPH, type SpeedUnit } from "@/lib/units"
+
+export type TimingMode = "acceleration" | "braking"
+
+export type SplitId = "0-60mph" | "0-100kmh" | "eighth-mile" | "quarter-mile" | "60-0mph" | "100-0kmh"
+
+export interface Split {
+  id: SplitId
+  time: number // ms from the start of the run
+  distance: number // meters from the start of the run
+  speed: number // mph at the mark (trap speed for distance splits)
+}
+
+export interface PerformanceRun {
+  id: string
+  mode: TimingMode
+  unit: SpeedUnit
+  startedAt: number
+  splits: Split[]
+}
+
+export interface TimingFix extends LatLng {
+  timestamp: number
+  speed: number // mph, unsmoothed so the filter's lag does not skew the timing
+}
+
+export type TimerStatus = "armed" | "ready" | "running" | "finished"
+
+export interface TimerState {
+  mode: TimingMode
+  unit: SpeedUnit
+  status: TimerStatus
+  atRest: boolean
+  elapsed: number // ms
+  distance: number // meters
+  splits: Split[]
+}
+
+export const SPLIT_LABELS: Record<SplitId, string> = {
+  "0-60mph": "0–60 mph",
+  "0-100kmh": "0–100 km/h",
+  "eighth-mile": "1/8 mile",
+  "quarter-mile": "1/4 mile",
+  "60-0mph": "60–0 mph",
+  "100-0kmh": "100–0 km/h",
+}
+
+// Braking runs rank by stopping distance; everything else by elapsed time
+export const isBrakingSplit = (id: SplitId) => id === "60-0mph" || id === "100-0kmh"
+
+// Movement above this starts an armed run
+const LAUNCH_SPEED_MPH = STATIONARY_SPEED * MPS_TO_MPH
+const EIGHTH_MILE = METERS_PER_MILE / 8
+const QUARTER_MILE = METERS_PER_MILE / 4
+// A run that has not reached all its marks by then is ended with whatever splits it has
+const MAX_RUN_MS = 60_000
+
+// 60 mph for imperial users, 100 km/h for everyone else; both expressed in mph internally
+export function targetSpeed(unit: SpeedUnit): { speed: number; accelerationId: SplitId; brakingId: SplitId } {
+  return unit === "mph"
+    ? { speed: 60, accelerationId: "0-60mph", brakingId: "60-0mph" }
+    : { speed: 100 / MPH_TO_KMH, accelerationId: "0-100kmh", brakingId: "100-0kmh" }
+}
+
+export const splitsForUnit = (unit: SpeedUnit): SplitId[] => {
+  const { accelerationId, brakingId } = targetSpeed(unit)
+  return [accelerationId, "eighth-mile", "quarter-mile", brakingId]
+}
+
+interface Point {
+  time: number
+  distance: number
+  speed: number
+}
+
+const lerp = (a: number, b: number, fraction: number) => a + (b - a) * fraction
+const interpolate = (from: Point, to: Point, fraction: number): Point => ({
+  time: lerp(from.time, to.time, fraction),
+  distance: lerp(from.distance, to.distance, fraction),
+  speed: lerp(from.speed, to.speed, fraction),
+})
+// Where between two fixes a value linearly reached `target`, clamped to the interval
+const crossing = (from: number, to: number, target: number) =>
+  from === to ? 1 : Math.min(1, Math.max(0, (target - from) / (to - from)))
+
+/**
+ * Acceleration and braking timer driven by successive GPS fixes. Marks (target speed, 1/8 and
+ * 1/4 mile, standstill) almost always fall between two fixes, so each split is linearly
+ * interpolated between the fixes either side of it rather than snapped to the later fix.
+ *
+ * Acceleration runs arm at standstill and start when the speed passes walking pace. Braking runs
+ * wait until the car is above the target speed and start when it drops back through it.
+ */
+export function createPerformanceTimer({
+  mode,
+  unit,
+  onFinish,
+}: {
+  mode: TimingMode
+  unit: SpeedUnit
+  onFinish: (run: PerformanceRun) => void
+}) {
+  const target = targetSpeed(unit)
+  const state: TimerState = { mode, unit, status: "armed", atRest: false, elapsed: 0, distance: 0, splits: [] }
+  let previous: { fix: TimingFix; point: Point } | null = null
+  let start: { timestamp: number; distance: number } | null = null
+  let odometer = 0 // meters since arming
+  let startedAt = 0
+
+  const relative = (point: Point): Point => ({
+    time: point.time - start!.timestamp,
+    distance: point.distance - start!.distance,
+    speed: point.speed,
+  })
+
+  const addSplit = (id: SplitId, point: Point) => {
+    if (state.splits.some((split) => split.id === id)) return
+    const { time, distance, speed } = relative(point)
+    state.splits.push({ id, time, distance, speed })
+  }
+
+  const finish = () => {
+    state.status = "finished"
+    if (state.splits.length === 0) return
+    onFinish({ id: crypto.randomUUID(), mode, unit, startedAt, splits: state.splits })
+  }
+
+  const startRun = (point: Point) => {
+    start = { timestamp: point.time, distance: point.distance }
+    startedAt = point.time
+    state.status = "running"
+    state.splits = []
+  }
+
+  const updateAcceleration = (from: Point, to: Point) => {
+    if (state.status === "armed") {
+      if (to.speed < LAUNCH_SPEED_MPH) {
+        state.atRest = true
+      } else if (state.atRest) {
+        startRun(interpolate(from, to, crossing(from.speed, to.speed, LAUNCH_SPEED_MPH)))
+      }
+    }
+    if (state.status !== "running") return
+
+    if (from.speed < target.speed && to.speed >= target.speed) {
+      addSplit(target.accelerationId, interpolate(from, to, crossing(from.speed, to.speed, target.speed)))
+    }
+    for (const [id, mark] of [
+      ["eighth-mile", EIGHTH_MILE],
+      ["quarter-mile", QUARTER_MILE],
+    ] as const) {
+      const markDistance = start!.distance + mark
+      if (from.distance < markDistance && to.distance >= markDistance) {
+        addSplit(id, interpolate(from, to, crossing(from.distance, to.distance, markDistance)))
+      }
+    }
+
+    const done = [target.accelerationId, "quarter-mile"].every((id) => state.splits.some((split) => split.id === id))
+    if (done || to.speed < LAUNCH_SPEED_MPH || to.time - start!.timestamp > MAX_RUN_MS) finish()
+  }
+
+  const updateBraking = (from: Point, to: Point) => {
+    if (state.status === "armed" && to.speed >= target.speed) state.status = "ready"
+    if (state.status === "ready" && from.speed >= target.speed && to.speed < target.speed) {
+      startRun(interpolate(from, to, crossing(from.speed, to.speed, target.speed)))
+    }
+    if (state.status !== "running") return
+
+    // Back on the throttle before stopping: discard and wait for the next pass through the target
+    if (to.speed >= target.speed) {
+      state.status = "ready"
+      start = null
+      return
+    }
+    if (to.speed < LAUNCH_SPEED_MPH) {
+      addSplit(target.brakingId, { ...interpolate(from, to, crossing(from.speed, to.speed, 0)), speed: target.speed })
+      finish()
+    }
+  }
+
+  return {
+    update(fix: TimingFix): TimerState {
+      if (state.status === "finished") return { ...state }
+
+      if (previous) odometer += haversineDistance(previous.fix, fix)
+      const point: Point = { time: fix.timestamp, distance: odometer, speed: fix.speed }
+
+      if (!previous) {
+        state.atRest = fix.speed < LAUNCH_SPEED_MPH
+      } else if (point.time > previous.point.time) {
+        if (mode === "acceleration") updateAcceleration(previous.point, point)
+        else updateBraking(previous.point, point)
+      }
+      previous = { fix, point }
+
+      if (start && state.status === "running") {
+        state.elapsed = point.time - start.timestamp
+        state.distance = point.distance - start.distance
+      }
+      return { ...state, splits: [...state.splits] }
+    },
+    getState: (): TimerState => ({ ...state, splits: [...state.splits] }),
+  }
+}
+
+export type PerformanceTimer = ReturnType<typeof createPerformanceTimer>
+
+export async function savePerformanceRun(run: PerformanceRun): Promise<void> {
+  await withStore("performanceRuns", "readwrite", (store) => store.put(run))
+}
+
+export async function listPerformanceRuns(): Promise<PerformanceRun[]> {
+  const runs = await withStore<PerformanceRun[]>("performanceRuns", "readonly", (store) =>
+    store.index("startedAt").getAll(),
+  )
+  return runs.reverse()
+}
+
+export async function deletePerformanceRun(id: string): Promise<void> {
+  await withStore("performanceRuns", "readwrite", (store) => store.delete(id))
+}
+
+export async function clearPerformanceRuns(): Promise<void> {
+  await withStore("performanceRuns", "readwrite", (store) => store.clear())
+}
+
+export interface LeaderboardEntry {
+  runId: string
+  startedAt: number
+  split: Split
+}
+
+export function leaderboard(runs: PerformanceRun[], id: SplitId, limit = 5): LeaderboardEntry[] {
+  const metric = (split: Split) => (isBrakingSplit(id) ? split.distance : split.time)
+  return runs
+    .flatMap((run) =>
+      run.splits
+        .filter((split) => split.id === id)
+        .map((split) => ({ runId: run.id, startedAt: run.startedAt, split })),
+    )
+    .sort((a, b) => metric(a.split) - metric(b.split))
+    .slice(0, limit)
+}
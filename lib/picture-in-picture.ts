@@ -0,0 +1,73 @@
+import { DEFAULT_OVERLAY_LAYOUT, getTheme, type OverlayLayout } from "@/lib/overlay-layouts"
+import { drawOverlay, type OverlayData } from "@/lib/overlay-renderer"
+
+// Document Picture-in-Picture API (Chromium 116+); not yet part of the DOM typings this project builds against
+interface DocumentPictureInPicture {
+  window: Window | null
+  requestWindow: (options?: { width?: number; height?: number }) => Promise<Window>
+}
+
+type DocumentPictureInPictureWindow = Window &
+  typeof globalThis & { documentPictureInPicture: DocumentPictureInPicture }
+
+// "document" shows live page content in the floating window, "video" a canvas streamed into a video element
+export type PictureInPictureMode = "document" | "video"
+
+export const MINI_SPEEDOMETER_SIZE = 240 // CSS pixels, square
+
+// The fallback video is redrawn this often; enough for the readout and the alert flash
+export const MINI_SPEEDOMETER_FPS = 10
+
+export function pictureInPictureSupport(): PictureInPictureMode | null {
+  if (typeof window === "undefined") return null
+  if ("documentPictureInPicture" in window) return "document"
+  if (document.pictureInPictureEnabled && "captureStream" in HTMLCanvasElement.prototype) return "video"
+  return null
+}
+
+/**
+ * Opens an always-on-top window and copies the page's stylesheets into it, so components
+ * portalled there keep their styling. Has to be called from a user gesture.
+ */
+export async function openDocumentPictureInPicture(size = MINI_SPEEDOMETER_SIZE): Promise<Window> {
+  const { documentPictureInPicture } = window as DocumentPictureInPictureWindow
+  const pipWindow = await documentPictureInPicture.requestWindow({ width: size, height: size })
+
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = pipWindow.document.createElement("style")
+      style.textContent = Array.from(sheet.cssRules)
+        .map((rule) => rule.cssText)
+        .join("\n")
+      pipWindow.document.head.appendChild(style)
+    } catch {
+      // Cross-origin sheets hide their rules; link to them instead
+      if (!sheet.href) continue
+      const link = pipWindow.document.createElement("link")
+      link.rel = "stylesheet"
+      link.href = sheet.href
+      pipWindow.document.head.appendChild(link)
+    }
+  }
+  return pipWindow
+}
+
+// The camera overlay's dial, filling the whole canvas and without its extra fields
+const miniLayout = (themeId: string): OverlayLayout => ({
+  ...DEFAULT_OVERLAY_LAYOUT,
+  position: "top-center",
+  scale: 0.8,
+  opacity: 1,
+  themeId,
+  style: "analog",
+  fields: [],
+})
+
+// Frame for the video fallback, drawn with the same renderer as the camera overlay
+export function drawMiniSpeedometer(canvas: HTMLCanvasElement, data: OverlayData, themeId: string) {
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return
+  ctx.fillStyle = `rgb(${getTheme(themeId).background})`
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  drawOverlay(ctx, canvas.width, canvas.height, miniLayout(themeId), data)
+}
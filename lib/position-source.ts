@@ -0,0 +1,41 @@
+// The subset of GeolocationPosition the speedometer reads. Real fixes satisfy it structurally,
+// which lets replayed or simulated fixes flow through exactly the same code path.
+export interface PositionFix {
+  coords: {
+    latitude: number
+    longitude: number
+    accuracy: number
+    altitude: number | null
+    altitudeAccuracy: number | null
+    heading: number | null
+    speed: number | null
+  }
+  timestamp: number
+}
+
+export type PositionFixCallback = (position: PositionFix) => void
+
+export interface PositionSource {
+  kind: "geolocation" | "replay"
+  isSupported(): boolean
+  watch(onPosition: PositionFixCallback, onError: PositionErrorCallback, options?: PositionOptions): void
+  clear(): void
+}
+
+export function createGeolocationSource(): PositionSource {
+  let watchId: number | null = null
+
+  return {
+    kind: "geolocation",
+    isSupported: () => typeof navigator !== "undefined" && !!navigator.geolocation,
+    watch(onPosition, onError, options) {
+      watchId = navigator.geolocation.watchPosition(onPosition, onError, options)
+    },
+    clear() {
+      if (watchId !== null) {
+        navigator.geolocation.clearWatch(watchId)
+        watchId = null
+      }
+    },
+  }
+}
@@ -0,0 +1,93 @@
+export interface RecordingFormat {
+  id: string
+  label: string
+  mimeType: string // passed to MediaRecorder, including codecs
+  container: "video/mp4" | "video/webm"
+  extension: "mp4" | "webm"
+}
+
+// In order of preference for "auto": MP4/H.264 plays everywhere, then WebM in decreasing efficiency
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  {
+    id: "mp4-h264",
+    label: "MP4 · H.264",
+    mimeType: 'video/mp4;codecs="avc1.42E01F,mp4a.40.2"',
+    container: "video/mp4",
+    extension: "mp4",
+  },
+  { id: "mp4", label: "MP4", mimeType: "video/mp4", container: "video/mp4", extension: "mp4" },
+  {
+    id: "webm-vp9",
+    label: "WebM · VP9",
+    mimeType: "video/webm;codecs=vp9,opus",
+    container: "video/webm",
+    extension: "webm",
+  },
+  {
+    id: "webm-vp8",
+    label: "WebM · VP8",
+    mimeType: "video/webm;codecs=vp8,opus",
+    container: "video/webm",
+    extension: "webm",
+  },
+  {
+    id: "webm-av1",
+    label: "WebM · AV1",
+    mimeType: "video/webm;codecs=av01,opus",
+    container: "video/webm",
+    extension: "webm",
+  },
+  { id: "webm", label: "WebM", mimeType: "video/webm", container: "video/webm", extension: "webm" },
+]
+
+export const RESOLUTIONS = [
+  { id: "720p", label: "720p", width: 1280, height: 720 },
+  { id: "1080p", label: "1080p", width: 1920, height: 1080 },
+  { id: "2160p", label: "4K", width: 3840, height: 2160 },
+] as const
+
+export type ResolutionId = (typeof RESOLUTIONS)[number]["id"]
+
+export const FRAME_RATES = [24, 30, 60] as const
+
+export const BITRATES = [
+  { value: 2_500_000, label: "2.5 Mbps" },
+  { value: 5_000_000, label: "5 Mbps" },
+  { value: 8_000_000, label: "8 Mbps" },
+  { value: 16_000_000, label: "16 Mbps" },
+] as const
+
+export interface RecordingSettings {
+  formatId: "auto" | string
+  frameRate: number
+  bitrate: number
+}
+
+export const RECORDING_SETTINGS_STORAGE_KEY = "recording-settings"
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  formatId: "auto",
+  frameRate: 30,
+  bitrate: 5_000_000,
+}
+
+export function probeRecordingFormats(): RecordingFormat[] {
+  if (typeof MediaRecorder === "undefined" || typeof MediaRecorder.isTypeSupported !== "function") {
+    return []
+  }
+  return RECORDING_FORMATS.filter((format) => MediaRecorder.isTypeSupported(format.mimeType))
+}
+
+// Falls back to the best supported format when the saved choice is unavailable in this browser
+export function resolveRecordingFormat(settings: RecordingSettings): RecordingFormat | null {
+  const supported = probeRecordingFormats()
+  return supported.find((format) => format.id === settings.formatId) ?? supported[0] ?? null
+}
+
+// File extension for a recording made with one of RECORDING_FORMATS, by the MIME type it was recorded in
+export const extensionForMimeType = (mimeType: string): RecordingFormat["extension"] =>
+  RECORDING_FORMATS.find((format) => format.mimeType === mimeType)?.extension ?? "webm"
+
+// Resolution is chosen with the camera in Settings, it applies to the preview as well as recordings
+export const getResolution = (id: ResolutionId) =>
+  RESOLUTIONS.find((resolution) => resolution.id === id) ?? RESOLUTIONS[1]
@@ -0,0 +1,236 @@
+import { withStore } from "@/lib/db"
+import type { RecordingManifest } from "@/lib/evidence"
+import { createFrameLoop, type FrameLoop } from "@/lib/frame-loop"
+import type { TelemetryLog } from "@/lib/telemetry"
+import { summarizeTrip, type TripSummary } from "@/lib/trips"
+
+export interface Recording {
+  id: string
+  name: string
+  startedAt: number
+  endedAt: number
+  duration: number // ms of footage; WebM files from MediaRecorder carry no duration of their own
+  mimeType: string
+  extension: string
+  size: number // bytes
+  video: Blob
+  thumbnail: Blob | null
+  telemetry: TelemetryLog
+  manifest: RecordingManifest | null
+  trip: TripSummary
+}
+
+export interface NewRecording {
+  video: Blob
+  extension: string
+  startedAt: number
+  endedAt: number
+  thumbnail: Blob | null
+  telemetry: TelemetryLog
+  manifest: RecordingManifest | null
+}
+
+export function createRecording({
+  video,
+  extension,
+  startedAt,
+  endedAt,
+  thumbnail,
+  telemetry,
+  manifest,
+}: NewRecording): Recording {
+  return {
+    id: crypto.randomUUID(),
+    name: `Recording ${new Date(startedAt).toLocaleString()}`,
+    startedAt,
+    endedAt,
+    duration: endedAt - startedAt,
+    mimeType: video.type,
+    extension,
+    size: video.size,
+    video,
+    thumbnail,
+    telemetry,
+    manifest,
+    trip: summarizeTrip(telemetry.entries),
+  }
+}
+
+export async function saveRecording(recording: Recording): Promise<void> {
+  await withStore("recordings", "readwrite", (store) => store.put(recording))
+}
+
+export async function listRecordings(): Promise<Recording[]> {
+  const recordings = await withStore<Recording[]>("recordings", "readonly", (store) =>
+    store.index("startedAt").getAll(),
+  )
+  return recordings.reverse()
+}
+
+export async function getRecording(id: string): Promise<Recording | undefined> {
+  return withStore<Recording | undefined>("recordings", "readonly", (store) => store.get(id))
+}
+
+export async function renameRecording(id: string, name: string): Promise<void> {
+  const recording = await getRecording(id)
+  if (!recording) return
+  await saveRecording({ ...recording, name })
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await withStore("recordings", "readwrite", (store) => store.delete(id))
+}
+
+export interface StorageUsage {
+  usage: number // bytes
+  quota: number // bytes
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
+
+// Leave headroom so trips and loop segments can still be written once recordings fill the quota
+const QUOTA_HEADROOM = 0.9
+
+export async function hasStorageFor(bytes: number): Promise<boolean> {
+  const estimate = await getStorageUsage()
+  if (!estimate || estimate.quota === 0) return true
+  return estimate.usage + bytes <= estimate.quota * QUOTA_HEADROOM
+}
+
+// Asks the browser not to evict the library under storage pressure; browsers may silently decline
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false
+  if (await navigator.storage.persisted()) return true
+  return navigator.storage.persist()
+}
+
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === "QuotaExceededError" || err.name === "NS_ERROR_DOM_QUOTA_REACHED")
+
+const THUMBNAIL_WIDTH = 320
+
+export function captureThumbnail(source: HTMLCanvasElement): Promise<Blob | null> {
+  if (source.width === 0 || source.height === 0) return Promise.resolve(null)
+
+  const canvas = document.createElement("canvas")
+  canvas.width = THUMBNAIL_WIDTH
+  canvas.height = Math.round((source.height / source.width) * THUMBNAIL_WIDTH)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return Promise.resolve(null)
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.7))
+}
+
+const waitFor = (target: EventTarget, event: string) =>
+  new Promise<void>((resolve) => target.addEventListener(event, () => resolve(), { once: true }))
+
+/**
+ * MediaRecorder WebM files have no duration or cues, so the element reports Infinity and cannot
+ * seek. Seeking far past the end makes the browser scan the file and fill in the real duration.
+ */
+export async function makeSeekable(video: HTMLVideoElement): Promise<void> {
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) await waitFor(video, "loadedmetadata")
+  if (Number.isFinite(video.duration)) return
+
+  const durationKnown = waitFor(video, "durationchange")
+  video.currentTime = Number.MAX_SAFE_INTEGER
+  await durationKnown
+
+  const rewound = waitFor(video, "seeked")
+  video.currentTime = 0
+  await rewound
+}
+
+export interface TrimOptions {
+  mimeType: string
+  frameRate?: number
+  onProgress?: (fraction: number) => void
+}
+
+/**
+ * Cuts [startMs, endMs) out of a recording by playing it through a hidden video element and
+ * re-recording the frames and audio. Browsers offer no way to cut WebM/MP4 without re-encoding,
+ * so this runs in real time.
+ */
+export async function trimVideo(
+  source: Blob,
+  startMs: number,
+  endMs: number,
+  { mimeType, frameRate = 30, onProgress }: TrimOptions,
+): Promise<Blob> {
+  const url = URL.createObjectURL(source)
+  const video = document.createElement("video")
+  video.src = url
+  video.playsInline = true
+  video.preload = "auto"
+
+  const audioContext = new AudioContext()
+  let frameLoop: FrameLoop | null = null
+
+  try {
+    await makeSeekable(video)
+
+    const seeked = waitFor(video, "seeked")
+    video.currentTime = startMs / 1000
+    await seeked
+
+    const canvas = document.createElement("canvas")
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    const ctx = canvas.getContext("2d")
+    if (!ctx) throw new Error("Canvas 2D context unavailable")
+
+    // Route audio into the recording only; the element itself stays silent
+    const audioDestination = audioContext.createMediaStreamDestination()
+    audioContext.createMediaElementSource(video).connect(audioDestination)
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(frameRate).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ])
+    const recorder = new MediaRecorder(stream, { mimeType })
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve()
+      recorder.onerror = (event) => reject(event)
+    })
+
+    const endSeconds = endMs / 1000
+    const drawFrame = () => {
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+      onProgress?.(Math.min(1, (video.currentTime * 1000 - startMs) / (endMs - startMs)))
+
+      if (video.currentTime >= endSeconds || video.ended) {
+        frameLoop?.stop()
+        video.pause()
+        if (recorder.state !== "inactive") recorder.stop()
+      }
+    }
+
+    recorder.start()
+    await video.play()
+    // Keeps cutting while the tab is in the background
+    frameLoop = createFrameLoop(drawFrame, frameRate)
+    frameLoop.start()
+    await stopped
+
+    onProgress?.(1)
+    stream.getTracks().forEach((track) => track.stop())
+    return new Blob(chunks, { type: mimeType.split(";")[0] })
+  } finally {
+    frameLoop?.stop()
+    video.pause()
+    video.removeAttribute("src")
+    URL.revokeObjectURL(url)
+    audioContext.close()
+  }
+}
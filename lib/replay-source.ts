@@ -0,0 +1,133 @@
+import type { PositionFix, PositionFixCallback, PositionSource } from "@/lib/position-source"
+
+export const REPLAY_RATES = [1, 2, 10] as const
+
+export interface ReplayState {
+  index: number
+  total: number
+  isPlaying: boolean
+  rate: number
+  elapsed: number // ms of recorded time since the first fix
+  duration: number // ms of recorded time covered by the log
+}
+
+export interface ReplaySource extends PositionSource {
+  kind: "replay"
+  play(): void
+  pause(): void
+  seek(index: number): void
+  setRate(rate: number): void
+  getState(): ReplayState
+  subscribe(listener: (state: ReplayState) => void): () => void
+}
+
+// Replays recorded fixes with their original timestamps, so speeds derived from position
+// deltas are unaffected by the playback rate; only the wall-clock spacing is scaled.
+export function createReplaySource(fixes: PositionFix[]): ReplaySource {
+  let index = 0
+  let rate = 1
+  let isPlaying = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let onPosition: PositionFixCallback | null = null
+  const listeners = new Set<(state: ReplayState) => void>()
+
+  const startTime = fixes[0]?.timestamp ?? 0
+  const duration = fixes.length > 0 ? fixes[fixes.length - 1].timestamp - startTime : 0
+
+  const getState = (): ReplayState => ({
+    index,
+    total: fixes.length,
+    isPlaying,
+    rate,
+    elapsed: fixes.length > 0 ? fixes[Math.min(index, fixes.length - 1)].timestamp - startTime : 0,
+    duration,
+  })
+
+  const notify = () => {
+    const state = getState()
+    listeners.forEach((listener) => listener(state))
+  }
+
+  const cancelTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  const emitCurrent = () => {
+    const fix = fixes[index]
+    if (fix && onPosition) onPosition(fix)
+  }
+
+  const scheduleNext = () => {
+    cancelTimer()
+    if (!isPlaying) return
+
+    if (index >= fixes.length - 1) {
+      isPlaying = false
+      notify()
+      return
+    }
+
+    const delay = (fixes[index + 1].timestamp - fixes[index].timestamp) / rate
+    timer = setTimeout(
+      () => {
+        index++
+        emitCurrent()
+        notify()
+        scheduleNext()
+      },
+      Math.max(0, delay),
+    )
+  }
+
+  const play = () => {
+    if (fixes.length === 0 || isPlaying) return
+    if (index >= fixes.length - 1) index = 0
+    isPlaying = true
+    emitCurrent()
+    notify()
+    scheduleNext()
+  }
+
+  const pause = () => {
+    cancelTimer()
+    isPlaying = false
+    notify()
+  }
+
+  return {
+    kind: "replay",
+    isSupported: () => fixes.length > 0,
+    watch(positionCallback) {
+      onPosition = positionCallback
+      play()
+    },
+    clear() {
+      pause()
+      onPosition = null
+    },
+    play,
+    pause,
+    seek(target) {
+      index = Math.max(0, Math.min(fixes.length - 1, Math.round(target)))
+      emitCurrent()
+      notify()
+      scheduleNext()
+    },
+    setRate(nextRate) {
+      rate = nextRate > 0 ? nextRate : 1
+      notify()
+      scheduleNext()
+    },
+    getState,
+    subscribe(listener) {
+      listeners.add(listener)
+      listener(getState())
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
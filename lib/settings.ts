@@ -0,0 +1,164 @@
+import { z } from "zod"
+import { loadJson, saveJson } from "@/lib/storage"
+import { RECORDING_SETTINGS_STORAGE_KEY, RESOLUTIONS, type ResolutionId } from "@/lib/recording-formats"
+import { SPEED_MODE_LABELS, type SpeedMode } from "@/lib/speed-estimator"
+import { SPEED_UNITS, type SpeedUnit } from "@/lib/units"
+import { isValidTileTemplate } from "@/lib/map-tiles"
+
+export const SETTINGS_STORAGE_KEY = "settings"
+export const SETTINGS_VERSION = 5
+
+export const THEMES = {
+  violet: "Violet",
+  ocean: "Ocean",
+  forest: "Forest",
+  sunset: "Sunset",
+} as const
+
+export type Theme = keyof typeof THEMES
+
+// Empty means this app's own server
+const isServerUrl = (url: string) => url === "" || /^https?:\/\/[^/]/.test(url)
+
+const enumOf = <K extends string>(record: Record<K, unknown>) => z.enum(Object.keys(record) as [K, ...K[]])
+
+export const settingsSchema = z.object({
+  version: z.literal(SETTINGS_VERSION, { errorMap: () => ({ message: "is not a supported settings version" }) }),
+  unit: enumOf<SpeedUnit>(SPEED_UNITS),
+  dialMax: z.number({ invalid_type_error: "Enter a number" }).int().min(20).max(400),
+  smoothing: z.object({
+    mode: enumOf<SpeedMode>(SPEED_MODE_LABELS),
+    window: z.number({ invalid_type_error: "Enter a number" }).int().min(2).max(20),
+  }),
+  gps: z.object({
+    enableHighAccuracy: z.boolean(),
+    timeout: z.number({ invalid_type_error: "Enter a number" }).int().min(1000).max(60000),
+    maximumAge: z.number({ invalid_type_error: "Enter a number" }).int().min(0).max(30000),
+  }),
+  camera: z.object({
+    facingMode: z.enum(["environment", "user"]),
+    resolutionId: z.enum(RESOLUTIONS.map((resolution) => resolution.id) as [ResolutionId, ...ResolutionId[]]),
+  }),
+  theme: enumOf<Theme>(THEMES),
+  map: z.object({
+    tileUrl: z
+      .string()
+      .trim()
+      .refine(isValidTileTemplate, "Must start with http(s):// or / and contain {z}, {x} and {y}"),
+    attribution: z.string().trim().max(200),
+    orientation: z.enum(["north-up", "track-up"]),
+    // Requesting tiles with CORS lets the service worker cache them, but fails on servers without the headers
+    offlineTiles: z.boolean(),
+  }),
+  liveShare: z.object({
+    relayUrl: z.string().trim().refine(isServerUrl, "Must be empty or start with http(s)://"),
+  }),
+  fleet: z
+    .object({
+      uploadTrips: z.boolean(),
+      serverUrl: z.string().trim().refine(isServerUrl, "Must be empty or start with http(s)://"),
+      driverName: z.string().trim().max(100),
+      apiToken: z.string().trim().max(200),
+    })
+    .refine((fleet) => !fleet.uploadTrips || fleet.driverName !== "", {
+      message: "Enter a driver name to upload trips",
+      path: ["driverName"],
+    }),
+})
+
+export type Settings = z.infer<typeof settingsSchema>
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  unit: "mph",
+  dialMax: 200,
+  smoothing: { mode: "kalman", window: 5 },
+  gps: { enableHighAccuracy: true, timeout: 10000, maximumAge: 1000 },
+  camera: { facingMode: "environment", resolutionId: "1080p" },
+  theme: "violet",
+  map: {
+    tileUrl: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: "© OpenStreetMap contributors",
+    orientation: "north-up",
+    offlineTiles: true,
+  },
+  liveShare: { relayUrl: "" },
+  fleet: { uploadTrips: false, serverUrl: "", driverName: "", apiToken: "" },
+}
+
+type StoredSettings = Record<string, unknown> & { version: number }
+
+// Migrations[n] upgrades a version n object to version n + 1
+const MIGRATIONS: Record<number, (settings: StoredSettings) => StoredSettings> = {
+  // Version 0 is the state before a settings object existed: camera resolution lived with the
+  // recording settings, everything else was hard-coded to what are now the defaults
+  0: (settings) => {
+    const recording = loadJson<{ resolutionId?: string } | null>(RECORDING_SETTINGS_STORAGE_KEY, null)
+    return {
+      ...DEFAULT_SETTINGS,
+      ...settings,
+      camera: {
+        ...DEFAULT_SETTINGS.camera,
+        resolutionId: recording?.resolutionId ?? DEFAULT_SETTINGS.camera.resolutionId,
+      },
+      version: 1,
+    }
+  },
+  // Version 2 added the live map
+  1: (settings) => ({ ...settings, map: DEFAULT_SETTINGS.map, version: 2 }),
+  // Version 3 added live sharing
+  2: (settings) => ({ ...settings, liveShare: DEFAULT_SETTINGS.liveShare, version: 3 }),
+  // Version 4 added fleet trip uploads
+  3: (settings) => ({ ...settings, fleet: DEFAULT_SETTINGS.fleet, version: 4 }),
+  // Version 5 made CORS tile requests optional
+  4: (settings) => ({
+    ...settings,
+    map: { offlineTiles: DEFAULT_SETTINGS.map.offlineTiles, ...(settings.map as object) },
+    version: 5,
+  }),
+}
+
+export function migrateSettings(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null) return raw
+  let settings = { version: 0, ...raw } as StoredSettings
+  if (typeof settings.version !== "number" || settings.version > SETTINGS_VERSION) return settings
+
+  while (settings.version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[settings.version]
+    if (!migrate) break
+    settings = migrate(settings)
+  }
+  return settings
+}
+
+// Validates settings from storage or an imported file, upgrading older versions first
+export function parseSettings(raw: unknown) {
+  return settingsSchema.safeParse(migrateSettings(raw))
+}
+
+/**
+ * Loads settings, falling back to the defaults for anything missing or invalid so a bad value
+ * in storage can never stop the app from starting.
+ */
+export function loadSettings(): Settings {
+  const raw = loadJson<unknown>(SETTINGS_STORAGE_KEY, { version: 0 })
+  const parsed = parseSettings(raw)
+  if (parsed.success) return parsed.data
+
+  // Keep whichever sections are still valid; nested sections are filled in from the defaults
+  const migrated = (migrateSettings(raw) ?? {}) as Record<string, unknown>
+  const settings: Settings = { ...DEFAULT_SETTINGS }
+  for (const key of Object.keys(settingsSchema.shape) as (keyof Settings)[]) {
+    const fallback = DEFAULT_SETTINGS[key]
+    const value = typeof fallback === "object" ? { ...fallback, ...(migrated[key] as object) } : migrated[key]
+    const field = settingsSchema.shape[key].safeParse(value)
+    if (field.success) Object.assign(settings, { [key]: field.data })
+  }
+  return settings
+}
+
+export function saveSettings(settings: Settings) {
+  saveJson(SETTINGS_STORAGE_KEY, settings)
+}
+
+export const settingsToJson = (settings: Settings) => JSON.stringify(settings, null, 2)
@@ -0,0 +1,83 @@
+import type { SpeedUnit } from "@/lib/units"
+
+export interface SpeedAlertSettings {
+  enabled: boolean
+  sound: boolean
+  vibration: boolean
+  // Thresholds are kept per unit so switching units never silently rescales a limit
+  thresholds: Record<SpeedUnit, number[]>
+  hysteresis: Record<SpeedUnit, number>
+}
+
+export const SPEED_ALERTS_STORAGE_KEY = "speed-alerts"
+
+export const DEFAULT_SPEED_ALERT_SETTINGS: SpeedAlertSettings = {
+  enabled: true,
+  sound: true,
+  vibration: true,
+  thresholds: { mph: [70], kmh: [110], knots: [60], mps: [30] },
+  hysteresis: { mph: 2, kmh: 3, knots: 2, mps: 1 },
+}
+
+// Settings saved before a unit was added have no entry for it
+export const thresholdsFor = (settings: SpeedAlertSettings, unit: SpeedUnit) =>
+  settings.thresholds[unit] ?? DEFAULT_SPEED_ALERT_SETTINGS.thresholds[unit]
+
+export const hysteresisFor = (settings: SpeedAlertSettings, unit: SpeedUnit) =>
+  settings.hysteresis[unit] ?? DEFAULT_SPEED_ALERT_SETTINGS.hysteresis[unit]
+
+// Fraction of the lowest threshold at which the dial starts warning
+export const APPROACH_RATIO = 0.9
+
+/**
+ * Returns how many thresholds are currently exceeded. A threshold that is already active only
+ * clears once speed drops below it by the hysteresis margin, so jitter around a limit does not
+ * re-trigger the alert.
+ */
+export function evaluateAlertLevel(speed: number, thresholds: number[], hysteresis: number, previousLevel: number) {
+  const sorted = [...thresholds].sort((a, b) => a - b)
+  let level = 0
+
+  sorted.forEach((threshold, index) => {
+    const wasActive = index < previousLevel
+    if (speed > threshold || (wasActive && speed > threshold - hysteresis)) {
+      level = index + 1
+    }
+  })
+
+  return level
+}
+
+let audioContext: AudioContext | null = null
+
+// Two-tone chime synthesised with Web Audio, so no sound asset is needed
+export function playAlertChime() {
+  if (typeof window === "undefined" || !window.AudioContext) return
+
+  audioContext ??= new AudioContext()
+  const ctx = audioContext
+  if (ctx.state === "suspended") ctx.resume()
+
+  const tones = [880, 1320]
+  tones.forEach((frequency, index) => {
+    const start = ctx.currentTime + index * 0.18
+    const oscillator = ctx.createOscillator()
+    const gain = ctx.createGain()
+
+    oscillator.type = "sine"
+    oscillator.frequency.value = frequency
+    gain.gain.setValueAtTime(0.0001, start)
+    gain.gain.exponentialRampToValueAtTime(0.4, start + 0.02)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.16)
+
+    oscillator.connect(gain).connect(ctx.destination)
+    oscillator.start(start)
+    oscillator.stop(start + 0.17)
+  })
+}
+
+export function vibrateAlert() {
+  if (typeof navigator !== "undefined" && "vibrate" in navigator) {
+    navigator.vibrate([200, 100, 200])
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_KALMAN_OPTIONS,
+  createKalmanEstimator,
+  createMovingAverageEstimator,
+  createRawEstimator,
+  type SpeedMeasurement,
+} from "@/lib/speed-estimator"
+
+const START = 1_700_000_000_000
+
+// A trace as the watch callback sees it, one fix a second
+function trace(speeds: number[], overrides: Partial<SpeedMeasurement> = {}): SpeedMeasurement[] {
+  return speeds.map((speed, index) => ({
+    speed,
+    source: "doppler",
+    accuracy: 5,
+    timestamp: START + index * 1000,
+    displacement: speed,
+    ...overrides,
+  }))
+}
+
+const run = (measurements: SpeedMeasurement[], estimator = createKalmanEstimator()) =>
+  measurements.map((measurement) => estimator.update(measurement))
+
+describe("Kalman estimator", () => {
+  it("settles on a steady speed", () => {
+    const estimates = run(trace([15, 15.2, 14.9, 15.1, 15, 14.8, 15.2, 15]))
+    expect(estimates.at(-1)).toBeCloseTo(15, 0)
+  })
+
+  describe("outlier gating", () => {
+    it("ignores a single physically impossible spike", () => {
+      const estimates = run(trace([15, 15, 15, 15, 45, 15, 15]))
+      // A 30 m/s jump in one second would be 3 g
+      expect(estimates[4]).toBeCloseTo(15, 0)
+      expect(estimates[6]).toBeCloseTo(15, 0)
+    })
+
+    it("follows the new speed once the jump persists", () => {
+      const jump = Array(DEFAULT_KALMAN_OPTIONS.maxConsecutiveRejections + 1).fill(45)
+      const estimates = run(trace([15, 15, 15, ...jump]))
+      estimates.slice(3, -1).forEach((estimate) => expect(estimate).toBeCloseTo(15, 0))
+      expect(estimates.at(-1)).toBe(45)
+    })
+
+    it("accepts hard but possible braking", () => {
+      // About 0.8 g, well inside maxAcceleration
+      const estimates = run(trace([25, 25, 25, 17, 9, 1, 0]))
+      expect(estimates[3]).toBeLessThan(21)
+      expect(estimates.at(-1)).toBeLessThan(3)
+    })
+  })
+
+  describe("stationary clamp", () => {
+    it("reads position jitter inside the accuracy circle as standing still", () => {
+      // 3 m "moves" a second with 10 m accuracy give a derived 3 m/s that is only noise
+      const parked = trace([3, 2.5, 3.5, 3, 2.8], { source: "derived", accuracy: 10, displacement: 3 })
+      expect(run(parked)).toEqual([0, 0, 0, 0, 0])
+    })
+
+    it("reports crawling below the stationary speed as 0", () => {
+      expect(run(trace([0.3, 0.4, 0.2]))).toEqual([0, 0, 0])
+    })
+
+    it("never goes negative", () => {
+      expect(run(trace([-1, 0, -0.5])).every((estimate) => estimate >= 0)).toBe(true)
+    })
+  })
+
+  describe("accuracy weighting", () => {
+    const stepWith = (accuracy: number) => {
+      const measurements = trace([10, 10, 10, 10, 14])
+      measurements[4].accuracy = accuracy
+      return run(measurements).at(-1)!
+    }
+
+    it("moves further towards a precise fix than a vague one", () => {
+      const precise = stepWith(3)
+      const vague = stepWith(60)
+      expect(precise).toBeGreaterThan(vague)
+      expect(vague).toBeGreaterThan(10)
+      expect(precise).toBeLessThanOrEqual(14)
+    })
+
+    it("trusts receiver speed over speed derived from positions", () => {
+      const base = trace([10, 10, 10, 10])
+      const step: SpeedMeasurement = { ...base[3], speed: 13, timestamp: base[3].timestamp + 1000 }
+      const doppler = run([...base, step]).at(-1)!
+      const derived = run([...base, { ...step, source: "derived", displacement: 13 }]).at(-1)!
+      expect(doppler).toBeGreaterThan(derived)
+    })
+  })
+
+  it("starts over after reset", () => {
+    const estimator = createKalmanEstimator()
+    run(trace([20, 20, 20]), estimator)
+    estimator.reset()
+    expect(estimator.update(trace([5])[0])).toBe(5)
+  })
+})
+
+describe("simple estimators", () => {
+  it("raw passes speeds through, clamped at 0", () => {
+    expect(run(trace([3, -1, 7]), createRawEstimator())).toEqual([3, 0, 7])
+  })
+
+  it("moving average weights recent speeds more", () => {
+    const estimates = run(trace([10, 20]), createMovingAverageEstimator(3))
+    // (10 × 1 + 20 × 2) / 3
+    expect(estimates[1]).toBeCloseTo(50 / 3)
+  })
+})
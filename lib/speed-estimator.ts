@@ -0,0 +1,174 @@
+export type SpeedMode = "raw" | "average" | "kalman"
+
+export const SPEED_MODE_LABELS: Record<SpeedMode, string> = {
+  raw: "Raw",
+  average: "Average",
+  kalman: "Filtered",
+}
+
+export interface SpeedMeasurement {
+  speed: number // m/s
+  // "doppler" speeds come straight from the receiver (coords.speed); "derived" ones from position deltas
+  source: "doppler" | "derived"
+  accuracy: number // horizontal accuracy in meters
+  timestamp: number // ms
+  displacement: number | null // meters moved since the previous fix, when known
+}
+
+export interface SpeedEstimator {
+  update(measurement: SpeedMeasurement): number // estimated speed in m/s
+  reset(): void
+}
+
+// Below this speed (~1.1 mph) the vehicle is treated as stopped
+export const STATIONARY_SPEED = 0.5
+
+export function createRawEstimator(): SpeedEstimator {
+  return {
+    update: (measurement) => Math.max(0, measurement.speed),
+    reset: () => {},
+  }
+}
+
+// Weighted moving average where more recent speeds have higher weight
+export function createMovingAverageEstimator(windowSize = 5): SpeedEstimator {
+  let history: number[] = []
+
+  return {
+    update(measurement) {
+      history.push(Math.max(0, measurement.speed))
+      if (history.length > windowSize) {
+        history.shift()
+      }
+
+      let weightedSum = 0
+      let totalWeight = 0
+
+      history.forEach((speed, index) => {
+        const weight = index + 1
+        weightedSum += speed * weight
+        totalWeight += weight
+      })
+
+      return weightedSum / totalWeight
+    },
+    reset() {
+      history = []
+    },
+  }
+}
+
+export interface KalmanOptions {
+  accelerationNoise: number // m/s², standard deviation of unmodelled acceleration
+  maxAcceleration: number // m/s², larger implied jumps are treated as outliers
+  gateSigma: number // innovation gate in standard deviations
+  maxConsecutiveRejections: number // after this many outliers in a row, re-initialise on the measurement
+  minDopplerSigma: number // m/s, floor for receiver-reported speed noise
+}
+
+export const DEFAULT_KALMAN_OPTIONS: KalmanOptions = {
+  accelerationNoise: 3,
+  maxAcceleration: 12,
+  gateSigma: 3,
+  maxConsecutiveRejections: 3,
+  minDopplerSigma: 0.3,
+}
+
+/**
+ * One-dimensional Kalman filter over speed with a random-walk (constant speed) process model.
+ * Each fix is weighted by its reported accuracy, physically implausible jumps are gated out,
+ * and position jitter smaller than the fix accuracy is read as standing still.
+ */
+export function createKalmanEstimator(options: Partial<KalmanOptions> = {}): SpeedEstimator {
+  const config = { ...DEFAULT_KALMAN_OPTIONS, ...options }
+
+  let estimate: number | null = null
+  let variance = 0
+  let lastTimestamp: number | null = null
+  let rejections = 0
+
+  const measurementVariance = (measurement: SpeedMeasurement, dt: number) => {
+    if (measurement.source === "doppler") {
+      // Doppler speed noise scales loosely with the position error the receiver reports
+      const sigma = Math.max(config.minDopplerSigma, measurement.accuracy * 0.05)
+      return sigma * sigma
+    }
+
+    // Speed from two fixes, each with independent position error, over dt seconds
+    const sigma = (Math.SQRT2 * measurement.accuracy) / Math.max(dt, 0.1)
+    return sigma * sigma
+  }
+
+  return {
+    update(measurement) {
+      const dt = lastTimestamp === null ? 0 : Math.max(0, (measurement.timestamp - lastTimestamp) / 1000)
+      lastTimestamp = measurement.timestamp
+
+      let observed = Math.max(0, measurement.speed)
+
+      // Movement within the accuracy circle is indistinguishable from jitter while parked
+      if (
+        measurement.source === "derived" &&
+        measurement.displacement !== null &&
+        measurement.displacement < measurement.accuracy
+      ) {
+        observed = 0
+      }
+
+      const r = measurementVariance(measurement, dt)
+
+      if (estimate === null) {
+        estimate = observed
+        variance = r
+        return estimate < STATIONARY_SPEED ? 0 : estimate
+      }
+
+      // Predict: speed persists, uncertainty grows with elapsed time
+      const q = config.accelerationNoise * config.accelerationNoise * dt * dt
+      variance += q
+
+      // Gate: reject measurements that are both statistically and physically implausible
+      const innovation = observed - estimate
+      const innovationVariance = variance + r
+      const impliedAcceleration = dt > 0 ? Math.abs(innovation) / dt : Infinity
+      const isOutlier =
+        innovation * innovation > config.gateSigma * config.gateSigma * innovationVariance &&
+        impliedAcceleration > config.maxAcceleration
+
+      if (isOutlier && rejections < config.maxConsecutiveRejections) {
+        rejections++
+      } else if (isOutlier) {
+        // Repeated "outliers" mean the filter has lost track; restart from the measurement
+        rejections = 0
+        estimate = observed
+        variance = r
+      } else {
+        rejections = 0
+        const gain = variance / innovationVariance
+        estimate += gain * innovation
+        variance *= 1 - gain
+      }
+
+      estimate = Math.max(0, estimate)
+      return estimate < STATIONARY_SPEED ? 0 : estimate
+    },
+    reset() {
+      estimate = null
+      variance = 0
+      lastTimestamp = null
+      rejections = 0
+    },
+  }
+}
+
+// `averageWindow` is the number of fixes averaged in "average" mode
+export function createSpeedEstimator(mode: SpeedMode, averageWindow?: number): SpeedEstimator {
+  switch (mode) {
+    case "raw":
+      return createRawEstimator()
+    case "average":
+      return createMovingAverageEstimator(averageWindow)
+    case "kalman":
+      return createKalmanEstimator()
+  }
+}
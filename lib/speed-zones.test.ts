@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { VIOLATION_CLEAR_SECONDS, createViolationTracker, type SpeedZone, type ZoneViolation } from "@/lib/speed-zones"
+
+const START = 1_700_000_000_000
+
+const zone = (id: string, limit = 30): SpeedZone => ({
+  id,
+  name: `Zone ${id}`,
+  limit,
+  unit: "mph",
+  shape: { type: "corridor", path: [], width: 30 },
+})
+
+// Feeds one speed per second through the tracker and returns the violations it reported
+function track(speeds: number[], zoneFor: (index: number) => SpeedZone | null = () => zone("a")) {
+  const violations: ZoneViolation[] = []
+  const tracker = createViolationTracker((violation) => violations.push(violation))
+  speeds.forEach((speed, index) =>
+    tracker.update(zoneFor(index), speed, { latitude: 52.52, longitude: 13.405, timestamp: START + index * 1000 }),
+  )
+  return { violations, tracker }
+}
+
+describe("createViolationTracker", () => {
+  it("records speed hovering at the limit as one violation", () => {
+    const { violations, tracker } = track([28, 31, 30, 32, 29.5, 31, 33, 30])
+    expect(violations).toEqual([])
+    tracker.close()
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ startedAt: START + 1000, endedAt: START + 6000, peakSpeed: 33 })
+  })
+
+  it("ends a violation once speed is clearly under the limit", () => {
+    const { violations } = track([31, 34, 27, 31])
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ startedAt: START, endedAt: START + 1000, peakSpeed: 34 })
+  })
+
+  it("ends a violation once speed has stayed under the limit long enough", () => {
+    const under = Array(VIOLATION_CLEAR_SECONDS + 1).fill(29)
+    const { violations } = track([31, ...under, 31])
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ startedAt: START, endedAt: START })
+  })
+
+  it("ends a violation straight away when the zone changes", () => {
+    const { violations } = track([31, 31, 31], (index) => (index < 2 ? zone("a") : zone("b")))
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ zoneId: "a", endedAt: START + 1000 })
+  })
+})
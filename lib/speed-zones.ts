@@ -0,0 +1,234 @@
+import { z } from "zod"
+import { withStore } from "@/lib/db"
+import { distanceToPolyline, pointInPolygon, type LatLng } from "@/lib/geo"
+import { convertSpeed, type SpeedUnit } from "@/lib/units"
+
+export type SpeedZoneShape =
+  | { type: "polygon"; polygons: LatLng[][][] } // each polygon is [outer ring, ...holes]
+  | { type: "corridor"; path: LatLng[]; width: number } // full width in meters
+
+export interface SpeedZone {
+  id: string
+  name: string
+  limit: number
+  unit: SpeedUnit
+  shape: SpeedZoneShape
+}
+
+export interface ZoneViolation {
+  id: string
+  zoneId: string
+  zoneName: string
+  limit: number
+  unit: SpeedUnit
+  startedAt: number
+  endedAt: number
+  peakSpeed: number // in the zone's unit
+  latitude: number
+  longitude: number
+}
+
+export const SPEED_ZONES_STORAGE_KEY = "speed-zones"
+export const DEFAULT_CORRIDOR_WIDTH = 30
+
+const unitSchema = z.enum(["mph", "kmh"]).default("mph")
+const lonLatSchema = z.tuple([z.number(), z.number()]).rest(z.number())
+const latLonSchema = z.tuple([z.number(), z.number()])
+
+const geoJsonSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(
+    z.object({
+      type: z.literal("Feature"),
+      geometry: z.discriminatedUnion("type", [
+        z.object({ type: z.literal("Polygon"), coordinates: z.array(z.array(lonLatSchema)) }),
+        z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(z.array(lonLatSchema))) }),
+        z.object({ type: z.literal("LineString"), coordinates: z.array(lonLatSchema) }),
+      ]),
+      properties: z
+        .object({
+          name: z.string().optional(),
+          limit: z.number().positive().optional(),
+          speedLimit: z.number().positive().optional(),
+          maxspeed: z.number().positive().optional(),
+          unit: unitSchema,
+          width: z.number().positive().optional(),
+        })
+        .passthrough(),
+    }),
+  ),
+})
+
+// Simple format: { "zones": [{ "name", "limit", "unit", "polygon": [[lat, lon], ...] }
+//                         | { "name", "limit", "unit", "corridor": [[lat, lon], ...], "width" }] }
+const simpleSchema = z.object({
+  zones: z.array(
+    z
+      .object({
+        name: z.string().default("Zone"),
+        limit: z.number().positive(),
+        unit: unitSchema,
+        polygon: z.array(latLonSchema).min(3).optional(),
+        corridor: z.array(latLonSchema).min(2).optional(),
+        width: z.number().positive().default(DEFAULT_CORRIDOR_WIDTH),
+      })
+      .refine((zone) => !!zone.polygon !== !!zone.corridor, "Each zone needs exactly one of polygon or corridor"),
+  ),
+})
+
+const fromLonLat = ([longitude, latitude]: number[]): LatLng => ({ latitude, longitude })
+const fromLatLon = ([latitude, longitude]: number[]): LatLng => ({ latitude, longitude })
+
+export function parseSpeedZones(text: string): SpeedZone[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("Zone file is not valid JSON")
+  }
+
+  const geoJson = geoJsonSchema.safeParse(data)
+  if (geoJson.success) {
+    return geoJson.data.features.map((feature, index) => {
+      const { properties, geometry } = feature
+      const limit = properties.limit ?? properties.speedLimit ?? properties.maxspeed
+      if (limit === undefined) {
+        throw new Error(`Feature ${index + 1} has no speed limit property`)
+      }
+
+      const shape: SpeedZoneShape =
+        geometry.type === "LineString"
+          ? {
+              type: "corridor",
+              path: geometry.coordinates.map(fromLonLat),
+              width: properties.width ?? DEFAULT_CORRIDOR_WIDTH,
+            }
+          : {
+              type: "polygon",
+              polygons: (geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates).map((polygon) =>
+                polygon.map((ring) => ring.map(fromLonLat)),
+              ),
+            }
+
+      return {
+        id: crypto.randomUUID(),
+        name: properties.name ?? `Zone ${index + 1}`,
+        limit,
+        unit: properties.unit,
+        shape,
+      }
+    })
+  }
+
+  const simple = simpleSchema.safeParse(data)
+  if (simple.success) {
+    return simple.data.zones.map((zone) => ({
+      id: crypto.randomUUID(),
+      name: zone.name,
+      limit: zone.limit,
+      unit: zone.unit,
+      shape: zone.polygon
+        ? { type: "polygon", polygons: [[zone.polygon.map(fromLatLon)]] }
+        : { type: "corridor", path: zone.corridor!.map(fromLatLon), width: zone.width },
+    }))
+  }
+
+  throw new Error("Unrecognised zone file: expected a GeoJSON FeatureCollection or { zones: [...] }")
+}
+
+export function isInZone(zone: SpeedZone, point: LatLng): boolean {
+  if (zone.shape.type === "polygon") {
+    return zone.shape.polygons.some((rings) => pointInPolygon(point, rings))
+  }
+  return distanceToPolyline(point, zone.shape.path) <= zone.shape.width / 2
+}
+
+// Where zones overlap, the most restrictive limit applies
+export function findActiveZone(zones: SpeedZone[], point: LatLng): SpeedZone | null {
+  let active: SpeedZone | null = null
+
+  for (const zone of zones) {
+    if (!isInZone(zone, point)) continue
+    if (!active || convertSpeed(zone.limit, zone.unit, "mph") < convertSpeed(active.limit, active.unit, "mph")) {
+      active = zone
+    }
+  }
+
+  return active
+}
+
+// Hysteresis so speed hovering at the limit records one violation rather than many: a violation
+// ends once speed is this far under the limit (in the zone's unit) or has stayed under it this long
+export const VIOLATION_CLEAR_MARGIN = 2
+export const VIOLATION_CLEAR_SECONDS = 3
+
+/**
+ * Tracks whether the vehicle is currently over the active zone's limit. A violation opens on the
+ * first fix above the limit and closes once speed is clearly back under it, when the zone changes,
+ * or when tracking stops. Its end is the last fix that was over the limit.
+ */
+export function createViolationTracker(onViolation: (violation: ZoneViolation) => void) {
+  let current: ZoneViolation | null = null
+  let belowSince: number | null = null
+
+  const close = () => {
+    if (current) onViolation(current)
+    current = null
+    belowSince = null
+  }
+
+  return {
+    update(zone: SpeedZone | null, speedMph: number, point: LatLng & { timestamp: number }) {
+      if (!zone || (current && current.zoneId !== zone.id)) close()
+      if (!zone) return
+
+      const speed = convertSpeed(speedMph, "mph", zone.unit)
+      if (speed <= zone.limit) {
+        if (!current) return
+        belowSince ??= point.timestamp
+        if (
+          speed <= zone.limit - VIOLATION_CLEAR_MARGIN ||
+          point.timestamp - belowSince >= VIOLATION_CLEAR_SECONDS * 1000
+        ) {
+          close()
+        }
+        return
+      }
+
+      belowSince = null
+      if (!current) {
+        current = {
+          id: crypto.randomUUID(),
+          zoneId: zone.id,
+          zoneName: zone.name,
+          limit: zone.limit,
+          unit: zone.unit,
+          startedAt: point.timestamp,
+          endedAt: point.timestamp,
+          peakSpeed: speed,
+          latitude: point.latitude,
+          longitude: point.longitude,
+        }
+      } else {
+        current.endedAt = point.timestamp
+        current.peakSpeed = Math.max(current.peakSpeed, speed)
+      }
+    },
+    close,
+  }
+}
+
+export async function saveViolation(violation: ZoneViolation): Promise<void> {
+  await withStore("zoneViolations", "readwrite", (store) => store.put(violation))
+}
+
+export async function listViolations(): Promise<ZoneViolation[]> {
+  const violations = await withStore<ZoneViolation[]>("zoneViolations", "readonly", (store) =>
+    store.index("startedAt").getAll(),
+  )
+  return violations.reverse()
+}
+
+export async function clearViolations(): Promise<void> {
+  await withStore("zoneViolations", "readwrite", (store) => store.clear())
+}
@@ -0,0 +1,21 @@
+// Namespaced JSON helpers for localStorage; all failures fall back silently (private mode, quota, SSR)
+const PREFIX = "gps-speedometer:"
+
+export function loadJson<T>(key: string, fallback: T): T {
+  if (typeof localStorage === "undefined") return fallback
+  try {
+    const raw = localStorage.getItem(PREFIX + key)
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function saveJson<T>(key: string, value: T) {
+  if (typeof localStorage === "undefined") return
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value))
+  } catch (err) {
+    console.error("Storage error:", err)
+  }
+}
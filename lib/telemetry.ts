@@ -0,0 +1,138 @@
+import { compassPoint } from "@/lib/geo"
+import { MPS_TO_MPH, SPEED_UNITS, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+export interface TelemetryEntry {
+  offset: number // ms since MediaRecorder.start()
+  timestamp: number // fix time (position.timestamp)
+  latitude: number
+  longitude: number
+  speed: number // mph
+  heading: number | null
+  accuracy: number
+  altitude: number | null
+}
+
+export interface TelemetryLog {
+  version: 1
+  recordingStartedAt: number // wall-clock ms when MediaRecorder.start() was called
+  speedUnit: "mph"
+  entries: TelemetryEntry[]
+}
+
+export function serializeTelemetryLog(log: TelemetryLog): string {
+  return JSON.stringify(log, null, 2)
+}
+
+// Keeps the entries inside [startMs, endMs) of the footage, re-based so offsets match a trimmed clip
+export function trimTelemetryLog(log: TelemetryLog, startMs: number, endMs: number): TelemetryLog {
+  return {
+    ...log,
+    recordingStartedAt: log.recordingStartedAt + startMs,
+    entries: log.entries
+      .filter((entry) => entry.offset >= startMs && entry.offset < endMs)
+      .map((entry) => ({ ...entry, offset: entry.offset - startMs })),
+  }
+}
+
+export type TelemetryFormat = "vtt" | "srt" | "csv" | "json"
+
+interface Cue {
+  start: number // ms
+  end: number // ms
+  text: string
+}
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, "0")
+
+// hh:mm:ss.mmm (WebVTT) or hh:mm:ss,mmm (SRT)
+const formatCueTime = (ms: number, separator: "." | ",") => {
+  const hours = Math.floor(ms / 3600000)
+  const minutes = Math.floor((ms % 3600000) / 60000)
+  const seconds = Math.floor((ms % 60000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(Math.floor(ms % 1000), 3)}`
+}
+
+// One cue per second of video showing the latest fix at that point
+function buildCues(log: TelemetryLog, unit: SpeedUnit, durationMs: number): Cue[] {
+  const cues: Cue[] = []
+  let entryIndex = -1
+
+  for (let start = 0; start < durationMs; start += 1000) {
+    while (entryIndex + 1 < log.entries.length && log.entries[entryIndex + 1].offset <= start + 999) {
+      entryIndex++
+    }
+    if (entryIndex === -1) continue
+
+    const entry = log.entries[entryIndex]
+    const heading = entry.heading !== null ? `${Math.round(entry.heading)}° ${compassPoint(entry.heading)}` : "---°"
+    cues.push({
+      start,
+      end: Math.min(start + 1000, durationMs),
+      text: [
+        `${toDisplaySpeed(entry.speed, unit).toFixed(1)} ${SPEED_UNITS[unit].label} · ${heading}`,
+        `${entry.latitude.toFixed(6)}, ${entry.longitude.toFixed(6)}`,
+      ].join("\n"),
+    })
+  }
+
+  return cues
+}
+
+export function toWebVtt(log: TelemetryLog, unit: SpeedUnit, durationMs: number): string {
+  const cues = buildCues(log, unit, durationMs).map(
+    (cue) => `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.text}`,
+  )
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`
+}
+
+export function toSrt(log: TelemetryLog, unit: SpeedUnit, durationMs: number): string {
+  const cues = buildCues(log, unit, durationMs).map(
+    (cue, index) => `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.text}`,
+  )
+  return `${cues.join("\n\n")}\n`
+}
+
+const CSV_COLUMNS = [
+  "offset_ms",
+  "timestamp_utc",
+  "latitude",
+  "longitude",
+  "speed_mps",
+  "heading_deg",
+  "accuracy_m",
+  "altitude_m",
+] as const
+
+export function toCsv(log: TelemetryLog): string {
+  const rows = log.entries.map((entry) =>
+    [
+      entry.offset,
+      new Date(entry.timestamp).toISOString(),
+      entry.latitude,
+      entry.longitude,
+      (entry.speed / MPS_TO_MPH).toFixed(3),
+      entry.heading ?? "",
+      entry.accuracy,
+      entry.altitude ?? "",
+    ].join(","),
+  )
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n"
+}
+
+export function serializeTelemetry(
+  format: TelemetryFormat,
+  log: TelemetryLog,
+  unit: SpeedUnit,
+  durationMs: number,
+): { content: string; mimeType: string; extension: string } {
+  switch (format) {
+    case "vtt":
+      return { content: toWebVtt(log, unit, durationMs), mimeType: "text/vtt", extension: "vtt" }
+    case "srt":
+      return { content: toSrt(log, unit, durationMs), mimeType: "application/x-subrip", extension: "srt" }
+    case "csv":
+      return { content: toCsv(log), mimeType: "text/csv", extension: "csv" }
+    case "json":
+      return { content: serializeTelemetryLog(log), mimeType: "application/json", extension: "telemetry.json" }
+  }
+}
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { serializeTrack, toGeoJson, toGpx, toKml, type TrackFormat } from "@/lib/track-export"
+import { parseGeoJson, parseGpx, parseKml, parseTrackFile } from "@/lib/track-import"
+import type { TripSample } from "@/lib/types"
+import { MPS_TO_MPH } from "@/lib/units"
+import type { PositionFix } from "@/lib/position-source"
+
+const START = Date.UTC(2025, 5, 1, 8, 30, 0)
+
+// Values already at export precision, so a round trip should give them back unchanged
+const SAMPLES: TripSample[] = [
+  {
+    timestamp: START,
+    latitude: 52.520008,
+    longitude: 13.404954,
+    speed: 0,
+    heading: null,
+    accuracy: 4.5,
+    altitude: 34.2,
+  },
+  {
+    timestamp: START + 1000,
+    latitude: 52.520102,
+    longitude: 13.405121,
+    speed: 12.5 * MPS_TO_MPH,
+    heading: 45.5,
+    accuracy: 5,
+    altitude: 35,
+  },
+  {
+    timestamp: START + 2000,
+    latitude: 52.520251,
+    longitude: 13.405378,
+    speed: 13.25 * MPS_TO_MPH,
+    heading: 47,
+    accuracy: 6.2,
+    altitude: null,
+  },
+]
+
+const PARSERS: Record<TrackFormat, (content: string) => PositionFix[]> = {
+  gpx: parseGpx,
+  kml: parseKml,
+  geojson: parseGeoJson,
+}
+
+function expectRoundTrip(fixes: PositionFix[], samples: TripSample[], { altitude = true } = {}) {
+  expect(fixes).toHaveLength(samples.length)
+  fixes.forEach((fix, index) => {
+    const sample = samples[index]
+    expect(fix.timestamp).toBe(sample.timestamp)
+    expect(fix.coords.latitude).toBe(sample.latitude)
+    expect(fix.coords.longitude).toBe(sample.longitude)
+    expect(fix.coords.speed).toBeCloseTo(sample.speed / MPS_TO_MPH, 3)
+    expect(fix.coords.heading).toBe(sample.heading)
+    expect(fix.coords.accuracy).toBe(sample.accuracy)
+    if (altitude) expect(fix.coords.altitude).toBe(sample.altitude ?? null)
+  })
+}
+
+describe.each(["gpx", "geojson"] as const)("%s round trip", (format) => {
+  it("keeps every field, including missing altitudes and headings", () => {
+    const { content } = serializeTrack(format, SAMPLES, "Morning drive")
+    expectRoundTrip(PARSERS[format](content), SAMPLES)
+  })
+})
+
+describe("kml round trip", () => {
+  it("keeps position, time, speed, heading, accuracy and known altitudes", () => {
+    const fixes = parseKml(toKml(SAMPLES, "Morning drive"))
+    expectRoundTrip(fixes.slice(0, 2), SAMPLES.slice(0, 2))
+    // gx:coord has no way to leave out one point's altitude; it comes back as 0
+    expectRoundTrip(fixes.slice(2), SAMPLES.slice(2), { altitude: false })
+  })
+
+  it("reads a track recorded without altitude as having none", () => {
+    const samples = SAMPLES.map((sample) => ({ ...sample, altitude: null }))
+    const fixes = parseKml(toKml(samples, "No altitude"))
+    expectRoundTrip(fixes, samples)
+  })
+})
+
+describe("exporters", () => {
+  it("writes GPX elevation before time, and none for unknown altitudes", () => {
+    const gpx = toGpx(SAMPLES, "Drive")
+    expect(gpx).toContain("<ele>34.2</ele>\n        <time>")
+    expect(gpx.match(/<ele>/g)).toHaveLength(2)
+  })
+
+  it("escapes names", () => {
+    const name = `Tom & Jerry's <"drive">`
+    expect(parseGpx(toGpx(SAMPLES, name))).toHaveLength(SAMPLES.length)
+    expect(parseKml(toKml(SAMPLES, name))).toHaveLength(SAMPLES.length)
+    expect(JSON.parse(toGeoJson(SAMPLES, name)).features[0].properties.name).toBe(name)
+  })
+})
+
+describe("parseTrackFile", () => {
+  it.each([
+    ["drive.gpx", "gpx"],
+    ["drive.kml", "kml"],
+    ["drive.geojson", "geojson"],
+    // Detected from the content when the extension says nothing
+    ["download", "kml"],
+    ["download", "geojson"],
+  ] as const)("reads %s as %s", (fileName, format) => {
+    const { content } = serializeTrack(format, SAMPLES, "Drive")
+    expectRoundTrip(parseTrackFile(fileName, content), SAMPLES, { altitude: format !== "kml" })
+  })
+
+  it("rejects files without timestamps", () => {
+    const lineString = JSON.stringify({ type: "LineString", coordinates: [[13.4, 52.5]] })
+    expect(() => parseTrackFile("route.geojson", lineString)).toThrow(/coordinateProperties/)
+  })
+})
@@ -0,0 +1,188 @@
+import type { TripSample } from "@/lib/types"
+import { MPS_TO_MPH } from "@/lib/units"
+
+export type TrackFormat = "gpx" | "kml" | "geojson"
+
+export interface SerializedTrack {
+  content: string
+  mimeType: string
+  extension: string
+}
+
+const APP_NAME = "GPS Speedometer"
+const APP_NAMESPACE = "https://qik.wiki/xmlschemas/speedometer/v1"
+
+const toMetersPerSecond = (mph: number) => mph / MPS_TO_MPH
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+const isoTime = (timestamp: number) => new Date(timestamp).toISOString()
+const hasAltitude = (sample: TripSample): sample is TripSample & { altitude: number } =>
+  sample.altitude !== null && sample.altitude !== undefined
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+// GPX 1.1 with speed/course in the Garmin TrackPointExtension and accuracy in our own namespace
+export function toGpx(samples: TripSample[], name: string): string {
+  const points = samples
+    .map((sample) => {
+      const extensions = [`<gpxtpx:speed>${round(toMetersPerSecond(sample.speed), 3)}</gpxtpx:speed>`]
+      if (sample.heading !== null) {
+        extensions.push(`<gpxtpx:course>${round(sample.heading, 1)}</gpxtpx:course>`)
+      }
+
+      return [
+        `      <trkpt lat="${sample.latitude}" lon="${sample.longitude}">`,
+        // GPX orders <ele> before <time>
+        ...(hasAltitude(sample) ? [`        <ele>${round(sample.altitude, 1)}</ele>`] : []),
+        `        <time>${isoTime(sample.timestamp)}</time>`,
+        `        <extensions>`,
+        `          <gpxtpx:TrackPointExtension>${extensions.join("")}</gpxtpx:TrackPointExtension>`,
+        `          <speedo:accuracy>${round(sample.accuracy, 1)}</speedo:accuracy>`,
+        `        </extensions>`,
+        `      </trkpt>`,
+      ].join("\n")
+    })
+    .join("\n")
+
+  const startTime = samples.length > 0 ? `\n    <time>${isoTime(samples[0].timestamp)}</time>` : ""
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${APP_NAME}"
+  xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"
+  xmlns:speedo="${APP_NAMESPACE}"
+  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd http://www.garmin.com/xmlschemas/TrackPointExtension/v2 http://www.garmin.com/xmlschemas/TrackPointExtensionv2.xsd">
+  <metadata>
+    <name>${escapeXml(name)}</name>${startTime}
+  </metadata>
+  <trk>
+    <name>${escapeXml(name)}</name>
+    <trkseg>
+${points}
+    </trkseg>
+  </trk>
+</gpx>
+`
+}
+
+/**
+ * KML 2.2 gx:Track, with per-point values carried as gx:SimpleArrayData. gx:coord always has an
+ * altitude, so a track recorded without one is clamped to the ground and its zeros mean "unknown".
+ */
+export function toKml(samples: TripSample[], name: string): string {
+  const altitudeMode = samples.some(hasAltitude) ? "absolute" : "clampToGround"
+  const whens = samples.map((s) => `        <when>${isoTime(s.timestamp)}</when>`).join("\n")
+  const coords = samples
+    .map(
+      (s) => `        <gx:coord>${s.longitude} ${s.latitude} ${hasAltitude(s) ? round(s.altitude, 1) : 0}</gx:coord>`,
+    )
+    .join("\n")
+  const arrayData = (field: string, values: (number | null)[]) =>
+    [
+      `            <gx:SimpleArrayData name="${field}">`,
+      ...values.map((v) => `              <gx:value>${v === null ? "" : v}</gx:value>`),
+      `            </gx:SimpleArrayData>`,
+    ].join("\n")
+  const speeds = arrayData(
+    "speed",
+    samples.map((s) => round(toMetersPerSecond(s.speed), 3)),
+  )
+  const headings = arrayData(
+    "heading",
+    samples.map((s) => (s.heading === null ? null : round(s.heading, 1))),
+  )
+  const accuracies = arrayData(
+    "accuracy",
+    samples.map((s) => round(s.accuracy, 1)),
+  )
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Style id="track">
+      <LineStyle>
+        <color>fff65c8b</color>
+        <width>4</width>
+      </LineStyle>
+    </Style>
+    <Schema id="telemetry" name="telemetry">
+      <gx:SimpleArrayField name="speed" type="float">
+        <displayName>Speed (m/s)</displayName>
+      </gx:SimpleArrayField>
+      <gx:SimpleArrayField name="heading" type="float">
+        <displayName>Heading (°)</displayName>
+      </gx:SimpleArrayField>
+      <gx:SimpleArrayField name="accuracy" type="float">
+        <displayName>Accuracy (m)</displayName>
+      </gx:SimpleArrayField>
+    </Schema>
+    <Placemark>
+      <name>${escapeXml(name)}</name>
+      <styleUrl>#track</styleUrl>
+      <gx:Track>
+        <altitudeMode>${altitudeMode}</altitudeMode>
+${whens}
+${coords}
+        <ExtendedData>
+          <SchemaData schemaUrl="#telemetry">
+${speeds}
+${headings}
+${accuracies}
+          </SchemaData>
+        </ExtendedData>
+      </gx:Track>
+    </Placemark>
+  </Document>
+</kml>
+`
+}
+
+// RFC 7946 LineString; per-point values follow the common `coordinateProperties` convention.
+// Positions carry altitude as their optional third element.
+export function toGeoJson(samples: TripSample[], name: string): string {
+  const featureCollection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: samples.map((s) =>
+            hasAltitude(s) ? [s.longitude, s.latitude, round(s.altitude, 1)] : [s.longitude, s.latitude],
+          ),
+        },
+        properties: {
+          name,
+          startTime: samples.length > 0 ? isoTime(samples[0].timestamp) : null,
+          coordinateProperties: {
+            times: samples.map((s) => isoTime(s.timestamp)),
+            speed: samples.map((s) => round(toMetersPerSecond(s.speed), 3)),
+            heading: samples.map((s) => (s.heading === null ? null : round(s.heading, 1))),
+            accuracy: samples.map((s) => round(s.accuracy, 1)),
+          },
+        },
+      },
+    ],
+  }
+
+  return JSON.stringify(featureCollection, null, 2)
+}
+
+export function serializeTrack(format: TrackFormat, samples: TripSample[], name: string): SerializedTrack {
+  switch (format) {
+    case "gpx":
+      return { content: toGpx(samples, name), mimeType: "application/gpx+xml", extension: "gpx" }
+    case "kml":
+      return { content: toKml(samples, name), mimeType: "application/vnd.google-earth.kml+xml", extension: "kml" }
+    case "geojson":
+      return { content: toGeoJson(samples, name), mimeType: "application/geo+json", extension: "geojson" }
+  }
+}
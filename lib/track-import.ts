@@ -0,0 +1,312 @@
+import type { PositionFix } from "@/lib/position-source"
+
+const KNOTS_TO_MPS = 0.514444
+// Rough conversion from HDOP to a horizontal accuracy radius for a typical consumer receiver
+const HDOP_TO_METERS = 5
+const DEFAULT_ACCURACY = 10
+
+const makeFix = (
+  latitude: number,
+  longitude: number,
+  timestamp: number,
+  extra: Partial<PositionFix["coords"]> = {},
+): PositionFix => ({
+  coords: {
+    latitude,
+    longitude,
+    accuracy: DEFAULT_ACCURACY,
+    altitude: null,
+    altitudeAccuracy: null,
+    heading: null,
+    speed: null,
+    ...extra,
+  },
+  timestamp,
+})
+
+const childText = (element: Element, localName: string): string | null => {
+  const child = element.getElementsByTagNameNS("*", localName)[0]
+  return child?.textContent?.trim() || null
+}
+
+const optionalNumber = (value: string | null): number | null => {
+  if (value === null || value === "") return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const parseXml = (xml: string, format: string) => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid ${format} file`)
+  }
+  return doc
+}
+
+export function parseGpx(xml: string): PositionFix[] {
+  const doc = parseXml(xml, "GPX")
+
+  let points = Array.from(doc.getElementsByTagNameNS("*", "trkpt"))
+  if (points.length === 0) points = Array.from(doc.getElementsByTagNameNS("*", "rtept"))
+
+  const fixes: PositionFix[] = []
+  for (const point of points) {
+    const latitude = optionalNumber(point.getAttribute("lat"))
+    const longitude = optionalNumber(point.getAttribute("lon"))
+    const time = childText(point, "time")
+    if (latitude === null || longitude === null || !time) continue
+
+    const timestamp = Date.parse(time)
+    if (Number.isNaN(timestamp)) continue
+
+    const hdop = optionalNumber(childText(point, "hdop"))
+    fixes.push(
+      makeFix(latitude, longitude, timestamp, {
+        altitude: optionalNumber(childText(point, "ele")),
+        speed: optionalNumber(childText(point, "speed")),
+        heading: optionalNumber(childText(point, "course")),
+        accuracy:
+          optionalNumber(childText(point, "accuracy")) ?? (hdop !== null ? hdop * HDOP_TO_METERS : DEFAULT_ACCURACY),
+      }),
+    )
+  }
+
+  if (fixes.length === 0) {
+    throw new Error("GPX file has no timestamped track points")
+  }
+
+  return fixes.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+const isValidChecksum = (sentence: string): boolean => {
+  const star = sentence.indexOf("*")
+  if (star === -1) return true
+
+  let checksum = 0
+  for (let i = 1; i < star; i++) {
+    checksum ^= sentence.charCodeAt(i)
+  }
+  return checksum === parseInt(sentence.slice(star + 1, star + 3), 16)
+}
+
+// NMEA coordinates are ddmm.mmmm (latitude) / dddmm.mmmm (longitude)
+const parseCoordinate = (value: string, hemisphere: string): number | null => {
+  if (!value) return null
+  const dot = value.indexOf(".")
+  const degreeDigits = (dot === -1 ? value.length : dot) - 2
+  const degrees = Number(value.slice(0, degreeDigits))
+  const minutes = Number(value.slice(degreeDigits))
+  if (!Number.isFinite(degrees) || !Number.isFinite(minutes)) return null
+
+  const decimal = degrees + minutes / 60
+  return hemisphere === "S" || hemisphere === "W" ? -decimal : decimal
+}
+
+const parseTimeOfDay = (value: string): number | null => {
+  if (value.length < 6) return null
+  const hours = Number(value.slice(0, 2))
+  const minutes = Number(value.slice(2, 4))
+  const seconds = Number(value.slice(4))
+  if ([hours, minutes, seconds].some((n) => !Number.isFinite(n))) return null
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000
+}
+
+// Returns midnight UTC for an NMEA ddmmyy date
+const parseDate = (value: string): number | null => {
+  if (value.length !== 6) return null
+  const day = Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  const year = 2000 + Number(value.slice(4, 6))
+  const date = Date.UTC(year, month - 1, day)
+  return Number.isNaN(date) ? null : date
+}
+
+// Parses $xxRMC and $xxGGA sentences (any talker ID). RMC supplies date, speed and course;
+// GGA sentences sharing the same time of day add altitude and HDOP-derived accuracy.
+export function parseNmea(log: string): PositionFix[] {
+  const fixesByTime = new Map<number, PositionFix>()
+  const ggaByTimeOfDay = new Map<number, { altitude: number | null; accuracy: number }>()
+  let currentDate: number | null = null
+
+  for (const rawLine of log.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line.startsWith("$") || !isValidChecksum(line)) continue
+
+    const fields = line.split("*")[0].split(",")
+    const type = fields[0].slice(3)
+
+    if (type === "RMC") {
+      const [, time, status, lat, latHem, lon, lonHem, speedKnots, course, date] = fields
+      if (status !== "A") continue
+
+      const timeOfDay = parseTimeOfDay(time)
+      const day = parseDate(date)
+      const latitude = parseCoordinate(lat, latHem)
+      const longitude = parseCoordinate(lon, lonHem)
+      if (timeOfDay === null || day === null || latitude === null || longitude === null) continue
+
+      currentDate = day
+      const gga = ggaByTimeOfDay.get(timeOfDay)
+      const knots = optionalNumber(speedKnots)
+      fixesByTime.set(
+        day + timeOfDay,
+        makeFix(latitude, longitude, day + timeOfDay, {
+          speed: knots !== null ? knots * KNOTS_TO_MPS : null,
+          heading: optionalNumber(course),
+          altitude: gga?.altitude ?? null,
+          accuracy: gga?.accuracy ?? DEFAULT_ACCURACY,
+        }),
+      )
+    } else if (type === "GGA") {
+      const [, time, lat, latHem, lon, lonHem, quality, , hdopValue, altitudeValue] = fields
+      if (!quality || quality === "0") continue
+
+      const timeOfDay = parseTimeOfDay(time)
+      if (timeOfDay === null) continue
+
+      const hdop = optionalNumber(hdopValue)
+      const gga = {
+        altitude: optionalNumber(altitudeValue),
+        accuracy: hdop !== null ? hdop * HDOP_TO_METERS : DEFAULT_ACCURACY,
+      }
+      ggaByTimeOfDay.set(timeOfDay, gga)
+
+      if (currentDate === null) continue
+      const timestamp = currentDate + timeOfDay
+      const existing = fixesByTime.get(timestamp)
+      if (existing) {
+        existing.coords.altitude = gga.altitude
+        existing.coords.accuracy = gga.accuracy
+      } else {
+        // GGA-only epochs still carry a position; speed is derived from successive fixes
+        const latitude = parseCoordinate(lat, latHem)
+        const longitude = parseCoordinate(lon, lonHem)
+        if (latitude === null || longitude === null) continue
+        fixesByTime.set(timestamp, makeFix(latitude, longitude, timestamp, gga))
+      }
+    }
+  }
+
+  const fixes = Array.from(fixesByTime.values()).sort((a, b) => a.timestamp - b.timestamp)
+  if (fixes.length === 0) {
+    throw new Error("NMEA log has no valid $GPRMC/$GPGGA fixes")
+  }
+
+  return fixes
+}
+
+// Reads gx:Track elements, as written by Google Earth, most trackers and our own KML export.
+// Plain LineStrings carry no timestamps, so there is nothing to replay from them.
+export function parseKml(xml: string): PositionFix[] {
+  const doc = parseXml(xml, "KML")
+
+  const fixes: PositionFix[] = []
+  for (const track of Array.from(doc.getElementsByTagNameNS("*", "Track"))) {
+    const whens = Array.from(track.getElementsByTagNameNS("*", "when"))
+    const coords = Array.from(track.getElementsByTagNameNS("*", "coord"))
+    const hasAltitude = (childText(track, "altitudeMode") ?? "clampToGround") !== "clampToGround"
+
+    const arrays = new Map<string, (number | null)[]>()
+    for (const data of Array.from(track.getElementsByTagNameNS("*", "SimpleArrayData"))) {
+      const values = Array.from(data.getElementsByTagNameNS("*", "value"))
+      arrays.set(
+        data.getAttribute("name") ?? "",
+        values.map((value) => optionalNumber(value.textContent?.trim() ?? null)),
+      )
+    }
+    const valueAt = (field: string, index: number) => arrays.get(field)?.[index] ?? null
+
+    whens.forEach((when, index) => {
+      const timestamp = Date.parse(when.textContent?.trim() ?? "")
+      const [longitude, latitude, altitude] = (coords[index]?.textContent ?? "").trim().split(/\s+/).map(Number)
+      if (Number.isNaN(timestamp) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return
+
+      fixes.push(
+        makeFix(latitude, longitude, timestamp, {
+          altitude: hasAltitude && Number.isFinite(altitude) ? altitude : null,
+          speed: valueAt("speed", index),
+          heading: valueAt("heading", index),
+          accuracy: valueAt("accuracy", index) ?? DEFAULT_ACCURACY,
+        }),
+      )
+    })
+  }
+
+  if (fixes.length === 0) {
+    throw new Error("KML file has no timestamped gx:Track")
+  }
+
+  return fixes.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+interface GeoJsonTrackProperties {
+  coordinateProperties?: {
+    times?: (string | number)[]
+    speed?: (number | null)[]
+    heading?: (number | null)[]
+    accuracy?: (number | null)[]
+  }
+}
+
+interface GeoJsonObject {
+  type: string
+  features?: GeoJsonObject[]
+  geometry?: GeoJsonObject | null
+  coordinates?: number[][]
+  properties?: GeoJsonTrackProperties | null
+}
+
+const numberAt = (values: (number | null)[] | undefined, index: number) => {
+  const value = values?.[index]
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+// Reads LineString features timed by `coordinateProperties.times`, the convention our GeoJSON
+// export and most GPX-to-GeoJSON converters follow
+export function parseGeoJson(json: string): PositionFix[] {
+  let root: GeoJsonObject
+  try {
+    root = JSON.parse(json)
+  } catch {
+    throw new Error("Invalid GeoJSON file")
+  }
+
+  const features = root.type === "FeatureCollection" ? (root.features ?? []) : [root]
+  const fixes: PositionFix[] = []
+  for (const feature of features) {
+    const { geometry, properties } = feature
+    const times = properties?.coordinateProperties?.times
+    if (geometry?.type !== "LineString" || !geometry.coordinates || !times) continue
+    const { speed, heading, accuracy } = properties?.coordinateProperties ?? {}
+
+    geometry.coordinates.forEach(([longitude, latitude, altitude], index) => {
+      const time = times[index]
+      const timestamp = typeof time === "number" ? time : Date.parse(time ?? "")
+      if (Number.isNaN(timestamp) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return
+
+      fixes.push(
+        makeFix(latitude, longitude, timestamp, {
+          altitude: Number.isFinite(altitude) ? altitude : null,
+          speed: numberAt(speed, index),
+          heading: numberAt(heading, index),
+          accuracy: numberAt(accuracy, index) ?? DEFAULT_ACCURACY,
+        }),
+      )
+    })
+  }
+
+  if (fixes.length === 0) {
+    throw new Error("GeoJSON file has no LineString with coordinateProperties.times")
+  }
+
+  return fixes.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export function parseTrackFile(name: string, content: string): PositionFix[] {
+  const extension = name.toLowerCase().split(".").pop()
+  const trimmed = content.trimStart()
+  if (extension === "kml" || (trimmed.startsWith("<") && /<kml[\s>]/.test(trimmed))) return parseKml(content)
+  if (extension === "gpx" || trimmed.startsWith("<")) return parseGpx(content)
+  if (extension === "geojson" || extension === "json" || trimmed.startsWith("{")) return parseGeoJson(content)
+  return parseNmea(content)
+}
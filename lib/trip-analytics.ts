@@ -0,0 +1,125 @@
+import { haversineDistance } from "@/lib/geo"
+import { STATIONARY_SPEED } from "@/lib/speed-estimator"
+import type { TripSample } from "@/lib/types"
+import { MPS_TO_MPH, toDisplaySpeed, type SpeedUnit } from "@/lib/units"
+
+export interface TripSeriesPoint {
+  time: number // seconds since the first sample
+  distance: number // meters travelled so far
+  speed: number // mph
+  altitude: number | null // meters
+}
+
+export interface TripAnalytics {
+  series: TripSeriesPoint[]
+  distance: number // meters
+  duration: number // ms
+  movingTime: number // ms
+  stoppedTime: number // ms
+  averageMovingSpeed: number // mph
+  maxSpeed: number // mph
+  elevation: { min: number; max: number; gain: number; loss: number } | null // meters
+}
+
+export interface SpeedBand {
+  from: number // in the display unit
+  to: number
+  label: string
+  duration: number // ms
+}
+
+const STOPPED_SPEED_MPH = STATIONARY_SPEED * MPS_TO_MPH
+// Intervals longer than this are GPS dropouts or paused tracking, not driving or waiting
+const MAX_INTERVAL_MS = 30_000
+// Altitude changes smaller than this are GPS noise and would otherwise inflate total climb
+const ELEVATION_NOISE_M = 3
+
+function summarizeElevation(samples: TripSample[]): TripAnalytics["elevation"] {
+  const altitudes = samples.map((s) => s.altitude).filter((a): a is number => typeof a === "number")
+  if (altitudes.length === 0) return null
+
+  let gain = 0
+  let loss = 0
+  let reference = altitudes[0]
+  for (const altitude of altitudes) {
+    const delta = altitude - reference
+    if (Math.abs(delta) < ELEVATION_NOISE_M) continue
+    if (delta > 0) gain += delta
+    else loss -= delta
+    reference = altitude
+  }
+
+  return { min: Math.min(...altitudes), max: Math.max(...altitudes), gain, loss }
+}
+
+/**
+ * Derives chart series and moving/stopped totals from the sample stream. Each interval between
+ * consecutive samples counts as moving when its mean speed is above the stationary threshold.
+ */
+export function analyzeTrip(samples: TripSample[]): TripAnalytics {
+  const series: TripSeriesPoint[] = []
+  let distance = 0
+  let movingTime = 0
+  let stoppedTime = 0
+  let movingDistance = 0
+  let maxSpeed = 0
+
+  samples.forEach((sample, index) => {
+    if (index > 0 && !sample.resumed) {
+      const previous = samples[index - 1]
+      const step = haversineDistance(previous, sample)
+      const dt = sample.timestamp - previous.timestamp
+      distance += step
+
+      if (dt > 0 && dt <= MAX_INTERVAL_MS) {
+        if ((previous.speed + sample.speed) / 2 >= STOPPED_SPEED_MPH) {
+          movingTime += dt
+          movingDistance += step
+        } else {
+          stoppedTime += dt
+        }
+      }
+    }
+
+    maxSpeed = Math.max(maxSpeed, sample.speed)
+    series.push({
+      time: (sample.timestamp - samples[0].timestamp) / 1000,
+      distance,
+      speed: sample.speed,
+      altitude: sample.altitude ?? null,
+    })
+  })
+
+  return {
+    series,
+    distance,
+    duration: samples.length > 1 ? samples[samples.length - 1].timestamp - samples[0].timestamp : 0,
+    movingTime,
+    stoppedTime,
+    averageMovingSpeed: movingTime > 0 ? (movingDistance / (movingTime / 1000)) * MPS_TO_MPH : 0,
+    maxSpeed,
+    elevation: summarizeElevation(samples),
+  }
+}
+
+// Time spent in each speed band, e.g. 0–10, 10–20 … in the display unit
+export function timeInSpeedBands(samples: TripSample[], unit: SpeedUnit, bandWidth = 10): SpeedBand[] {
+  const durations: number[] = []
+
+  samples.forEach((sample, index) => {
+    if (index === 0) return
+    const previous = samples[index - 1]
+    const dt = sample.timestamp - previous.timestamp
+    if (dt <= 0 || dt > MAX_INTERVAL_MS) return
+
+    const band = Math.floor(toDisplaySpeed((previous.speed + sample.speed) / 2, unit) / bandWidth)
+    durations[band] = (durations[band] ?? 0) + dt
+  })
+
+  return Array.from({ length: durations.length }, (_, band) => ({
+    from: band * bandWidth,
+    to: (band + 1) * bandWidth,
+    label: `${band * bandWidth}–${(band + 1) * bandWidth}`,
+    duration: durations[band] ?? 0,
+  }))
+}
@@ -0,0 +1,109 @@
+import { haversineDistance, type LatLng } from "@/lib/geo"
+import { STATIONARY_SPEED } from "@/lib/speed-estimator"
+import { MPS_TO_MPH } from "@/lib/units"
+
+export interface Odometer {
+  distance: number // meters
+  elapsedTime: number // ms tracked since reset
+  movingTime: number // ms
+  resetAt: number
+}
+
+export interface Destination extends LatLng {
+  name: string
+}
+
+export interface TripComputerState {
+  tripA: Odometer
+  tripB: Odometer
+  lifetime: number // meters, never reset
+  destination: Destination | null
+}
+
+export type TripMeter = "tripA" | "tripB"
+
+export const TRIP_COMPUTER_STORAGE_KEY = "trip-computer"
+
+export const createOdometer = (resetAt = Date.now()): Odometer => ({
+  distance: 0,
+  elapsedTime: 0,
+  movingTime: 0,
+  resetAt,
+})
+
+export const DEFAULT_TRIP_COMPUTER_STATE: TripComputerState = {
+  tripA: createOdometer(0),
+  tripB: createOdometer(0),
+  lifetime: 0,
+  destination: null,
+}
+
+const STOPPED_SPEED_MPH = STATIONARY_SPEED * MPS_TO_MPH
+// Longer gaps between fixes mean tracking was interrupted; they are not added to elapsed time
+const MAX_STEP_MS = 30_000
+
+export interface TripStep {
+  distance: number // meters between two accepted fixes
+  duration: number // ms between them
+  speed: number // mph at the later fix
+}
+
+/**
+ * Adds the step between two accepted fixes to every odometer. While stopped the step's distance
+ * is GPS jitter rather than travel, so only its time is counted.
+ */
+export function accumulateStep(state: TripComputerState, step: TripStep): TripComputerState {
+  if (step.duration <= 0 || step.duration > MAX_STEP_MS) return state
+
+  const isMoving = step.speed >= STOPPED_SPEED_MPH
+  const distance = isMoving ? step.distance : 0
+  const advance = (odometer: Odometer): Odometer => ({
+    ...odometer,
+    distance: odometer.distance + distance,
+    elapsedTime: odometer.elapsedTime + step.duration,
+    movingTime: odometer.movingTime + (isMoving ? step.duration : 0),
+  })
+
+  return {
+    ...state,
+    tripA: advance(state.tripA),
+    tripB: advance(state.tripB),
+    lifetime: state.lifetime + distance,
+  }
+}
+
+// mph over elapsed time (stops included) and over moving time
+export function averageSpeeds(odometer: Odometer): { overall: number; moving: number } {
+  const speed = (ms: number) => (ms > 0 ? (odometer.distance / (ms / 1000)) * MPS_TO_MPH : 0)
+  return { overall: speed(odometer.elapsedTime), moving: speed(odometer.movingTime) }
+}
+
+export interface ArrivalEstimate {
+  remaining: number // meters, straight line
+  timeRemaining: number | null // ms; null until there is an average speed to go on
+  arrivesAt: number | null
+}
+
+export function estimateArrival(
+  position: LatLng,
+  destination: LatLng,
+  averageSpeedMph: number,
+  now = Date.now(),
+): ArrivalEstimate {
+  const remaining = haversineDistance(position, destination)
+  if (averageSpeedMph < STOPPED_SPEED_MPH) return { remaining, timeRemaining: null, arrivesAt: null }
+
+  const timeRemaining = (remaining / (averageSpeedMph / MPS_TO_MPH)) * 1000
+  return { remaining, timeRemaining, arrivesAt: now + timeRemaining }
+}
+
+// Accepts "lat, lon" or "lat lon" in decimal degrees, e.g. pasted from a map app
+export function parseCoordinates(input: string): LatLng | null {
+  const match = input.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/)
+  if (!match) return null
+
+  const latitude = Number(match[1])
+  const longitude = Number(match[2])
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+  return { latitude, longitude }
+}
@@ -0,0 +1,127 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { summarizeUploadedTrip, type TripQuery, type UploadedTrip, type UploadedTripSummary } from "@/lib/fleet"
+
+/**
+ * Server-side storage for uploaded trips, used only by the /api/trips route handlers. Another
+ * backend (SQLite, Postgres, object storage) only has to implement TripStore and be returned from
+ * getTripStore.
+ */
+export interface TripStore {
+  // Replaces any trip with the same id, so a retried upload never duplicates a drive
+  put(trip: UploadedTrip): Promise<{ created: boolean }>
+  get(id: string): Promise<UploadedTrip | null>
+  // Newest first
+  list(query?: TripQuery): Promise<UploadedTripSummary[]>
+}
+
+function filterSummaries(summaries: Iterable<UploadedTripSummary>, { driverId, from, to, limit }: TripQuery = {}) {
+  const matches = [...summaries]
+    .filter(
+      (trip) =>
+        (driverId === undefined || trip.driverId === driverId) &&
+        (from === undefined || trip.startedAt >= from) &&
+        (to === undefined || trip.startedAt <= to),
+    )
+    .sort((a, b) => b.startedAt - a.startedAt)
+  return limit === undefined ? matches : matches.slice(0, limit)
+}
+
+export function createMemoryTripStore(): TripStore {
+  const trips = new Map<string, UploadedTrip>()
+  const summaries = new Map<string, UploadedTripSummary>()
+
+  return {
+    async put(trip) {
+      const created = !trips.has(trip.id)
+      trips.set(trip.id, trip)
+      summaries.set(trip.id, summarizeUploadedTrip(trip))
+      return { created }
+    },
+    async get(id) {
+      return trips.get(id) ?? null
+    },
+    async list(query) {
+      return filterSummaries(summaries.values(), query)
+    },
+  }
+}
+
+const TRIP_ID_PATTERN = /^[0-9a-f-]{36}$/i
+
+/**
+ * One JSON file per trip plus index.json holding every summary, so listing never reads the samples.
+ * Writes go through a temporary file and a rename so a crash cannot leave a half-written file, and
+ * are serialized so concurrent uploads cannot lose each other's index entries.
+ */
+export function createFileTripStore(directory: string): TripStore {
+  const indexPath = path.join(directory, "index.json")
+  let index: Promise<Map<string, UploadedTripSummary>> | null = null
+  let writes: Promise<unknown> = Promise.resolve()
+
+  const writeJson = async (file: string, value: unknown) => {
+    const temporary = `${file}.${process.pid}.tmp`
+    await writeFile(temporary, JSON.stringify(value))
+    await rename(temporary, file)
+  }
+
+  const loadIndex = () => {
+    index ??= (async () => {
+      await mkdir(directory, { recursive: true })
+      try {
+        const entries = JSON.parse(await readFile(indexPath, "utf8")) as UploadedTripSummary[]
+        return new Map(entries.map((entry) => [entry.id, entry]))
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+        return new Map<string, UploadedTripSummary>()
+      }
+    })()
+    // Let the next request try again rather than failing forever
+    index.catch(() => (index = null))
+    return index
+  }
+
+  const tripPath = (id: string) => path.join(directory, `${id}.json`)
+
+  return {
+    put(trip) {
+      // Ids come from clients; never let one name a path outside the store
+      if (!TRIP_ID_PATTERN.test(trip.id)) return Promise.reject(new Error(`Invalid trip id ${trip.id}`))
+      const write = writes.then(async () => {
+        const summaries = await loadIndex()
+        const created = !summaries.has(trip.id)
+        await writeJson(tripPath(trip.id), trip)
+        summaries.set(trip.id, summarizeUploadedTrip(trip))
+        await writeJson(indexPath, [...summaries.values()])
+        return { created }
+      })
+      writes = write.catch(() => {})
+      return write
+    },
+
+    async get(id) {
+      if (!TRIP_ID_PATTERN.test(id)) return null
+      try {
+        return JSON.parse(await readFile(tripPath(id), "utf8")) as UploadedTrip
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw err
+      }
+    },
+
+    async list(query) {
+      return filterSummaries((await loadIndex()).values(), query)
+    },
+  }
+}
+
+// TRIP_STORE=memory keeps trips only until the server restarts, which suits demos and tests
+const globalStore = globalThis as typeof globalThis & { __tripStore?: TripStore }
+
+export function getTripStore(): TripStore {
+  globalStore.__tripStore ??=
+    process.env.TRIP_STORE === "memory"
+      ? createMemoryTripStore()
+      : createFileTripStore(process.env.TRIP_STORE_DIR ?? path.join(process.cwd(), ".data", "trips"))
+  return globalStore.__tripStore
+}
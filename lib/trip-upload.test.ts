@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { FLEET_API_VERSION, MAX_UPLOAD_SAMPLES, tripUploadSchema } from "@/lib/fleet"
+import { tripUploadParts } from "@/lib/trip-upload"
+import { createTrip } from "@/lib/trips"
+import type { TripSample } from "@/lib/types"
+
+const START = 1_700_000_000_000
+const TRIP_ID = "3f2b8c1e-5d4a-4e8b-9c7d-0a1b2c3d4e5f"
+
+const drive = (count: number): TripSample[] =>
+  Array.from({ length: count }, (_, index) => ({
+    timestamp: START + index * 1000,
+    latitude: 52.52 + index * 0.0001,
+    longitude: 13.405,
+    speed: 30,
+    heading: 0,
+    accuracy: 5,
+    altitude: 34,
+  }))
+
+const isAccepted = (trip: ReturnType<typeof tripUploadParts>[number]) =>
+  tripUploadSchema.safeParse({ version: FLEET_API_VERSION, driver: { name: "Sam" }, trip }).success
+
+describe("tripUploadParts", () => {
+  it("sends an ordinary trip as it is", () => {
+    const trip = createTrip(drive(10), { id: TRIP_ID })
+    const parts = tripUploadParts(trip)
+    expect(parts).toEqual([{ id: TRIP_ID, name: trip.name, samples: trip.samples }])
+    expect(isAccepted(parts[0])).toBe(true)
+  })
+
+  it("cleans up values the server would refuse", () => {
+    const samples = drive(4)
+    samples[0] = { ...samples[0], heading: NaN, altitude: Infinity }
+    samples[1] = { ...samples[1], speed: NaN, accuracy: -1 }
+    samples[2] = { ...samples[2], latitude: NaN }
+    const [part] = tripUploadParts(createTrip(samples, { id: TRIP_ID }))
+
+    expect(part.samples).toHaveLength(3)
+    expect(part.samples[0]).toMatchObject({ heading: null, altitude: null })
+    expect(part.samples[1]).toMatchObject({ speed: 0, accuracy: 0 })
+    expect(isAccepted(part)).toBe(true)
+  })
+
+  it("splits a trip above the sample limit into equal parts with stable ids", () => {
+    const trip = createTrip(drive(MAX_UPLOAD_SAMPLES * 2 + 1), { id: TRIP_ID })
+    const parts = tripUploadParts(trip)
+
+    expect(parts.map((part) => part.samples.length)).toEqual([33334, 33334, 33333])
+    expect(parts.map((part) => part.name)).toEqual([1, 2, 3].map((n) => `${trip.name} (part ${n} of 3)`))
+    expect(parts.flatMap((part) => part.samples)).toEqual(trip.samples)
+    expect(parts[0].id).toBe(TRIP_ID)
+    expect(new Set(parts.map((part) => part.id)).size).toBe(3)
+    expect(tripUploadParts(trip).map((part) => part.id)).toEqual(parts.map((part) => part.id))
+    expect(parts.every(isAccepted)).toBe(true)
+  })
+})
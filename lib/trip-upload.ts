@@ -0,0 +1,156 @@
+import { FLEET_API_VERSION, MAX_UPLOAD_SAMPLES, type TripUpload } from "@/lib/fleet"
+import type { Settings } from "@/lib/settings"
+import { loadJson, saveJson } from "@/lib/storage"
+import { getTrip, isReplayTrip, type Trip } from "@/lib/trips"
+import type { TripSample } from "@/lib/types"
+
+// Ids of saved trips still to be uploaded. The trips themselves stay in IndexedDB.
+export const TRIP_UPLOAD_QUEUE_STORAGE_KEY = "trip-upload-queue"
+// Trips the server refused, kept so the driver can see why and send them again
+export const TRIP_UPLOAD_FAILED_STORAGE_KEY = "trip-upload-failed"
+
+type FleetSettings = Settings["fleet"]
+
+export const pendingTripUploads = () => loadJson<string[]>(TRIP_UPLOAD_QUEUE_STORAGE_KEY, [])
+
+export function queueTripUpload(id: string) {
+  const queue = pendingTripUploads()
+  if (!queue.includes(id)) saveJson(TRIP_UPLOAD_QUEUE_STORAGE_KEY, [...queue, id])
+}
+
+const dequeue = (id: string) =>
+  saveJson(
+    TRIP_UPLOAD_QUEUE_STORAGE_KEY,
+    pendingTripUploads().filter((queued) => queued !== id),
+  )
+
+export interface FailedTripUpload {
+  id: string
+  name: string
+  error: string
+  failedAt: number
+}
+
+export const failedTripUploads = () => loadJson<FailedTripUpload[]>(TRIP_UPLOAD_FAILED_STORAGE_KEY, [])
+
+export function dismissFailedTripUpload(id: string) {
+  saveJson(
+    TRIP_UPLOAD_FAILED_STORAGE_KEY,
+    failedTripUploads().filter((failed) => failed.id !== id),
+  )
+}
+
+// Moves a refused trip back into the queue, for instance once the driver name has been fixed
+export function retryTripUpload(id: string) {
+  dismissFailedTripUpload(id)
+  queueTripUpload(id)
+}
+
+const markFailed = (trip: Trip, error: string) => {
+  dequeue(trip.id)
+  saveJson(TRIP_UPLOAD_FAILED_STORAGE_KEY, [
+    ...failedTripUploads().filter((failed) => failed.id !== trip.id),
+    { id: trip.id, name: trip.name, error, failedAt: Date.now() },
+  ])
+}
+
+// Fixes straight from the browser can carry NaN or negative values that the upload schema refuses
+const cleanSample = (sample: TripSample): TripSample | null => {
+  if (![sample.timestamp, sample.latitude, sample.longitude].every(Number.isFinite)) return null
+  const finiteOr = <T>(value: number | null | undefined, fallback: T) =>
+    typeof value === "number" && Number.isFinite(value) ? value : fallback
+  const rawSpeed = finiteOr(sample.rawSpeed, undefined)
+  return {
+    timestamp: sample.timestamp,
+    latitude: sample.latitude,
+    longitude: sample.longitude,
+    speed: Math.max(0, finiteOr(sample.speed, 0)),
+    rawSpeed: rawSpeed === undefined ? undefined : Math.max(0, rawSpeed),
+    accuracy: Math.max(0, finiteOr(sample.accuracy, 0)),
+    heading: finiteOr(sample.heading, null),
+    altitude: finiteOr(sample.altitude, null),
+  }
+}
+
+// Each part keeps a stable id, so resending a trip after a partial failure replaces its parts
+const partId = (id: string, part: number) =>
+  part === 0 ? id : id.slice(0, -4) + ((parseInt(id.slice(-4), 16) + part) % 0x10000).toString(16).padStart(4, "0")
+
+/**
+ * Splits a trip into the trips the fleet API will accept: samples it would refuse are cleaned up
+ * or left out, and a trip longer than MAX_UPLOAD_SAMPLES goes up as several parts of equal size.
+ */
+export function tripUploadParts(trip: Trip): TripUpload["trip"][] {
+  const samples = trip.samples.map(cleanSample).filter((sample): sample is TripSample => sample !== null)
+  const parts = Math.max(1, Math.ceil(samples.length / MAX_UPLOAD_SAMPLES))
+  const size = Math.ceil(samples.length / parts)
+  return Array.from({ length: parts }, (_, part) => ({
+    id: partId(trip.id, part),
+    name: parts === 1 ? trip.name : `${trip.name} (part ${part + 1} of ${parts})`,
+    samples: samples.slice(part * size, (part + 1) * size),
+  }))
+}
+
+export const fleetEndpoint = (serverUrl: string, path = "") =>
+  `${serverUrl.trim().replace(/\/+$/, "")}/api/trips${path}`
+
+export const fleetHeaders = (fleet: FleetSettings): HeadersInit =>
+  fleet.apiToken ? { Authorization: `Bearer ${fleet.apiToken}` } : {}
+
+export interface UploadResult {
+  uploaded: number
+  pending: number
+  failed: FailedTripUpload[]
+  error: string | null
+}
+
+/**
+ * Uploads queued trips oldest first. A network failure or server error stops the run and leaves
+ * the rest queued for the next attempt; a trip the server rejects moves to the failed list, since
+ * sending it again unchanged would fail the same way.
+ */
+export async function flushTripUploads(fleet: FleetSettings): Promise<UploadResult> {
+  let uploaded = 0
+  let error: string | null = null
+
+  for (const id of pendingTripUploads()) {
+    const trip = await getTrip(id)
+    // Replays were never driven by this driver, so they are not the fleet's business
+    if (!trip || isReplayTrip(trip)) {
+      dequeue(id)
+      continue
+    }
+
+    // There is always at least one part, so a run that gets past the catch has a response
+    let response!: Response
+    try {
+      for (const part of tripUploadParts(trip)) {
+        const upload: TripUpload = { version: FLEET_API_VERSION, driver: { name: fleet.driverName }, trip: part }
+        response = await fetch(fleetEndpoint(fleet.serverUrl), {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...fleetHeaders(fleet) },
+          body: JSON.stringify(upload),
+        })
+        if (!response.ok) break
+      }
+    } catch (err) {
+      error = "Fleet server unreachable"
+      console.error("Trip upload error:", err)
+      break
+    }
+
+    if (response.ok) {
+      dequeue(id)
+      uploaded++
+      continue
+    }
+    const body = await response.json().catch(() => null)
+    error = (body?.error as string | undefined) ?? `Fleet server responded ${response.status}`
+    // Auth and server trouble can clear up; anything else is this trip's fault
+    if (response.status === 401 || response.status >= 500) break
+    markFailed(trip, error)
+    console.error("Trip upload error:", new Error(`${trip.name}: ${error}`))
+  }
+
+  return { uploaded, pending: pendingTripUploads().length, failed: failedTripUploads(), error }
+}
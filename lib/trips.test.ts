@@ -0,0 +1,30 @@
+import "fake-indexeddb/auto"
+import { describe, expect, it } from "vitest"
+import { createTrip, getTrip, renameTrip, saveTripCheckpoint } from "@/lib/trips"
+import type { TripSample } from "@/lib/types"
+
+const START = 1_700_000_000_000
+const TRIP_ID = "9a6c2f0e-1b3d-4c5e-8f7a-6b5c4d3e2f1a"
+
+const drive = (count: number): TripSample[] =>
+  Array.from({ length: count }, (_, index) => ({
+    timestamp: START + index * 1000,
+    latitude: 52.52 + index * 0.0001,
+    longitude: 13.405,
+    speed: 30,
+    heading: 0,
+    accuracy: 5,
+  }))
+
+describe("saveTripCheckpoint", () => {
+  it("keeps a name given to the trip while it was still being recorded", async () => {
+    const first = await saveTripCheckpoint(createTrip(drive(5), { id: TRIP_ID }))
+    expect(first.name).toMatch(/^Trip /)
+
+    await renameTrip(TRIP_ID, "Commute")
+    const next = await saveTripCheckpoint(createTrip(drive(10), { id: TRIP_ID }))
+
+    expect(next.name).toBe("Commute")
+    expect(await getTrip(TRIP_ID)).toMatchObject({ name: "Commute", samples: drive(10) })
+  })
+})
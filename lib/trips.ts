@@ -0,0 +1,98 @@
+import { withStore } from "@/lib/db"
+import { haversineDistance } from "@/lib/geo"
+import type { TripSample } from "@/lib/types"
+import { MPS_TO_MPH } from "@/lib/units"
+
+export interface TripSummary {
+  distance: number // meters
+  duration: number // milliseconds
+  averageSpeed: number // mph
+  maxSpeed: number // mph
+}
+
+// Replayed trips are kept for review but stay out of odometers and fleet uploads
+export type TripSource = "live" | "replay"
+
+export interface Trip extends TripSummary {
+  id: string
+  name: string
+  source?: TripSource // missing from trips saved before replays were told apart, which were all live
+  startedAt: number
+  endedAt: number
+  samples: TripSample[]
+}
+
+export function summarizeTrip(samples: TripSample[]): TripSummary {
+  if (samples.length === 0) {
+    return { distance: 0, duration: 0, averageSpeed: 0, maxSpeed: 0 }
+  }
+
+  let distance = 0
+  let maxSpeed = 0
+
+  samples.forEach((sample, index) => {
+    if (index > 0 && !sample.resumed) {
+      distance += haversineDistance(samples[index - 1], sample)
+    }
+    maxSpeed = Math.max(maxSpeed, sample.speed)
+  })
+
+  const duration = samples[samples.length - 1].timestamp - samples[0].timestamp
+  const averageSpeed = duration > 0 ? (distance / (duration / 1000)) * MPS_TO_MPH : 0
+
+  return { distance, duration, averageSpeed, maxSpeed }
+}
+
+// A trip in progress is saved this often, so closing the tab mid-drive loses little of it
+export const TRIP_CHECKPOINT_MS = 30000
+
+// Pass the id of a trip already saved to overwrite it, as the checkpoints of one drive do
+export function createTrip(
+  samples: TripSample[],
+  { id = crypto.randomUUID(), source = "live" }: { id?: string; source?: TripSource } = {},
+): Trip {
+  const startedAt = samples[0].timestamp
+
+  return {
+    id,
+    source,
+    name: `${source === "replay" ? "Replay" : "Trip"} ${new Date(startedAt).toLocaleString()}`,
+    startedAt,
+    endedAt: samples[samples.length - 1].timestamp,
+    samples,
+    ...summarizeTrip(samples),
+  }
+}
+
+export const isReplayTrip = (trip: Trip) => trip.source === "replay"
+
+export async function saveTrip(trip: Trip): Promise<void> {
+  await withStore("trips", "readwrite", (store) => store.put(trip))
+}
+
+// Checkpoints re-save the trip in progress under the same id; a rename made in Trip History meanwhile is kept
+export async function saveTripCheckpoint(trip: Trip): Promise<Trip> {
+  const stored = await getTrip(trip.id)
+  const updated = stored ? { ...trip, name: stored.name } : trip
+  await saveTrip(updated)
+  return updated
+}
+
+export async function listTrips(): Promise<Trip[]> {
+  const trips = await withStore<Trip[]>("trips", "readonly", (store) => store.index("startedAt").getAll())
+  return trips.reverse()
+}
+
+export async function getTrip(id: string): Promise<Trip | undefined> {
+  return withStore<Trip | undefined>("trips", "readonly", (store) => store.get(id))
+}
+
+export async function renameTrip(id: string, name: string): Promise<void> {
+  const trip = await getTrip(id)
+  if (!trip) return
+  await saveTrip({ ...trip, name })
+}
+
+export async function deleteTrip(id: string): Promise<void> {
+  await withStore("trips", "readwrite", (store) => store.delete(id))
+}
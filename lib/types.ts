@@ -0,0 +1,21 @@
+export interface SpeedData {
+  speed: number
+  accuracy: number
+  heading: number | null
+  timestamp: number
+}
+
+export interface Position {
+  latitude: number
+  longitude: number
+  timestamp: number
+}
+
+// A single accepted GPS fix. Speed is stored in mph, matching the rest of the app.
+// Altitude (meters) and rawSpeed are missing from trips saved before they were recorded.
+export type TripSample = Position &
+  SpeedData & {
+    altitude?: number | null
+    rawSpeed?: number // mph as measured, before the smoothing that produced `speed`
+    resumed?: boolean // first fix after a break in the track, such as a replay seek; nothing is measured across it
+  }
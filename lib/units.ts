@@ -0,0 +1,52 @@
+export type SpeedUnit = "mph" | "kmh" | "knots" | "mps"
+
+export const MPS_TO_MPH = 2.237
+export const MPH_TO_KMH = 1.609344
+export const MPH_TO_KNOTS = 0.868976
+export const METERS_PER_MILE = 1609.344
+export const METERS_PER_NAUTICAL_MILE = 1852
+export const METERS_TO_FEET = 3.28084
+
+interface UnitSystem {
+  label: string
+  perMph: number // display units per mph, the internal speed unit
+  metersPerDistanceUnit: number
+  distanceLabel: string
+  feet: boolean // altitudes and short distances in feet rather than meters
+}
+
+// Distances follow the speed unit: miles with mph, nautical miles with knots, kilometers otherwise
+export const SPEED_UNITS: Record<SpeedUnit, UnitSystem> = {
+  mph: { label: "mph", perMph: 1, metersPerDistanceUnit: METERS_PER_MILE, distanceLabel: "mi", feet: true },
+  kmh: { label: "km/h", perMph: MPH_TO_KMH, metersPerDistanceUnit: 1000, distanceLabel: "km", feet: false },
+  knots: {
+    label: "knots",
+    perMph: MPH_TO_KNOTS,
+    metersPerDistanceUnit: METERS_PER_NAUTICAL_MILE,
+    distanceLabel: "nmi",
+    feet: true,
+  },
+  mps: { label: "m/s", perMph: 1 / MPS_TO_MPH, metersPerDistanceUnit: 1000, distanceLabel: "km", feet: false },
+}
+
+export const toDisplaySpeed = (mph: number, unit: SpeedUnit) => mph * SPEED_UNITS[unit].perMph
+
+export const toDisplayDistance = (meters: number, unit: SpeedUnit) => meters / SPEED_UNITS[unit].metersPerDistanceUnit
+
+export const distanceLabel = (unit: SpeedUnit) => SPEED_UNITS[unit].distanceLabel
+
+// Elevations follow the distance system: feet alongside mph and knots, meters otherwise
+export const toDisplayAltitude = (meters: number, unit: SpeedUnit) =>
+  SPEED_UNITS[unit].feet ? meters * METERS_TO_FEET : meters
+
+export const altitudeLabel = (unit: SpeedUnit) => (SPEED_UNITS[unit].feet ? "ft" : "m")
+
+export const fromDisplaySpeed = (value: number, unit: SpeedUnit) => value / SPEED_UNITS[unit].perMph
+
+export const convertSpeed = (value: number, from: SpeedUnit, to: SpeedUnit) =>
+  toDisplaySpeed(fromDisplaySpeed(value, from), to)
+
+export const nextSpeedUnit = (unit: SpeedUnit) => {
+  const units = Object.keys(SPEED_UNITS) as SpeedUnit[]
+  return units[(units.indexOf(unit) + 1) % units.length]
+}
@@ -0,0 +1,123 @@
+// Offline-first service worker for the app shell. Bump CACHE_VERSION to drop old caches on deploy;
+// the page shows "update available" while a new worker waits and sends SKIP_WAITING to activate it.
+const CACHE_VERSION = "v3"
+const SHELL_CACHE = `speedometer-shell-${CACHE_VERSION}`
+const RUNTIME_CACHE = `speedometer-runtime-${CACHE_VERSION}`
+// Map tiles outlive deploys; they are keyed by URL so a new tile server simply misses
+const TILE_CACHE = "speedometer-tiles"
+const MAX_TILES = 2000
+
+const SHELL_PAGES = ["/", "/trips", "/recordings", "/settings", "/fleet"]
+const SHELL_ASSETS = [
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/icon-maskable-512.png",
+  "/icons/apple-touch-icon.png",
+]
+
+// Next.js chunk names are content-hashed, so collect the ones each shell page references
+const ASSET_PATTERN = /(?:src|href)="(\/_next\/static\/[^"]+)"/g
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE)
+  const assets = new Set(SHELL_ASSETS)
+
+  for (const page of SHELL_PAGES) {
+    const response = await fetch(page, { cache: "reload" })
+    if (!response.ok) continue
+    const html = await response.clone().text()
+    for (const match of html.matchAll(ASSET_PATTERN)) assets.add(match[1])
+    await cache.put(page, response)
+  }
+
+  await cache.addAll([...assets])
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell())
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = new Set([SHELL_CACHE, RUNTIME_CACHE, TILE_CACHE])
+      for (const key of await caches.keys()) {
+        if (!keep.has(key)) await caches.delete(key)
+      }
+      await self.clients.claim()
+    })(),
+  )
+})
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting()
+})
+
+// Pages: network first so deploys show up immediately, falling back to the cached shell offline
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request)
+    // An error page would otherwise replace the working copy served offline
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE)
+      cache.put(new URL(request.url).pathname, response.clone())
+    }
+    return response
+  } catch {
+    const cached = (await caches.match(new URL(request.url).pathname)) ?? (await caches.match("/"))
+    return cached ?? Response.error()
+  }
+}
+
+// Hashed static assets never change, so serve them from cache and fill it as they are first used
+async function handleAsset(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Tiles from any server (the URL template is user-configurable): cache first so the areas already
+// driven through stay available offline, evicting the oldest once the cache is full
+const TILE_PATTERN = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/
+let tilePuts = 0
+
+async function handleTile(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(TILE_CACHE)
+    await cache.put(request, response.clone())
+    if (++tilePuts % 50 === 0) {
+      const keys = await cache.keys()
+      for (const key of keys.slice(0, Math.max(0, keys.length - MAX_TILES))) await cache.delete(key)
+    }
+  }
+  return response
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+  if (request.destination === "image" && TILE_PATTERN.test(url.pathname)) {
+    event.respondWith(handleTile(request))
+    return
+  }
+  if (url.origin !== self.location.origin) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request))
+  } else if (url.pathname.startsWith("/_next/static/") || SHELL_ASSETS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request))
+  }
+})